@@ -0,0 +1,15 @@
+-- Accent-insensitive trigram search (used by GET /api/search)
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+CREATE EXTENSION IF NOT EXISTS unaccent;--> statement-breakpoint
+-- unaccent() is only STABLE; this wrapper pins the dictionary so it can be used in indexes
+CREATE OR REPLACE FUNCTION f_unaccent(text) RETURNS text
+  LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+  AS $$ SELECT public.unaccent('public.unaccent'::regdictionary, $1) $$;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_players_name_trgm" ON "players" USING gin (f_unaccent(lower("player_name")) gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_players_nickname_trgm" ON "players" USING gin (f_unaccent(lower("player_nickname")) gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_teams_name_trgm" ON "teams" USING gin (f_unaccent(lower("team_name")) gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_competitions_name_trgm" ON "competitions" USING gin (f_unaccent(lower("competition_name")) gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_managers_name_trgm" ON "managers" USING gin (f_unaccent(lower("manager_name")) gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_managers_nickname_trgm" ON "managers" USING gin (f_unaccent(lower("manager_nickname")) gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_referees_name_trgm" ON "referees" USING gin (f_unaccent(lower("referee_name")) gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_stadiums_name_trgm" ON "stadiums" USING gin (f_unaccent(lower("stadium_name")) gin_trgm_ops);
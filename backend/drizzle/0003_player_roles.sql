@@ -0,0 +1,17 @@
+CREATE TABLE "player_roles" (
+	"player_id" integer NOT NULL,
+	"competition_id" integer NOT NULL,
+	"season_id" integer NOT NULL,
+	"position_category" "position_category" NOT NULL,
+	"role" varchar(50) NOT NULL,
+	"role_confidence" numeric(4, 3) NOT NULL,
+	"minutes_played" numeric(7, 2),
+	"features" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "player_roles_player_id_competition_id_season_id_pk" PRIMARY KEY("player_id","competition_id","season_id")
+);
+--> statement-breakpoint
+ALTER TABLE "player_roles" ADD CONSTRAINT "player_roles_player_id_players_player_id_fk" FOREIGN KEY ("player_id") REFERENCES "public"."players"("player_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "player_roles" ADD CONSTRAINT "player_roles_competition_id_competitions_competition_id_fk" FOREIGN KEY ("competition_id") REFERENCES "public"."competitions"("competition_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_player_roles_role" ON "player_roles" USING btree ("role");--> statement-breakpoint
+CREATE INDEX "idx_player_roles_season" ON "player_roles" USING btree ("competition_id","season_id");
\ No newline at end of file
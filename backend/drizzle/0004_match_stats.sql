@@ -0,0 +1,71 @@
+CREATE TABLE "player_match_stats" (
+	"match_id" integer NOT NULL,
+	"player_id" integer NOT NULL,
+	"team_id" integer NOT NULL,
+	"minutes_played" numeric(5, 2) DEFAULT '0' NOT NULL,
+	"passes" integer DEFAULT 0 NOT NULL,
+	"passes_completed" integer DEFAULT 0 NOT NULL,
+	"key_passes" integer DEFAULT 0 NOT NULL,
+	"assists" integer DEFAULT 0 NOT NULL,
+	"shots" integer DEFAULT 0 NOT NULL,
+	"shots_on_target" integer DEFAULT 0 NOT NULL,
+	"goals" integer DEFAULT 0 NOT NULL,
+	"xg" numeric(6, 3) DEFAULT '0' NOT NULL,
+	"carries" integer DEFAULT 0 NOT NULL,
+	"dribbles" integer DEFAULT 0 NOT NULL,
+	"successful_dribbles" integer DEFAULT 0 NOT NULL,
+	"pressures" integer DEFAULT 0 NOT NULL,
+	"duels" integer DEFAULT 0 NOT NULL,
+	"duels_won" integer DEFAULT 0 NOT NULL,
+	"duels_lost" integer DEFAULT 0 NOT NULL,
+	"tackles_won" integer DEFAULT 0 NOT NULL,
+	"interceptions" integer DEFAULT 0 NOT NULL,
+	"blocks" integer DEFAULT 0 NOT NULL,
+	"clearances" integer DEFAULT 0 NOT NULL,
+	"ball_recoveries" integer DEFAULT 0 NOT NULL,
+	"dispossessed" integer DEFAULT 0 NOT NULL,
+	"fouls_committed" integer DEFAULT 0 NOT NULL,
+	"fouls_won" integer DEFAULT 0 NOT NULL,
+	"goalkeeper_actions" integer DEFAULT 0 NOT NULL,
+	"saves" integer DEFAULT 0 NOT NULL,
+	"goals_conceded" integer DEFAULT 0 NOT NULL,
+	"yellow_cards" integer DEFAULT 0 NOT NULL,
+	"red_cards" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "player_match_stats_match_id_player_id_pk" PRIMARY KEY("match_id","player_id")
+);
+--> statement-breakpoint
+CREATE TABLE "team_match_stats" (
+	"match_id" integer NOT NULL,
+	"team_id" integer NOT NULL,
+	"opponent_id" integer NOT NULL,
+	"is_home" boolean NOT NULL,
+	"passes" integer DEFAULT 0 NOT NULL,
+	"passes_completed" integer DEFAULT 0 NOT NULL,
+	"shots" integer DEFAULT 0 NOT NULL,
+	"shots_on_target" integer DEFAULT 0 NOT NULL,
+	"goals" integer DEFAULT 0 NOT NULL,
+	"xg" numeric(6, 3) DEFAULT '0' NOT NULL,
+	"carries" integer DEFAULT 0 NOT NULL,
+	"dribbles" integer DEFAULT 0 NOT NULL,
+	"pressures" integer DEFAULT 0 NOT NULL,
+	"duels" integer DEFAULT 0 NOT NULL,
+	"duels_won" integer DEFAULT 0 NOT NULL,
+	"tackles_won" integer DEFAULT 0 NOT NULL,
+	"interceptions" integer DEFAULT 0 NOT NULL,
+	"fouls_committed" integer DEFAULT 0 NOT NULL,
+	"yellow_cards" integer DEFAULT 0 NOT NULL,
+	"red_cards" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "team_match_stats_match_id_team_id_pk" PRIMARY KEY("match_id","team_id")
+);
+--> statement-breakpoint
+ALTER TABLE "player_match_stats" ADD CONSTRAINT "player_match_stats_match_id_matches_match_id_fk" FOREIGN KEY ("match_id") REFERENCES "public"."matches"("match_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "player_match_stats" ADD CONSTRAINT "player_match_stats_player_id_players_player_id_fk" FOREIGN KEY ("player_id") REFERENCES "public"."players"("player_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "player_match_stats" ADD CONSTRAINT "player_match_stats_team_id_teams_team_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("team_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "team_match_stats" ADD CONSTRAINT "team_match_stats_match_id_matches_match_id_fk" FOREIGN KEY ("match_id") REFERENCES "public"."matches"("match_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "team_match_stats" ADD CONSTRAINT "team_match_stats_team_id_teams_team_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("team_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "team_match_stats" ADD CONSTRAINT "team_match_stats_opponent_id_teams_team_id_fk" FOREIGN KEY ("opponent_id") REFERENCES "public"."teams"("team_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_player_match_stats_player" ON "player_match_stats" USING btree ("player_id");--> statement-breakpoint
+CREATE INDEX "idx_player_match_stats_team" ON "player_match_stats" USING btree ("team_id");--> statement-breakpoint
+CREATE INDEX "idx_team_match_stats_team" ON "team_match_stats" USING btree ("team_id");
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE "aggregate_watermarks" (
+	"name" varchar(50) PRIMARY KEY NOT NULL,
+	"refreshed_at" timestamp NOT NULL,
+	"rows_refreshed" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
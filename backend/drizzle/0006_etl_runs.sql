@@ -0,0 +1,21 @@
+CREATE TYPE "public"."etl_run_status" AS ENUM('running', 'completed', 'failed');--> statement-breakpoint
+CREATE TABLE "etl_files" (
+	"stage" varchar(50) NOT NULL,
+	"file_name" varchar(255) NOT NULL,
+	"run_id" integer NOT NULL,
+	"completed_at" timestamp DEFAULT now(),
+	CONSTRAINT "etl_files_stage_file_name_pk" PRIMARY KEY("stage","file_name")
+);
+--> statement-breakpoint
+CREATE TABLE "etl_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"stage" varchar(50) NOT NULL,
+	"status" "etl_run_status" DEFAULT 'running' NOT NULL,
+	"files_processed" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "etl_files" ADD CONSTRAINT "etl_files_run_id_etl_runs_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."etl_runs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_etl_runs_stage" ON "etl_runs" USING btree ("stage","started_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "matches" ALTER COLUMN "last_updated" DROP NOT NULL;
\ No newline at end of file
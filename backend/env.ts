@@ -47,6 +47,9 @@ const envSchema = z.object({
   // Google Generative API Key
   GOOGLE_GENERATIVE_AI_API_KEY: z.string().min(1),
 
+  // Admin API (/api/admin/*), disabled when unset or empty
+  ADMIN_API_KEY: z.string().optional(),
+
   // Logging
   LOG_LEVEL: z
     .enum(["error", "warn", "info", "debug", "trace"])
@@ -1,4 +1,6 @@
 import { drizzle } from "drizzle-orm/node-postgres";
+import type { NodePgQueryResultHKT } from "drizzle-orm/node-postgres";
+import type { PgDatabase } from "drizzle-orm/pg-core";
 import pg from "pg";
 import { env } from "../../env.ts";
 
@@ -14,3 +16,6 @@ const pool = new pg.Pool({
 });
 
 export const db = drizzle(pool);
+
+// db or a transaction (tx), for code that can run inside a caller's transaction
+export type DbExecutor = PgDatabase<NodePgQueryResultHKT>;
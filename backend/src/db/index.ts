@@ -8,7 +8,7 @@
  */
 
 // Connection
-export { db } from "./connection.ts";
+export { db, type DbExecutor } from "./connection.ts";
 
 // Competitions Schema
 export { countries, competitions, seasons } from "./schema/competitions.ts";
@@ -31,6 +31,7 @@ export {
   playerLineups,
   playerPositions,
   playerCards,
+  playerRoles,
   cardTypeEnum,
   positionCategoryEnum,
 } from "./schema/lineups.ts";
@@ -82,3 +83,13 @@ export {
   badBehaviours,
   goalkeeperEvents,
 } from "./schema/events.ts";
+
+// Match Stats Schema - Fact Tables
+export {
+  playerMatchStats,
+  teamMatchStats,
+  aggregateWatermarks,
+} from "./schema/matchStats.ts";
+
+// ETL Schema - Run Bookkeeping
+export { etlRunStatusEnum, etlRuns, etlFiles } from "./schema/etl.ts";
@@ -0,0 +1,73 @@
+import {
+  pgTable,
+  serial,
+  integer,
+  text,
+  timestamp,
+  varchar,
+  pgEnum,
+  index,
+  primaryKey as pgPrimaryKey,
+} from "drizzle-orm/pg-core";
+
+/**
+ * ETL BOOKKEEPING
+ *
+ * Written by the ETL orchestrator (src/etl/run-etl.ts) so an interrupted
+ * load resumes where it stopped:
+ * - etl_runs: one row per stage attempt
+ * - etl_files: source files a stage has fully loaded (checkpoints)
+ */
+
+// ============================================================================
+// ENUMS
+// ============================================================================
+
+export const etlRunStatusEnum = pgEnum("etl_run_status", [
+  "running",
+  "completed",
+  "failed",
+]);
+
+// ============================================================================
+// TABLES
+// ============================================================================
+
+/**
+ * Stage attempts. A stage whose latest attempt is not "completed" (failed,
+ * or still "running" after a crash) is resumed on the next run.
+ */
+export const etlRuns = pgTable(
+  "etl_runs",
+  {
+    id: serial("id").primaryKey(),
+    stage: varchar("stage", { length: 50 }).notNull(), // e.g. "events"
+    status: etlRunStatusEnum("status").notNull().default("running"),
+    filesProcessed: integer("files_processed").notNull().default(0),
+    error: text("error"),
+    startedAt: timestamp("started_at").notNull().defaultNow(),
+    finishedAt: timestamp("finished_at"),
+  },
+  (table) => ({
+    stageIdx: index("idx_etl_runs_stage").on(table.stage, table.startedAt),
+  })
+);
+
+/**
+ * File checkpoints. Only written once every row from the file is in the
+ * database; cleared when a stage starts over.
+ */
+export const etlFiles = pgTable(
+  "etl_files",
+  {
+    stage: varchar("stage", { length: 50 }).notNull(),
+    fileName: varchar("file_name", { length: 255 }).notNull(), // Basename, e.g. "3788741.json"
+    runId: integer("run_id")
+      .notNull()
+      .references(() => etlRuns.id),
+    completedAt: timestamp("completed_at").defaultNow(),
+  },
+  (table) => ({
+    pk: pgPrimaryKey({ columns: [table.stage, table.fileName] }),
+  })
+);
@@ -12,11 +12,12 @@ import {
   interval,
   pgEnum,
   index,
+  primaryKey as pgPrimaryKey,
 } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
 import { matches } from "./matches.ts";
 import { teams } from "./matches.ts";
-import { countries } from "./competitions.ts";
+import { countries, competitions } from "./competitions.ts";
 
 /**
  * LINEUPS DATA SCHEMA
@@ -81,6 +82,8 @@ export const players = pgTable("players", {
   totalRedCards: integer("total_red_cards").default(0),
 
   createdAt: timestamp("created_at").defaultNow(),
+  // Also bumped when the player's player_match_stats rows change, which
+  // marks their aggregates for the next incremental refresh
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
@@ -221,3 +224,50 @@ export const playerCards = pgTable(
     cardTypeIdx: index("idx_player_cards_type").on(table.cardType),
   })
 );
+
+/**
+ * Player roles - data-driven role per player per competition-season
+ *
+ * Written by src/etl/cluster-player-roles.ts (k-means over per-90 event
+ * features and on-pitch locations, clustered within each position group).
+ * Complements `positions`, which only gives the nominal slot.
+ *
+ * Example use cases:
+ * - "Ball-playing centre-backs in La Liga 2015/2016"
+ * - Role changes across a player's career
+ */
+export const playerRoles = pgTable(
+  "player_roles",
+  {
+    playerId: integer("player_id")
+      .notNull()
+      .references(() => players.playerId),
+    competitionId: integer("competition_id")
+      .notNull()
+      .references(() => competitions.competitionId),
+    seasonId: integer("season_id").notNull(),
+
+    positionCategory: positionCategoryEnum("position_category").notNull(),
+    role: varchar("role", { length: 50 }).notNull(),
+    roleConfidence: decimal("role_confidence", {
+      precision: 4,
+      scale: 3,
+    }).notNull(), // 0-1, membership in the assigned cluster
+    minutesPlayed: decimal("minutes_played", { precision: 7, scale: 2 }),
+
+    // Feature vector the role was computed from (per-90 values, locations)
+    features: jsonb("features").notNull(),
+
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    pk: pgPrimaryKey({
+      columns: [table.playerId, table.competitionId, table.seasonId],
+    }),
+    roleIdx: index("idx_player_roles_role").on(table.role),
+    seasonIdx: index("idx_player_roles_season").on(
+      table.competitionId,
+      table.seasonId
+    ),
+  })
+);
@@ -0,0 +1,159 @@
+import {
+  pgTable,
+  integer,
+  boolean,
+  decimal,
+  timestamp,
+  varchar,
+  index,
+  primaryKey as pgPrimaryKey,
+} from "drizzle-orm/pg-core";
+import { matches, teams } from "./matches.ts";
+import { players } from "./lineups.ts";
+
+/**
+ * MATCH STATS FACT TABLES
+ *
+ * Precomputed per-match totals so detail pages don't scan `events`.
+ * Built by src/etl/aggregate-match-stats.ts from events, subtype tables,
+ * lineups and cards; metric definitions come from
+ * src/services/event-taxonomy.ts. Penalty shootouts (period 5) are
+ * excluded.
+ *
+ * Rebuild after loading events: npm run etl:match-stats
+ * (then npm run etl:player-stats refreshes the affected players' totals)
+ */
+
+// ============================================================================
+// PLAYER MATCH STATS
+// ============================================================================
+
+/**
+ * One row per player per match (every lineup entry, including unused
+ * substitutes with zero minutes)
+ */
+export const playerMatchStats = pgTable(
+  "player_match_stats",
+  {
+    matchId: integer("match_id")
+      .notNull()
+      .references(() => matches.matchId),
+    playerId: integer("player_id")
+      .notNull()
+      .references(() => players.playerId),
+    teamId: integer("team_id")
+      .notNull()
+      .references(() => teams.teamId),
+    minutesPlayed: decimal("minutes_played", { precision: 5, scale: 2 })
+      .notNull()
+      .default("0"),
+
+    // Passing
+    passes: integer("passes").notNull().default(0),
+    passesCompleted: integer("passes_completed").notNull().default(0),
+    keyPasses: integer("key_passes").notNull().default(0),
+    assists: integer("assists").notNull().default(0),
+
+    // Shooting
+    shots: integer("shots").notNull().default(0),
+    shotsOnTarget: integer("shots_on_target").notNull().default(0),
+    goals: integer("goals").notNull().default(0),
+    xg: decimal("xg", { precision: 6, scale: 3 }).notNull().default("0"),
+
+    // Carrying
+    carries: integer("carries").notNull().default(0),
+    dribbles: integer("dribbles").notNull().default(0),
+    successfulDribbles: integer("successful_dribbles").notNull().default(0),
+
+    // Defending
+    pressures: integer("pressures").notNull().default(0),
+    duels: integer("duels").notNull().default(0),
+    duelsWon: integer("duels_won").notNull().default(0),
+    duelsLost: integer("duels_lost").notNull().default(0),
+    tacklesWon: integer("tackles_won").notNull().default(0),
+    interceptions: integer("interceptions").notNull().default(0),
+    blocks: integer("blocks").notNull().default(0),
+    clearances: integer("clearances").notNull().default(0),
+    ballRecoveries: integer("ball_recoveries").notNull().default(0),
+    dispossessed: integer("dispossessed").notNull().default(0),
+    foulsCommitted: integer("fouls_committed").notNull().default(0),
+    foulsWon: integer("fouls_won").notNull().default(0),
+
+    // Goalkeeping
+    goalkeeperActions: integer("goalkeeper_actions").notNull().default(0),
+    saves: integer("saves").notNull().default(0),
+    goalsConceded: integer("goals_conceded").notNull().default(0),
+
+    // Discipline (from player_cards)
+    yellowCards: integer("yellow_cards").notNull().default(0),
+    redCards: integer("red_cards").notNull().default(0),
+
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    pk: pgPrimaryKey({ columns: [table.matchId, table.playerId] }),
+    playerIdx: index("idx_player_match_stats_player").on(table.playerId),
+    teamIdx: index("idx_player_match_stats_team").on(table.teamId),
+  })
+);
+
+// ============================================================================
+// TEAM MATCH STATS
+// ============================================================================
+
+/**
+ * One row per team per match (both sides of every match)
+ */
+export const teamMatchStats = pgTable(
+  "team_match_stats",
+  {
+    matchId: integer("match_id")
+      .notNull()
+      .references(() => matches.matchId),
+    teamId: integer("team_id")
+      .notNull()
+      .references(() => teams.teamId),
+    opponentId: integer("opponent_id")
+      .notNull()
+      .references(() => teams.teamId),
+    isHome: boolean("is_home").notNull(),
+
+    passes: integer("passes").notNull().default(0),
+    passesCompleted: integer("passes_completed").notNull().default(0),
+    shots: integer("shots").notNull().default(0),
+    shotsOnTarget: integer("shots_on_target").notNull().default(0),
+    goals: integer("goals").notNull().default(0), // From shots (no own goals)
+    xg: decimal("xg", { precision: 6, scale: 3 }).notNull().default("0"),
+    carries: integer("carries").notNull().default(0),
+    dribbles: integer("dribbles").notNull().default(0),
+    pressures: integer("pressures").notNull().default(0),
+    duels: integer("duels").notNull().default(0),
+    duelsWon: integer("duels_won").notNull().default(0),
+    tacklesWon: integer("tackles_won").notNull().default(0),
+    interceptions: integer("interceptions").notNull().default(0),
+    foulsCommitted: integer("fouls_committed").notNull().default(0),
+    yellowCards: integer("yellow_cards").notNull().default(0),
+    redCards: integer("red_cards").notNull().default(0),
+
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    pk: pgPrimaryKey({ columns: [table.matchId, table.teamId] }),
+    teamIdx: index("idx_team_match_stats_team").on(table.teamId),
+  })
+);
+
+// ============================================================================
+// AGGREGATE WATERMARKS
+// ============================================================================
+
+/**
+ * Last refresh of each incremental aggregate (e.g. "player_stats").
+ * Rows changed after refreshed_at still need refreshing.
+ */
+export const aggregateWatermarks = pgTable("aggregate_watermarks", {
+  name: varchar("name", { length: 50 }).primaryKey(),
+  refreshedAt: timestamp("refreshed_at").notNull(),
+  rowsRefreshed: integer("rows_refreshed").notNull().default(0), // Last run
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
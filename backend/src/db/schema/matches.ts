@@ -217,8 +217,9 @@ export const matches = pgTable(
       .default("available"),
     matchStatus360: varchar("match_status_360", { length: 20 }),
 
-    // Update timestamps
-    lastUpdated: timestamp("last_updated", { withTimezone: true }).notNull(),
+    // Update timestamps (NULL while the match's data is still loading; the
+    // match sync sets them once its lineups, events and 360 data are in)
+    lastUpdated: timestamp("last_updated", { withTimezone: true }),
     lastUpdated360: timestamp("last_updated_360", { withTimezone: true }),
 
     // Data quality metadata
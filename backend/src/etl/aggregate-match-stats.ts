@@ -0,0 +1,287 @@
+import { sql } from "drizzle-orm";
+import { db, type DbExecutor } from "../db/index.ts";
+import {
+  CARD_TYPE,
+  EVENT_TYPE,
+  PENALTY_SHOOTOUT_PERIOD,
+  metricColumns,
+  metricJoins,
+} from "../services/event-taxonomy.ts";
+import type { EventMetricKey } from "../services/event-taxonomy.ts";
+import { lockPlayerStats } from "./aggregate-player-stats.ts";
+
+/**
+ * MATCH STATS AGGREGATION
+ *
+ * Builds the player_match_stats and team_match_stats fact tables:
+ * - player_match_stats: one row per player_lineups entry, with event
+ *   totals (metric registry definitions) and cards
+ * - team_match_stats: one row per side of every match
+ * - Penalty shootouts (period 5) are excluded
+ *
+ * Matches are processed in batches; each batch replaces its rows in one
+ * transaction, so a batch can be re-run safely. Players whose rows change
+ * get players.updated_at bumped, which is what aggregate-player-stats.ts
+ * picks up incrementally. Pass the ids of loaded, reloaded or deleted
+ * matches to rebuild only those. Run this AFTER events and lineups are
+ * loaded.
+ */
+
+const BATCH_SIZE = 50;
+
+// Event metrics stored per player (column name = metric key)
+const PLAYER_METRICS: EventMetricKey[] = [
+  "passes",
+  "passes_completed",
+  "key_passes",
+  "assists",
+  "shots",
+  "shots_on_target",
+  "goals",
+  "xg",
+  "carries",
+  "dribbles",
+  "successful_dribbles",
+  "pressures",
+  "duels",
+  "duels_won",
+  "duels_lost",
+  "tackles_won",
+  "interceptions",
+  "blocks",
+  "clearances",
+  "ball_recoveries",
+  "dispossessed",
+  "fouls_committed",
+  "fouls_won",
+  "saves",
+  "goals_conceded",
+];
+
+// Event metrics stored per team
+const TEAM_METRICS: EventMetricKey[] = [
+  "passes",
+  "passes_completed",
+  "shots",
+  "shots_on_target",
+  "goals",
+  "xg",
+  "carries",
+  "dribbles",
+  "pressures",
+  "duels",
+  "duels_won",
+  "tackles_won",
+  "interceptions",
+  "fouls_committed",
+];
+
+const columnList = (columns: string[]) => sql.raw(columns.join(", "));
+
+const zeroIfMissing = (alias: string, columns: string[]) =>
+  sql.raw(columns.map((c) => `COALESCE(${alias}.${c}, 0)`).join(", "));
+
+function cardCounts() {
+  return sql`
+    COUNT(*) FILTER (WHERE pc.card_type = ${CARD_TYPE.YELLOW_CARD})::int as yellow_cards,
+    COUNT(*) FILTER (
+      WHERE pc.card_type IN (${CARD_TYPE.RED_CARD}, ${CARD_TYPE.SECOND_YELLOW})
+    )::int as red_cards
+  `;
+}
+
+/**
+ * Rebuild player and team stats for a batch of matches
+ */
+async function aggregateBatch(matchIds: number[], executor: DbExecutor) {
+  const inBatch = sql.join(
+    matchIds.map((id) => sql`${id}`),
+    sql`, `
+  );
+  const playerColumns = [
+    ...PLAYER_METRICS,
+    "goalkeeper_actions",
+    "yellow_cards",
+    "red_cards",
+  ];
+  const teamColumns = [...TEAM_METRICS, "yellow_cards", "red_cards"];
+
+  await executor.transaction(async (tx) => {
+    // Mark players whose rows are replaced or removed (deleted matches,
+    // changed lineups) for the incremental player aggregate refresh
+    await lockPlayerStats(tx);
+    await tx.execute(sql`
+      UPDATE players SET updated_at = clock_timestamp()
+      WHERE player_id IN (
+        SELECT player_id FROM player_match_stats WHERE match_id IN (${inBatch})
+        UNION
+        SELECT player_id FROM player_lineups WHERE match_id IN (${inBatch})
+      )
+    `);
+
+    await tx.execute(
+      sql`DELETE FROM player_match_stats WHERE match_id IN (${inBatch})`
+    );
+    await tx.execute(
+      sql`DELETE FROM team_match_stats WHERE match_id IN (${inBatch})`
+    );
+
+    await tx.execute(sql`
+      WITH player_events AS (
+        SELECT
+          e.match_id,
+          e.player_id,
+          ${metricColumns(PLAYER_METRICS)},
+          COUNT(*) FILTER (
+            WHERE e.type_id = ${EVENT_TYPE.GOAL_KEEPER}
+          ) as goalkeeper_actions
+        FROM events e
+        ${metricJoins(PLAYER_METRICS)}
+        WHERE e.match_id IN (${inBatch})
+          AND e.player_id IS NOT NULL
+          AND e.period < ${PENALTY_SHOOTOUT_PERIOD}
+        GROUP BY e.match_id, e.player_id
+      ),
+      cards AS (
+        SELECT
+          pc.match_id,
+          pc.player_id,
+          ${cardCounts()}
+        FROM player_cards pc
+        WHERE pc.match_id IN (${inBatch})
+          AND pc.period < ${PENALTY_SHOOTOUT_PERIOD}
+        GROUP BY pc.match_id, pc.player_id
+      )
+      INSERT INTO player_match_stats (
+        match_id, player_id, team_id, minutes_played,
+        ${columnList(playerColumns)}
+      )
+      SELECT
+        pl.match_id,
+        pl.player_id,
+        pl.team_id,
+        COALESCE(pl.minutes_played, 0),
+        ${zeroIfMissing("pe", [...PLAYER_METRICS, "goalkeeper_actions"])},
+        ${zeroIfMissing("c", ["yellow_cards", "red_cards"])}
+      FROM player_lineups pl
+      LEFT JOIN player_events pe
+        ON pl.match_id = pe.match_id AND pl.player_id = pe.player_id
+      LEFT JOIN cards c
+        ON pl.match_id = c.match_id AND pl.player_id = c.player_id
+      WHERE pl.match_id IN (${inBatch})
+    `);
+
+    await tx.execute(sql`
+      WITH team_events AS (
+        SELECT
+          e.match_id,
+          e.team_id,
+          ${metricColumns(TEAM_METRICS)}
+        FROM events e
+        ${metricJoins(TEAM_METRICS)}
+        WHERE e.match_id IN (${inBatch})
+          AND e.period < ${PENALTY_SHOOTOUT_PERIOD}
+        GROUP BY e.match_id, e.team_id
+      ),
+      team_cards AS (
+        SELECT
+          pc.match_id,
+          pl.team_id,
+          ${cardCounts()}
+        FROM player_cards pc
+        INNER JOIN player_lineups pl
+          ON pc.match_id = pl.match_id AND pc.player_id = pl.player_id
+        WHERE pc.match_id IN (${inBatch})
+          AND pc.period < ${PENALTY_SHOOTOUT_PERIOD}
+        GROUP BY pc.match_id, pl.team_id
+      ),
+      sides AS (
+        SELECT match_id, home_team_id as team_id, away_team_id as opponent_id, true as is_home
+        FROM matches
+        WHERE match_id IN (${inBatch})
+        UNION ALL
+        SELECT match_id, away_team_id, home_team_id, false
+        FROM matches
+        WHERE match_id IN (${inBatch})
+      )
+      INSERT INTO team_match_stats (
+        match_id, team_id, opponent_id, is_home, ${columnList(teamColumns)}
+      )
+      SELECT
+        s.match_id,
+        s.team_id,
+        s.opponent_id,
+        s.is_home,
+        ${zeroIfMissing("te", TEAM_METRICS)},
+        ${zeroIfMissing("tc", ["yellow_cards", "red_cards"])}
+      FROM sides s
+      LEFT JOIN team_events te
+        ON s.match_id = te.match_id AND s.team_id = te.team_id
+      LEFT JOIN team_cards tc
+        ON s.match_id = tc.match_id AND s.team_id = tc.team_id
+    `);
+  });
+}
+
+/**
+ * Rebuild match stats for the given matches (default: every match)
+ */
+export async function aggregateMatchStats(
+  matchIds?: number[],
+  executor: DbExecutor = db
+) {
+  console.log("📈 Starting match stats aggregation...\n");
+
+  try {
+    const ids =
+      matchIds ??
+      (
+        await executor.execute(
+          sql`SELECT match_id FROM matches ORDER BY match_id`
+        )
+      ).rows.map((row) => Number(row.match_id));
+
+    console.log(`   Aggregating ${ids.length} matches...`);
+
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+      await aggregateBatch(ids.slice(i, i + BATCH_SIZE), executor);
+      const done = Math.min(i + BATCH_SIZE, ids.length);
+      if (done % (BATCH_SIZE * 20) === 0 || done === ids.length) {
+        console.log(`   ✓ ${done}/${ids.length} matches`);
+      }
+    }
+
+    const counts = await executor.execute(sql`
+      SELECT
+        (SELECT COUNT(*) FROM player_match_stats)::int as player_rows,
+        (SELECT COUNT(*) FROM team_match_stats)::int as team_rows
+    `);
+
+    console.log("═".repeat(70));
+    console.log("\n📊 Aggregation Summary:\n");
+    console.log(`   player_match_stats rows: ${counts.rows[0].player_rows}`);
+    console.log(`   team_match_stats rows: ${counts.rows[0].team_rows}\n`);
+
+    console.log("✅ Match stats aggregation complete!\n");
+  } catch (error) {
+    console.error("❌ Error aggregating match stats:", error);
+    throw error;
+  }
+}
+
+// Run if executed directly
+const isMainModule =
+  (process.argv[1] && process.argv[1].endsWith("aggregate-match-stats.ts")) ||
+  (process.argv[1] && process.argv[1].endsWith("aggregate-match-stats.js"));
+
+if (isMainModule) {
+  // Optional match ids: npm run etl:match-stats -- 3788741 3788742
+  const matchIds = process.argv.slice(2).map(Number);
+
+  aggregateMatchStats(matchIds.length > 0 ? matchIds : undefined)
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error(err);
+      process.exit(1);
+    });
+}
@@ -1,127 +1,122 @@
-import { sql } from "drizzle-orm";
-import { db } from "../db/index.ts";
+import { eq, sql } from "drizzle-orm";
+import { db, aggregateWatermarks, type DbExecutor } from "../db/index.ts";
 
 /**
  * PLAYER STATS AGGREGATION
  *
- * This script aggregates player statistics from various tables:
- * - total_matches: COUNT(DISTINCT match_id) from player_lineups
- * - total_goals: COUNT from shots WHERE outcome_name = 'Goal'
- * - total_assists: COUNT from pass_subtypes WHERE pass_goal_assist = true
+ * Refreshes the players.total_* columns from player_match_stats:
+ * - total_matches: lineup entries (one player_match_stats row per match)
+ * - total_minutes_played, total_goals, total_assists: SUM per player
+ * - total_yellow_cards, total_red_cards: SUM per player
  *
- * Run this AFTER all ETL processes complete.
+ * Incremental by default: only players whose updated_at is past the
+ * "player_stats" watermark are refreshed. aggregate-match-stats.ts bumps
+ * updated_at for every player whose match rows it replaces or removes, so
+ * loading, reloading or deleting matches followed by
+ *   npm run etl:match-stats -- <match ids>
+ *   npm run etl:player-stats
+ * touches only those players. Pass --full to refresh every player.
+ *
+ * Run this AFTER aggregate-match-stats.ts.
+ */
+
+const WATERMARK = "player_stats";
+
+/**
+ * Serializes the transactions that stamp players.updated_at with the
+ * refresh that reads it. Stamps and the watermark use clock_timestamp()
+ * taken while holding this lock, so every stamp committed before a
+ * refresh is older than its watermark and every later one is newer.
  */
+export async function lockPlayerStats(executor: DbExecutor) {
+  await executor.execute(
+    sql`SELECT pg_advisory_xact_lock(hashtext(${WATERMARK}))`
+  );
+}
 
-export async function aggregatePlayerStats() {
+export async function aggregatePlayerStats(
+  options: { full?: boolean } = {},
+  executor: DbExecutor = db
+) {
   console.log("🔢 Starting player stats aggregation...\n");
 
   try {
-    // Update total_matches from player_lineups
-    console.log("   Calculating total_matches...");
-    await db.execute(sql`
-      UPDATE players p
-      SET total_matches = subquery.match_count
-      FROM (
-        SELECT 
-          player_id,
-          COUNT(DISTINCT match_id) as match_count
-        FROM player_lineups
-        GROUP BY player_id
-      ) subquery
-      WHERE p.player_id = subquery.player_id
-    `);
-    console.log("   ✓ Updated total_matches\n");
-
-    // Update total_goals from shots table
-    console.log("   Calculating total_goals...");
-    await db.execute(sql`
-      UPDATE players p
-      SET total_goals = COALESCE(subquery.goal_count, 0)
-      FROM (
-        SELECT 
-          e.player_id,
-          COUNT(*) as goal_count
-        FROM events e
-        JOIN shots s ON e.id = s.event_id
-        JOIN shot_outcomes so ON s.outcome_id = so.id
-        WHERE so.name = 'Goal'
-        GROUP BY e.player_id
-      ) subquery
-      WHERE p.player_id = subquery.player_id
-    `);
-    console.log("   ✓ Updated total_goals\n");
-
-    // Update total_assists from passes table
-    console.log("   Calculating total_assists...");
-    await db.execute(sql`
-      UPDATE players p
-      SET total_assists = COALESCE(subquery.assist_count, 0)
-      FROM (
-        SELECT 
-          e.player_id,
-          COUNT(*) as assist_count
-        FROM events e
-        JOIN passes ps ON e.id = ps.event_id
-        WHERE ps.goal_assist = true
-        GROUP BY e.player_id
-      ) subquery
-      WHERE p.player_id = subquery.player_id
-    `);
-    console.log("   ✓ Updated total_assists\n");
-
-    // Update total_yellow_cards from player_cards
-    console.log("   Calculating total_yellow_cards...");
-    await db.execute(sql`
-      UPDATE players p
-      SET total_yellow_cards = COALESCE(subquery.yellow_count, 0)
-      FROM (
-        SELECT 
-          player_id,
-          COUNT(*) as yellow_count
-        FROM player_cards
-        WHERE card_type = 'Yellow Card'
-        GROUP BY player_id
-      ) subquery
-      WHERE p.player_id = subquery.player_id
-    `);
-    console.log("   ✓ Updated total_yellow_cards\n");
-
-    // Update total_red_cards from player_cards
-    console.log("   Calculating total_red_cards...");
-    await db.execute(sql`
-      UPDATE players p
-      SET total_red_cards = COALESCE(subquery.red_count, 0)
-      FROM (
-        SELECT 
-          player_id,
-          COUNT(*) as red_count
-        FROM player_cards
-        WHERE card_type IN ('Red Card', 'Second Yellow')
-        GROUP BY player_id
-      ) subquery
-      WHERE p.player_id = subquery.player_id
-    `);
-    console.log("   ✓ Updated total_red_cards\n");
-
-    // Update total_minutes_played from player_lineups
-    console.log("   Calculating total_minutes_played...");
-    await db.execute(sql`
-      UPDATE players p
-      SET total_minutes_played = COALESCE(subquery.total_minutes, 0)
-      FROM (
-        SELECT 
-          player_id,
-          SUM(minutes_played) as total_minutes
-        FROM player_lineups
-        GROUP BY player_id
-      ) subquery
-      WHERE p.player_id = subquery.player_id
-    `);
-    console.log("   ✓ Updated total_minutes_played\n");
+    const refreshed = await executor.transaction(async (tx) => {
+      await lockPlayerStats(tx);
+
+      const [watermark] = await tx
+        .select({ refreshedAt: aggregateWatermarks.refreshedAt })
+        .from(aggregateWatermarks)
+        .where(eq(aggregateWatermarks.name, WATERMARK));
+
+      // No watermark yet means the aggregates were never built
+      const full = options.full || !watermark;
+      if (full) {
+        console.log("   Mode: full refresh");
+      } else {
+        console.log(
+          `   Mode: incremental (changes since ${watermark.refreshedAt.toISOString()})`
+        );
+      }
+
+      // Read in SQL: refreshed_at has no time zone, so passing the Date back
+      // would shift it by Node's UTC offset
+      const watermarkInSql = sql`(
+        SELECT refreshed_at FROM aggregate_watermarks WHERE name = ${WATERMARK}
+      )`;
+
+      // Players without match rows (e.g. their only match was deleted) get
+      // zeros, since the aggregate subquery always returns one row
+      const result = await tx.execute(sql`
+        UPDATE players p
+        SET (
+          total_matches,
+          total_minutes_played,
+          total_goals,
+          total_assists,
+          total_yellow_cards,
+          total_red_cards
+        ) = (
+          SELECT
+            COUNT(*),
+            COALESCE(SUM(pms.minutes_played), 0),
+            COALESCE(SUM(pms.goals), 0),
+            COALESCE(SUM(pms.assists), 0),
+            COALESCE(SUM(pms.yellow_cards), 0),
+            COALESCE(SUM(pms.red_cards), 0)
+          FROM player_match_stats pms
+          WHERE pms.player_id = p.player_id
+        )
+        ${full ? sql`` : sql`WHERE p.updated_at > ${watermarkInSql}`}
+      `);
+      const rowsRefreshed = result.rowCount ?? 0;
+
+      // Stamps committed before the lock was granted are older than this;
+      // stamps made after this transaction commits are newer
+      await tx
+        .insert(aggregateWatermarks)
+        .values({
+          name: WATERMARK,
+          refreshedAt: sql`clock_timestamp()`,
+          rowsRefreshed,
+        })
+        .onConflictDoUpdate({
+          target: aggregateWatermarks.name,
+          set: {
+            refreshedAt: sql`clock_timestamp()`,
+            rowsRefreshed,
+            updatedAt: sql`NOW()`,
+          },
+        });
+
+      return rowsRefreshed;
+    });
+
+    console.log(`   ✓ Refreshed ${refreshed} players\n`);
 
     // Get summary stats
-    const stats = await db.execute(sql`
-      SELECT 
+    const stats = await executor.execute(sql`
+      SELECT
         COUNT(*) as total_players,
         SUM(CASE WHEN total_matches > 0 THEN 1 ELSE 0 END) as players_with_matches,
         SUM(CASE WHEN total_goals > 0 THEN 1 ELSE 0 END) as players_with_goals,
@@ -165,7 +160,7 @@ const isMainModule =
   (process.argv[1] && process.argv[1].endsWith("aggregate-player-stats.js"));
 
 if (isMainModule) {
-  aggregatePlayerStats()
+  aggregatePlayerStats({ full: process.argv.includes("--full") })
     .then(() => process.exit(0))
     .catch((err) => {
       console.error(err);
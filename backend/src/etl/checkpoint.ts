@@ -0,0 +1,85 @@
+import path from "path";
+import { eq } from "drizzle-orm";
+import { db, etlFiles } from "../db/index.ts";
+
+/**
+ * FILE CHECKPOINTS
+ *
+ * Lets a file-based loader resume after a crash. Loaders skip the files
+ * returned by remaining() and call markDone() once a file's rows are
+ * flushed to the database (not merely buffered in a batch). Files are
+ * keyed by basename within their stage.
+ *
+ * Standalone runs (npm run etl:events, ...) use noCheckpoint; the
+ * orchestrator passes a checkpoint backed by etl_files, and the match sync
+ * uses onlyFiles() to load just the matches it selected.
+ */
+
+export interface FileCheckpoint {
+  remaining<T extends string>(files: T[]): T[];
+  markDone(files: string[]): Promise<void>;
+}
+
+export const noCheckpoint: FileCheckpoint = {
+  remaining: (files) => files,
+  markDone: async () => {},
+};
+
+/**
+ * Restricts a loader to the given files (basenames, e.g. "3788741.json")
+ */
+export function onlyFiles(fileNames: Iterable<string>): FileCheckpoint {
+  const selected = new Set(fileNames);
+
+  return {
+    remaining: (files) =>
+      files.filter((file) => selected.has(path.basename(file))),
+    markDone: async () => {},
+  };
+}
+
+const INSERT_BATCH_SIZE = 1000;
+
+/**
+ * Checkpoint for one stage attempt, preloaded with the files earlier
+ * attempts of the stage completed
+ */
+export async function createFileCheckpoint(stage: string, runId: number) {
+  const rows = await db
+    .select({ fileName: etlFiles.fileName })
+    .from(etlFiles)
+    .where(eq(etlFiles.stage, stage));
+
+  const done = new Set(rows.map((row) => row.fileName));
+  let filesProcessed = 0;
+
+  const checkpoint: FileCheckpoint & { filesProcessed(): number } = {
+    remaining(files) {
+      return files.filter((file) => !done.has(path.basename(file)));
+    },
+
+    async markDone(files) {
+      const newFiles = files
+        .map((file) => path.basename(file))
+        .filter((fileName) => !done.has(fileName));
+
+      for (let i = 0; i < newFiles.length; i += INSERT_BATCH_SIZE) {
+        await db
+          .insert(etlFiles)
+          .values(
+            newFiles
+              .slice(i, i + INSERT_BATCH_SIZE)
+              .map((fileName) => ({ stage, fileName, runId }))
+          )
+          .onConflictDoNothing();
+      }
+
+      newFiles.forEach((fileName) => done.add(fileName));
+      filesProcessed += newFiles.length;
+    },
+
+    filesProcessed: () => filesProcessed,
+  };
+
+  return checkpoint;
+}
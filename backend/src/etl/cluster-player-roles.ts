@@ -0,0 +1,396 @@
+import { sql } from "drizzle-orm";
+import { db, playerRoles } from "../db/index.ts";
+import { MINUTES_PER_MATCH } from "../services/per90.ts";
+import { kMeans, memberships, standardizeColumns } from "../services/kmeans.ts";
+import {
+  LONG_PASS_LENGTH,
+  PENALTY_BOX,
+  PENALTY_SHOOTOUT_PERIOD,
+  metricSql,
+  subtypeJoins,
+} from "../services/event-taxonomy.ts";
+
+/**
+ * PLAYER ROLE CLUSTERING
+ *
+ * Clusters players into data-driven roles (ball-playing centre-back,
+ * inverted full-back, target forward, ...) per competition-season:
+ * - Features: per-90 event counts plus average on-pitch location
+ * - Clustered separately within each position group (primary position
+ *   category that season), after z-scoring the features
+ * - k = number of role archetypes for the group; each cluster is named
+ *   after the archetype whose signature best matches its centroid
+ * - role_confidence = soft membership in the assigned cluster
+ *
+ * Replaces the whole player_roles table. Run this AFTER all ETL processes
+ * complete (next to aggregate-player-stats.ts).
+ */
+
+const MIN_MINUTES = 450;
+
+const ROLE_FEATURES = [
+  { key: "passes", per90: true },
+  { key: "long_passes", per90: true },
+  { key: "crosses", per90: true },
+  { key: "through_balls", per90: true },
+  { key: "key_passes", per90: true },
+  { key: "carries", per90: true },
+  { key: "successful_dribbles", per90: true },
+  { key: "shots", per90: true },
+  { key: "xg", per90: true },
+  { key: "touches_in_box", per90: true },
+  { key: "tackles_won", per90: true },
+  { key: "interceptions", per90: true },
+  { key: "pressures", per90: true },
+  { key: "clearances", per90: true },
+  { key: "aerials_won", per90: true },
+  { key: "avg_x", per90: false }, // Mean x of on-ball actions (0-120, own goal → opposition goal)
+  { key: "avg_width", per90: false }, // Mean distance from the centre line (0-40)
+] as const;
+
+type RoleFeature = (typeof ROLE_FEATURES)[number]["key"];
+
+interface RoleArchetype {
+  role: string;
+  // Expected direction of each feature (z-score units) for the role
+  signature: Partial<Record<RoleFeature, number>>;
+}
+
+const ROLE_ARCHETYPES: Record<string, RoleArchetype[]> = {
+  Goalkeeper: [
+    {
+      role: "Sweeper Keeper",
+      signature: { avg_x: 1, passes: 1, long_passes: -0.5 },
+    },
+    {
+      role: "Shot Stopper",
+      signature: { avg_x: -1, long_passes: 1, passes: -0.5 },
+    },
+  ],
+  Defender: [
+    {
+      role: "Ball-Playing Centre-Back",
+      signature: { passes: 1, long_passes: 1, carries: 0.5, avg_width: -1 },
+    },
+    {
+      role: "Stopper Centre-Back",
+      signature: { clearances: 1, aerials_won: 1, passes: -0.5, avg_width: -1 },
+    },
+    {
+      role: "Attacking Full-Back",
+      signature: { avg_width: 1, crosses: 1, avg_x: 1, carries: 0.5 },
+    },
+    {
+      role: "Inverted Full-Back",
+      signature: {
+        passes: 1,
+        carries: 0.5,
+        avg_width: 0.3,
+        crosses: -1,
+        clearances: -0.5,
+      },
+    },
+    {
+      role: "Defensive Full-Back",
+      signature: {
+        avg_width: 1,
+        tackles_won: 1,
+        interceptions: 0.5,
+        crosses: -0.5,
+        avg_x: -0.5,
+      },
+    },
+  ],
+  Midfielder: [
+    {
+      role: "Deep-Lying Playmaker",
+      signature: { passes: 1, long_passes: 1, avg_x: -1 },
+    },
+    {
+      role: "Ball-Winning Midfielder",
+      signature: { tackles_won: 1, pressures: 1, interceptions: 1 },
+    },
+    {
+      role: "Box-to-Box Midfielder",
+      signature: {
+        carries: 0.5,
+        shots: 0.5,
+        pressures: 0.5,
+        touches_in_box: 0.5,
+      },
+    },
+    {
+      role: "Advanced Playmaker",
+      signature: { key_passes: 1, through_balls: 1, avg_x: 1 },
+    },
+    {
+      role: "Wide Midfielder",
+      signature: { avg_width: 1, crosses: 1, successful_dribbles: 0.5 },
+    },
+  ],
+  Forward: [
+    {
+      role: "Target Forward",
+      signature: {
+        aerials_won: 1,
+        touches_in_box: 0.5,
+        successful_dribbles: -1,
+      },
+    },
+    {
+      role: "Poacher",
+      signature: { xg: 1, shots: 1, touches_in_box: 1, passes: -1 },
+    },
+    {
+      role: "Inside Forward",
+      signature: {
+        successful_dribbles: 1,
+        shots: 0.5,
+        carries: 0.5,
+        avg_width: 0.5,
+      },
+    },
+    {
+      role: "Winger",
+      signature: {
+        avg_width: 1,
+        crosses: 1,
+        successful_dribbles: 0.5,
+        xg: -0.5,
+      },
+    },
+    {
+      role: "False Nine",
+      signature: { passes: 1, key_passes: 1, avg_x: -0.5, avg_width: -0.5 },
+    },
+  ],
+};
+
+interface PlayerSeasonFeatures {
+  playerId: number;
+  competitionId: number;
+  seasonId: number;
+  positionCategory: string;
+  minutes: number;
+  features: Record<RoleFeature, number>;
+}
+
+/**
+ * Feature vectors for every player-season with at least MIN_MINUTES
+ */
+async function fetchFeatures(): Promise<PlayerSeasonFeatures[]> {
+  const featureColumns = sql.raw(
+    ROLE_FEATURES.map(({ key, per90 }) =>
+      per90
+        ? `ROUND(COALESCE(et.${key}, 0)::decimal * ${MINUTES_PER_MATCH} / lm.minutes, 3)::float as ${key}`
+        : `ROUND(COALESCE(et.${key}, 0)::decimal, 2)::float as ${key}`
+    ).join(",\n        ")
+  );
+
+  const result = await db.execute(sql`
+    WITH lineup_minutes AS (
+      SELECT
+        pl.player_id,
+        m.competition_id,
+        m.season_id,
+        SUM(pl.minutes_played)::float as minutes
+      FROM player_lineups pl
+      INNER JOIN matches m ON pl.match_id = m.match_id
+      GROUP BY pl.player_id, m.competition_id, m.season_id
+      HAVING SUM(pl.minutes_played) >= ${MIN_MINUTES}
+    ),
+    primary_position AS (
+      SELECT DISTINCT ON (pp.player_id, m.competition_id, m.season_id)
+        pp.player_id,
+        m.competition_id,
+        m.season_id,
+        pos.position_category
+      FROM player_positions pp
+      INNER JOIN positions pos ON pp.position_id = pos.id
+      INNER JOIN matches m ON pp.match_id = m.match_id
+      GROUP BY pp.player_id, m.competition_id, m.season_id, pos.position_category
+      ORDER BY
+        pp.player_id,
+        m.competition_id,
+        m.season_id,
+        COUNT(DISTINCT pp.match_id) DESC,
+        pos.position_category
+    ),
+    event_totals AS (
+      SELECT
+        e.player_id,
+        m.competition_id,
+        m.season_id,
+        ${metricSql("passes")} as passes,
+        COUNT(*) FILTER (WHERE p.length >= ${LONG_PASS_LENGTH}) as long_passes,
+        ${metricSql("crosses")} as crosses,
+        COUNT(*) FILTER (WHERE p.through_ball) as through_balls,
+        ${metricSql("key_passes")} as key_passes,
+        ${metricSql("carries")} as carries,
+        ${metricSql("successful_dribbles")} as successful_dribbles,
+        ${metricSql("shots")} as shots,
+        ${metricSql("xg")} as xg,
+        COUNT(*) FILTER (
+          WHERE e.location_x >= ${PENALTY_BOX.minX}
+            AND e.location_y BETWEEN ${PENALTY_BOX.minY} AND ${PENALTY_BOX.maxY}
+        ) as touches_in_box,
+        ${metricSql("tackles_won")} as tackles_won,
+        ${metricSql("interceptions")} as interceptions,
+        ${metricSql("pressures")} as pressures,
+        ${metricSql("clearances")} as clearances,
+        COUNT(*) FILTER (
+          WHERE p.aerial_won OR s.aerial_won OR c.aerial_won
+        ) as aerials_won,
+        AVG(e.location_x) as avg_x,
+        AVG(ABS(e.location_y - 40)) as avg_width
+      FROM events e
+      INNER JOIN matches m ON e.match_id = m.match_id
+      ${subtypeJoins(["p", "s", "d", "du", "c"])}
+      WHERE e.player_id IS NOT NULL
+        AND e.period < ${PENALTY_SHOOTOUT_PERIOD}
+      GROUP BY e.player_id, m.competition_id, m.season_id
+    )
+    SELECT
+      lm.player_id,
+      lm.competition_id,
+      lm.season_id,
+      pp.position_category,
+      lm.minutes,
+      ${featureColumns}
+    FROM lineup_minutes lm
+    INNER JOIN primary_position pp
+      ON lm.player_id = pp.player_id
+      AND lm.competition_id = pp.competition_id
+      AND lm.season_id = pp.season_id
+    LEFT JOIN event_totals et
+      ON lm.player_id = et.player_id
+      AND lm.competition_id = et.competition_id
+      AND lm.season_id = et.season_id
+  `);
+
+  return result.rows.map((row) => ({
+    playerId: Number(row.player_id),
+    competitionId: Number(row.competition_id),
+    seasonId: Number(row.season_id),
+    positionCategory: String(row.position_category),
+    minutes: Number(row.minutes),
+    features: Object.fromEntries(
+      ROLE_FEATURES.map(({ key }) => [key, Number(row[key] ?? 0)])
+    ) as Record<RoleFeature, number>,
+  }));
+}
+
+/**
+ * Name each cluster after the archetype whose signature best matches its
+ * centroid (greedy one-to-one assignment on the match score)
+ */
+function nameClusters(centroids: number[][], archetypes: RoleArchetype[]) {
+  const pairs: { cluster: number; archetype: number; score: number }[] = [];
+
+  centroids.forEach((centroid, cluster) => {
+    archetypes.forEach(({ signature }, archetype) => {
+      const weights = ROLE_FEATURES.map(({ key }) => signature[key] ?? 0);
+      const norm = Math.sqrt(weights.reduce((sum, w) => sum + w * w, 0));
+      const score =
+        weights.reduce((sum, w, d) => sum + w * centroid[d], 0) / norm;
+      pairs.push({ cluster, archetype, score });
+    });
+  });
+
+  const names = new Array<string>(centroids.length);
+  const usedArchetypes = new Set<number>();
+
+  for (const pair of pairs.sort((a, b) => b.score - a.score)) {
+    if (names[pair.cluster] || usedArchetypes.has(pair.archetype)) continue;
+    names[pair.cluster] = archetypes[pair.archetype].role;
+    usedArchetypes.add(pair.archetype);
+  }
+
+  return names;
+}
+
+export async function clusterPlayerRoles() {
+  console.log("🧭 Starting player role clustering...\n");
+
+  try {
+    console.log("   Calculating per-90 features...");
+    const rows = await fetchFeatures();
+    console.log(`   ✓ ${rows.length} player-seasons (${MIN_MINUTES}+ min)\n`);
+
+    const records: (typeof playerRoles.$inferInsert)[] = [];
+
+    for (const [positionCategory, archetypes] of Object.entries(
+      ROLE_ARCHETYPES
+    )) {
+      const group = rows.filter((r) => r.positionCategory === positionCategory);
+      const k = archetypes.length;
+
+      if (group.length < k) {
+        console.log(
+          `   ⚠️  ${positionCategory}: only ${group.length} player-seasons, skipped`
+        );
+        continue;
+      }
+
+      const points = standardizeColumns(
+        group.map((r) => ROLE_FEATURES.map(({ key }) => r.features[key]))
+      );
+      const { centroids, assignments } = kMeans(points, k);
+      const names = nameClusters(centroids, archetypes);
+
+      group.forEach((row, i) => {
+        const cluster = assignments[i];
+        records.push({
+          playerId: row.playerId,
+          competitionId: row.competitionId,
+          seasonId: row.seasonId,
+          positionCategory: row.positionCategory as
+            | "Goalkeeper"
+            | "Defender"
+            | "Midfielder"
+            | "Forward",
+          role: names[cluster],
+          roleConfidence: memberships(points[i], centroids)[cluster].toFixed(3),
+          minutesPlayed: row.minutes.toFixed(2),
+          features: row.features,
+        });
+      });
+
+      const counts = names.map(
+        (name, cluster) =>
+          `${name} ${assignments.filter((a) => a === cluster).length}`
+      );
+      console.log(`   ✓ ${positionCategory}: ${counts.join(", ")}`);
+    }
+
+    console.log("\n   Writing player_roles...");
+    await db.transaction(async (tx) => {
+      await tx.delete(playerRoles);
+
+      const BATCH_SIZE = 1000;
+      for (let i = 0; i < records.length; i += BATCH_SIZE) {
+        await tx.insert(playerRoles).values(records.slice(i, i + BATCH_SIZE));
+      }
+    });
+    console.log(`   ✓ Inserted ${records.length} player roles\n`);
+
+    console.log("✅ Player role clustering complete!\n");
+  } catch (error) {
+    console.error("❌ Error clustering player roles:", error);
+    throw error;
+  }
+}
+
+// Run if executed directly
+const isMainModule =
+  (process.argv[1] && process.argv[1].endsWith("cluster-player-roles.ts")) ||
+  (process.argv[1] && process.argv[1].endsWith("cluster-player-roles.js"));
+
+if (isMainModule) {
+  clusterPlayerRoles()
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error(err);
+      process.exit(1);
+    });
+}
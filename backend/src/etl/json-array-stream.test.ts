@@ -0,0 +1,166 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { streamJsonArray } from "./json-array-stream.ts";
+import type { DroppedElement } from "./json-array-stream.ts";
+
+let tmpDir: string;
+
+beforeAll(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-array-stream-"));
+});
+
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+async function read(content: string, options = {}) {
+  const filePath = path.join(tmpDir, "1234.json");
+  fs.writeFileSync(filePath, content);
+
+  const dropped: DroppedElement[] = [];
+  const elements: any[] = [];
+  for await (const element of streamJsonArray(filePath, {
+    onDrop: (d) => dropped.push(d),
+    ...options,
+  })) {
+    elements.push(element);
+  }
+
+  return { elements, dropped };
+}
+
+// Pretty-printed like the StatsBomb files
+const frame = (id: number) =>
+  JSON.stringify(
+    {
+      event_uuid: `uuid-${id}`,
+      visible_area: [1, 2, 3, 4],
+      freeze_frame: [
+        { teammate: true, actor: true, keeper: false, location: [id, 2] },
+        { teammate: false, actor: false, keeper: true, location: [3, 4] },
+      ],
+    },
+    null,
+    2
+  );
+
+const array = (parts: string[]) => `[ ${parts.join(", ")} ]`;
+
+describe("streamJsonArray", () => {
+  it("yields every element of a valid file", async () => {
+    const { elements, dropped } = await read(
+      array([1, 2, 3].map((id) => frame(id)))
+    );
+
+    expect(elements.map((e) => e.event_uuid)).toEqual([
+      "uuid-1",
+      "uuid-2",
+      "uuid-3",
+    ]);
+    expect(dropped).toEqual([]);
+  });
+
+  it("handles empty arrays and brackets inside strings", async () => {
+    expect((await read("[]")).elements).toEqual([]);
+
+    const { elements } = await read('[{"a": "} ] { [ \\" \\\\"}, {"a": 1}]');
+    expect(elements).toEqual([{ a: '} ] { [ " \\' }, { a: 1 }]);
+  });
+
+  it("reads elements larger than one read chunk", async () => {
+    const big = { event_uuid: "big", pad: "x".repeat(200_000) };
+    const { elements } = await read(
+      array([frame(1), JSON.stringify(big), frame(2)])
+    );
+
+    expect(elements.map((e) => e.event_uuid)).toEqual([
+      "uuid-1",
+      "big",
+      "uuid-2",
+    ]);
+    expect(elements[1].pad).toHaveLength(200_000);
+  });
+
+  it("drops a malformed element and keeps the rest", async () => {
+    const broken = frame(2).replace('"keeper": true', '"keeper" true');
+    const content = array([frame(1), broken, frame(3)]);
+    const { elements, dropped } = await read(content);
+
+    expect(elements.map((e) => e.event_uuid)).toEqual(["uuid-1", "uuid-3"]);
+    expect(dropped).toHaveLength(1);
+    expect(dropped[0]).toMatchObject({
+      file: "1234.json",
+      index: 1,
+      offset: Buffer.byteLength(content.slice(0, content.indexOf(broken))),
+      length: Buffer.byteLength(broken) + 2, // Plus the ", " separator
+    });
+  });
+
+  it("resyncs on the next element after broken brackets", async () => {
+    // A lost "]" leaves the scanner inside freeze_frame
+    const broken = frame(2).replace("]\n}", "\n}");
+    const { elements, dropped } = await read(
+      array([frame(1), broken, frame(3), frame(4)])
+    );
+
+    expect(elements.map((e) => e.event_uuid)).toEqual([
+      "uuid-1",
+      "uuid-3",
+      "uuid-4",
+    ]);
+    expect(dropped).toHaveLength(1);
+    expect(dropped[0].index).toBe(1);
+  });
+
+  it("does not mistake nested objects for elements", async () => {
+    // An unterminated string right before the freeze_frame objects
+    const broken = frame(2).replace('"uuid-2"', '"uuid-2');
+    const { elements } = await read(array([frame(1), broken, frame(3)]));
+
+    expect(elements.map((e) => e.event_uuid)).toEqual(["uuid-1", "uuid-3"]);
+  });
+
+  it("recovers when the first element is corrupt", async () => {
+    const { elements, dropped } = await read(
+      array(['{"event_uuid": }', frame(2)])
+    );
+
+    expect(elements.map((e) => e.event_uuid)).toEqual(["uuid-2"]);
+    expect(dropped[0]).toMatchObject({ index: 0, offset: 2 });
+  });
+
+  it("uses the required keys before any element has been read", async () => {
+    // The freeze_frame objects of the corrupt first element look like elements
+    const broken = frame(1).replace('"uuid-1"', '"uuid-1');
+    const { elements } = await read(array([broken, frame(2)]), {
+      requiredKeys: ["event_uuid", "freeze_frame"],
+    });
+
+    expect(elements.map((e) => e.event_uuid)).toEqual(["uuid-2"]);
+  });
+
+  it("keeps the elements before a truncated end", async () => {
+    const content = array([frame(1), frame(2)]);
+    const { elements, dropped } = await read(content.slice(0, -40));
+
+    expect(elements.map((e) => e.event_uuid)).toEqual(["uuid-1"]);
+    expect(dropped).toHaveLength(1);
+    expect(dropped[0].error).toBe("Unexpected end of file");
+  });
+
+  it("treats oversized elements as corrupt", async () => {
+    const big = JSON.stringify({ event_uuid: "big", pad: "x".repeat(100_000) });
+    const { elements, dropped } = await read(array([frame(1), big, frame(2)]), {
+      maxElementBytes: 50_000,
+    });
+
+    expect(elements.map((e) => e.event_uuid)).toEqual(["uuid-1", "uuid-2"]);
+    expect(dropped[0].error).toMatch(/larger than 50000 bytes/);
+  });
+
+  it("rejects files that are not arrays", async () => {
+    await expect(read('{"a": 1}')).rejects.toThrow(/not contain a JSON array/);
+  });
+});
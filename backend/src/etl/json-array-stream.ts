@@ -0,0 +1,290 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * STREAMING JSON ARRAY READER
+ *
+ * Reads a file holding one JSON array of objects (StatsBomb events and 360
+ * frames) element by element, so memory stays at roughly one element plus
+ * a read chunk instead of the whole file.
+ *
+ * Corrupt elements are dropped instead of failing the file. The scanner
+ * only tracks strings and brackets to find where each element ends, and
+ * JSON.parse validates it. After a bad element it resyncs on the next "{"
+ * that parses as an object with the caller's required keys and every key
+ * the earlier elements shared (so nested objects are not mistaken for
+ * elements) and is followed by "," or "]". Each drop is logged with its
+ * byte offset and element index.
+ */
+
+const CHUNK_SIZE = 64 * 1024;
+const DEFAULT_MAX_ELEMENT_BYTES = 16 * 1024 * 1024;
+
+const QUOTE = 0x22; // "
+const BACKSLASH = 0x5c; // \
+const COMMA = 0x2c; // ,
+const OPEN_BRACE = 0x7b; // {
+const CLOSE_BRACE = 0x7d; // }
+const OPEN_BRACKET = 0x5b; // [
+const CLOSE_BRACKET = 0x5d; // ]
+const NEWLINE = 0x0a;
+
+export interface DroppedElement {
+  file: string; // Basename
+  index: number; // Array position (earlier drops count as one element each)
+  offset: number; // Byte offset where the dropped bytes start
+  length: number; // Bytes skipped (may span several elements)
+  error: string;
+}
+
+export interface JsonArrayStreamOptions {
+  onDrop?: (dropped: DroppedElement) => void; // Default: console.warn
+  maxElementBytes?: number; // Larger elements are treated as corrupt
+  // Keys every element has. Resync checks them even before the first good
+  // element, so a corrupt first element can't resync on a nested object
+  requiredKeys?: string[];
+}
+
+type Scan =
+  | { status: "complete"; end: number }
+  | { status: "incomplete" }
+  | { status: "invalid"; error: string };
+
+const isWhitespace = (byte: number) =>
+  byte === 0x20 || byte === 0x09 || byte === NEWLINE || byte === 0x0d;
+
+/**
+ * Find the end of the object starting at buf[start]
+ */
+function scanObject(buf: Buffer, start: number): Scan {
+  if (buf[start] !== OPEN_BRACE) {
+    return { status: "invalid", error: "Expected an object" };
+  }
+
+  const stack: number[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < buf.length; i++) {
+    const byte = buf[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (byte === BACKSLASH) {
+        escaped = true;
+      } else if (byte === QUOTE) {
+        inString = false;
+      } else if (byte === NEWLINE) {
+        // JSON strings can't hold raw newlines: the closing quote is missing
+        return { status: "invalid", error: "Unterminated string" };
+      }
+      continue;
+    }
+
+    if (byte === QUOTE) {
+      inString = true;
+    } else if (byte === OPEN_BRACE || byte === OPEN_BRACKET) {
+      stack.push(byte);
+    } else if (byte === CLOSE_BRACE || byte === CLOSE_BRACKET) {
+      const expected = byte === CLOSE_BRACE ? OPEN_BRACE : OPEN_BRACKET;
+      if (stack.pop() !== expected) {
+        return {
+          status: "invalid",
+          error: `Unexpected "${String.fromCharCode(byte)}"`,
+        };
+      }
+      if (stack.length === 0) {
+        return { status: "complete", end: i + 1 };
+      }
+    }
+  }
+
+  return { status: "incomplete" };
+}
+
+function parseObject(text: string): Record<string, unknown> {
+  const value = JSON.parse(text);
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Expected an object");
+  }
+  return value;
+}
+
+/**
+ * Yield the elements of the JSON array in a file, skipping corrupt ones
+ */
+export async function* streamJsonArray<T>(
+  filePath: string,
+  options: JsonArrayStreamOptions = {}
+): AsyncGenerator<T> {
+  const file = path.basename(filePath);
+  const maxElementBytes = options.maxElementBytes ?? DEFAULT_MAX_ELEMENT_BYTES;
+  const requiredKeys = options.requiredKeys ?? [];
+  const onDrop =
+    options.onDrop ??
+    ((dropped: DroppedElement) =>
+      console.warn(
+        `   ⚠️  ${dropped.file}: dropped element ${dropped.index} at byte ${dropped.offset} (${dropped.length} bytes): ${dropped.error}`
+      ));
+
+  const handle = await fs.promises.open(filePath, "r");
+  let buf = Buffer.alloc(0);
+  let bufOffset = 0; // File offset of buf[0]
+  let eof = false;
+
+  const fill = async () => {
+    const chunk = Buffer.alloc(CHUNK_SIZE);
+    const { bytesRead } = await handle.read(chunk, 0, CHUNK_SIZE, null);
+    if (bytesRead === 0) {
+      eof = true;
+    } else {
+      buf = Buffer.concat([buf, chunk.subarray(0, bytesRead)]);
+    }
+  };
+
+  // Drop consumed bytes so the buffer never holds more than one element
+  const consume = (pos: number) => {
+    buf = buf.subarray(pos);
+    bufOffset += pos;
+  };
+
+  // Position of the next non-whitespace byte (buf.length at end of file)
+  const skipWhitespace = async (pos: number) => {
+    while (true) {
+      while (pos < buf.length && isWhitespace(buf[pos])) pos++;
+      if (pos < buf.length || eof) return pos;
+      await fill();
+    }
+  };
+
+  // Scan the object at the start of the buffer, reading more as needed
+  const scan = async (): Promise<Exclude<Scan, { status: "incomplete" }>> => {
+    while (true) {
+      const result = scanObject(buf, 0);
+      if (result.status !== "incomplete") return result;
+      if (eof) {
+        return { status: "invalid", error: "Unexpected end of file" };
+      }
+      if (buf.length > maxElementBytes) {
+        return {
+          status: "invalid",
+          error: `Element larger than ${maxElementBytes} bytes`,
+        };
+      }
+      await fill();
+    }
+  };
+
+  // Keys every element so far had; resync candidates must have them too
+  let sharedKeys: string[] | undefined;
+  const remember = (element: Record<string, unknown>) => {
+    sharedKeys = sharedKeys
+      ? sharedKeys.filter((key) => key in element)
+      : Object.keys(element);
+  };
+
+  /**
+   * After the corrupt element at the start of the buffer, move to the next
+   * usable element and parse it (undefined when nothing usable is left)
+   */
+  const resync = async () => {
+    let from = 1;
+
+    while (true) {
+      const candidate = buf.indexOf(OPEN_BRACE, from);
+      if (candidate < 0) {
+        if (eof) return undefined;
+        consume(buf.length);
+        from = 0;
+        await fill();
+        continue;
+      }
+
+      // Only the candidate onwards is still needed
+      consume(candidate);
+      from = 1;
+
+      const result = await scan();
+      if (result.status === "complete") {
+        const next = await skipWhitespace(result.end);
+        const separated =
+          next >= buf.length ||
+          buf[next] === COMMA ||
+          buf[next] === CLOSE_BRACKET;
+
+        if (separated) {
+          try {
+            const element = parseObject(buf.toString("utf8", 0, result.end));
+            const keys = [...requiredKeys, ...(sharedKeys ?? [])];
+            if (keys.every((key) => key in element)) {
+              return { end: result.end, element };
+            }
+          } catch {
+            // Not an element; keep looking
+          }
+        }
+      }
+    }
+  };
+
+  try {
+    let pos = await skipWhitespace(0);
+    if (buf[pos] !== OPEN_BRACKET) {
+      throw new Error(`${file} does not contain a JSON array`);
+    }
+    consume(pos + 1);
+
+    let index = 0;
+    while (true) {
+      pos = await skipWhitespace(0);
+      if (pos >= buf.length || buf[pos] === CLOSE_BRACKET) break;
+      if (index > 0 && buf[pos] === COMMA) {
+        pos = await skipWhitespace(pos + 1);
+        if (pos >= buf.length) break;
+      }
+      consume(pos);
+
+      const result = await scan();
+      let element: Record<string, unknown> | undefined;
+      let error = "";
+      if (result.status === "complete") {
+        try {
+          element = parseObject(buf.toString("utf8", 0, result.end));
+        } catch (err) {
+          error = (err as Error).message;
+        }
+      } else {
+        error = result.error;
+      }
+
+      if (element && result.status === "complete") {
+        remember(element);
+        consume(result.end);
+        index++;
+        yield element as T;
+        continue;
+      }
+
+      const droppedAt = bufOffset;
+      const recovered = await resync();
+      onDrop({
+        file,
+        index,
+        offset: droppedAt,
+        length: (recovered ? bufOffset : bufOffset + buf.length) - droppedAt,
+        error,
+      });
+      index++;
+
+      if (!recovered) break;
+
+      remember(recovered.element);
+      consume(recovered.end);
+      index++;
+      yield recovered.element as T;
+    }
+  } finally {
+    await handle.close();
+  }
+}
@@ -1,9 +1,11 @@
 import fs from "fs";
 import path from "path";
-import { sql } from "drizzle-orm";
+import { eq, sql } from "drizzle-orm";
 import { env } from "../../env.ts";
-import { db } from "../db/index.ts";
+import { db, type DbExecutor } from "../db/index.ts";
 import { threeSixtyFrames, threeSixtyPlayers, matches } from "../db/index.ts";
+import { noCheckpoint, type FileCheckpoint } from "./checkpoint.ts";
+import { streamJsonArray } from "./json-array-stream.ts";
 
 const DATA_PATH = path.join(
   process.cwd(),
@@ -11,6 +13,9 @@ const DATA_PATH = path.join(
   "three-sixty"
 );
 
+// Keys every frame has (streamJsonArray requiredKeys)
+const FRAME_KEYS = ["event_uuid", "freeze_frame"];
+
 // ============================================================================
 // TypeScript Interfaces (matching JSON structure)
 // ============================================================================
@@ -65,48 +70,90 @@ function calculateDistance(
 }
 
 /**
- * Load and process a batch of 360 files
- * Returns match data that was successfully loaded
+ * Insert a batch of one match's frames and their freeze-frame players
  */
-function loadFileBatch(
-  filePaths: string[]
-): Map<number, { matchId: number; frames: ThreeSixtyFrame[] }> {
-  const batchMap = new Map<
-    number,
-    { matchId: number; frames: ThreeSixtyFrame[] }
-  >();
-
-  for (const filePath of filePaths) {
-    const matchId = parseInt(path.basename(filePath, ".json"));
+async function insertFrameBatch(
+  executor: DbExecutor,
+  matchId: number,
+  frameBatch: ThreeSixtyFrame[]
+) {
+  // Prepare frame data
+  const frameData = frameBatch.map((frame) => {
+    const areaSize = calculateVisibleAreaSize(frame.visible_area);
+    return {
+      matchId,
+      eventUuid: frame.event_uuid,
+      visibleArea: frame.visible_area,
+      playerCount: frame.freeze_frame.length,
+      visibleAreaSize: areaSize !== null ? areaSize.toString() : null,
+      rawJson: frame,
+    };
+  });
 
-    if (isNaN(matchId) || matchId <= 0) {
-      continue;
+  // Insert frames
+  const insertedFrames = await executor
+    .insert(threeSixtyFrames)
+    .values(frameData)
+    .onConflictDoNothing()
+    .returning({
+      id: threeSixtyFrames.id,
+      eventUuid: threeSixtyFrames.eventUuid,
+    });
+
+  // Create frame_id map (skipped duplicates are not returned)
+  const frameIdMap = new Map(insertedFrames.map((f) => [f.eventUuid, f.id]));
+
+  // Prepare player data
+  const allPlayers: any[] = [];
+
+  for (const frame of frameBatch) {
+    const frameId = frameIdMap.get(frame.event_uuid);
+    if (!frameId) continue;
+
+    const actor = frame.freeze_frame.find((p) => p.actor);
+
+    for (const player of frame.freeze_frame) {
+      const distanceToActor = actor
+        ? calculateDistance(
+            player.location[0],
+            player.location[1],
+            actor.location[0],
+            actor.location[1]
+          )
+        : null;
+
+      allPlayers.push({
+        frameId,
+        teammate: player.teammate,
+        actor: player.actor,
+        keeper: player.keeper,
+        locationX: player.location[0],
+        locationY: player.location[1],
+        distanceToActor,
+        inVisibleArea: true,
+      });
     }
+  }
 
-    try {
-      const rawJson: ThreeSixtyFrame[] = JSON.parse(
-        fs.readFileSync(filePath, "utf-8")
-      );
-
-      if (!Array.isArray(rawJson)) {
-        continue;
-      }
-
-      batchMap.set(matchId, { matchId, frames: rawJson });
-    } catch (err) {
-      // Skip corrupt files silently (will be logged in main function)
-      continue;
-    }
+  // Insert players
+  if (allPlayers.length > 0) {
+    await executor
+      .insert(threeSixtyPlayers)
+      .values(allPlayers)
+      .onConflictDoNothing();
   }
 
-  return batchMap;
+  return { frames: insertedFrames.length, players: allPlayers.length };
 }
 
 // ============================================================================
 // ETL Main Function
 // ============================================================================
 
-async function load360ETL() {
+export async function load360ETL(
+  checkpoint: FileCheckpoint = noCheckpoint,
+  executor: DbExecutor = db
+) {
   console.log("🏁 Starting 360 Frames ETL...\n");
 
   // ========================================================================
@@ -122,13 +169,22 @@ async function load360ETL() {
 
   console.log(`   Found ${allFiles.length} 360 files\n`);
 
+  const pendingFiles = checkpoint.remaining(allFiles);
+  if (pendingFiles.length < allFiles.length) {
+    console.log(
+      `   ⏭️  Skipping ${
+        allFiles.length - pendingFiles.length
+      } files (already loaded or not selected)\n`
+    );
+  }
+
   // ========================================================================
   // STEP 2: Query existing matches from database (once)
   // ========================================================================
   console.log("═".repeat(70));
   console.log("\n🔍 Step 2: Querying existing matches from database...\n");
 
-  const existingMatchesResult = await db
+  const existingMatchesResult = await executor
     .select({ matchId: matches.matchId })
     .from(matches);
 
@@ -149,103 +205,50 @@ async function load360ETL() {
   let totalFilesProcessed = 0;
   let totalSkipped = 0;
 
-  const FILE_BATCH_SIZE = 50; // Process 50 files at a time to limit memory
+  const PROGRESS_EVERY = 50; // Files between progress updates
   const FRAME_BATCH_SIZE = 100; // Insert 100 frames at a time
 
-  // Process files in batches
-  for (let i = 0; i < allFiles.length; i += FILE_BATCH_SIZE) {
-    const fileBatch = allFiles.slice(i, i + FILE_BATCH_SIZE);
-
-    // Load this batch of files
-    const batchMap = loadFileBatch(fileBatch);
-
-    // Process each match in the batch
-    for (const { matchId, frames } of batchMap.values()) {
-      // Skip if match not in database
-      if (!existingMatchIds.has(matchId)) {
-        totalSkipped++;
-        continue;
-      }
+  // Stream each file, so memory holds one frame batch at a time; corrupt
+  // frames are logged and skipped, the rest of the file still loads
+  for (const [i, filePath] of pendingFiles.entries()) {
+    const matchId = parseInt(path.basename(filePath, ".json"));
 
+    // Skip if match not in database
+    if (isNaN(matchId) || matchId <= 0 || !existingMatchIds.has(matchId)) {
+      totalSkipped++;
+    } else {
       try {
-        // Process frames in sub-batches
-        for (let j = 0; j < frames.length; j += FRAME_BATCH_SIZE) {
-          const frameBatch = frames.slice(j, j + FRAME_BATCH_SIZE);
-
-          // Prepare frame data
-          const frameData = frameBatch.map((frame) => {
-            const areaSize = calculateVisibleAreaSize(frame.visible_area);
-            return {
-              matchId,
-              eventUuid: frame.event_uuid,
-              visibleArea: frame.visible_area,
-              playerCount: frame.freeze_frame.length,
-              visibleAreaSize: areaSize !== null ? areaSize.toString() : null,
-              rawJson: frame,
-            };
-          });
-
-          // Insert frames
-          const insertedFrames = await db
-            .insert(threeSixtyFrames)
-            .values(frameData)
-            .onConflictDoNothing()
-            .returning({
-              id: threeSixtyFrames.id,
-              eventUuid: threeSixtyFrames.eventUuid,
-            });
-
-          // Create frame_id map
-          const frameIdMap = new Map(
-            insertedFrames.map((f, idx) => [frameBatch[idx].event_uuid, f.id])
+        // Drop frames left by an interrupted attempt (players cascade)
+        await executor
+          .delete(threeSixtyFrames)
+          .where(eq(threeSixtyFrames.matchId, matchId));
+
+        let frameBatch: ThreeSixtyFrame[] = [];
+        const flush = async () => {
+          const inserted = await insertFrameBatch(
+            executor,
+            matchId,
+            frameBatch
           );
-
-          // Prepare player data
-          const allPlayers: any[] = [];
-
-          for (const frame of frameBatch) {
-            const frameId = frameIdMap.get(frame.event_uuid);
-            if (!frameId) continue;
-
-            const actor = frame.freeze_frame.find((p) => p.actor);
-
-            for (const player of frame.freeze_frame) {
-              const distanceToActor = actor
-                ? calculateDistance(
-                    player.location[0],
-                    player.location[1],
-                    actor.location[0],
-                    actor.location[1]
-                  )
-                : null;
-
-              allPlayers.push({
-                frameId,
-                teammate: player.teammate,
-                actor: player.actor,
-                keeper: player.keeper,
-                locationX: player.location[0],
-                locationY: player.location[1],
-                distanceToActor,
-                inVisibleArea: true,
-              });
-            }
-          }
-
-          // Insert players
-          if (allPlayers.length > 0) {
-            await db
-              .insert(threeSixtyPlayers)
-              .values(allPlayers)
-              .onConflictDoNothing();
-            totalPlayersInserted += allPlayers.length;
-          }
-
-          totalFramesInserted += insertedFrames.length;
+          totalFramesInserted += inserted.frames;
+          totalPlayersInserted += inserted.players;
+          frameBatch = [];
+        };
+
+        for await (const frame of streamJsonArray<ThreeSixtyFrame>(filePath, {
+          requiredKeys: FRAME_KEYS,
+        })) {
+          frameBatch.push(frame);
+          if (frameBatch.length >= FRAME_BATCH_SIZE) await flush();
         }
+        if (frameBatch.length > 0) await flush();
 
+        await checkpoint.markDone([`${matchId}.json`]);
         totalFilesProcessed++;
       } catch (err) {
+        // A failed statement aborts the caller's transaction
+        if (executor !== db) throw err;
+
         console.error(
           `   ❌ Failed to process match ${matchId}: ${(err as Error).message}`
         );
@@ -253,17 +256,19 @@ async function load360ETL() {
       }
     }
 
-    // Progress update every batch
-    console.log(
-      `   ✓ Processed ${Math.min(i + FILE_BATCH_SIZE, allFiles.length)}/${
-        allFiles.length
-      } files (${totalFramesInserted.toLocaleString()} frames, ${totalPlayersInserted.toLocaleString()} players)...`
-    );
+    // Progress update
+    if ((i + 1) % PROGRESS_EVERY === 0 || i + 1 === pendingFiles.length) {
+      console.log(
+        `   ✓ Processed ${i + 1}/${
+          pendingFiles.length
+        } files (${totalFramesInserted.toLocaleString()} frames, ${totalPlayersInserted.toLocaleString()} players)...`
+      );
+    }
   }
 
   if (totalSkipped > 0) {
     console.log(
-      `   ⚠️  Skipped ${totalSkipped} files (corrupt or match not in database)`
+      `   ⚠️  Skipped ${totalSkipped} files (unreadable or match not in database)`
     );
   }
 
@@ -280,8 +285,12 @@ async function load360ETL() {
   console.log("\n✅ Step 4: Verifying data...\n");
 
   const [framesResult, playersResult] = await Promise.all([
-    db.select({ count: sql<number>`count(*)::int` }).from(threeSixtyFrames),
-    db.select({ count: sql<number>`count(*)::int` }).from(threeSixtyPlayers),
+    executor
+      .select({ count: sql<number>`count(*)::int` })
+      .from(threeSixtyFrames),
+    executor
+      .select({ count: sql<number>`count(*)::int` })
+      .from(threeSixtyPlayers),
   ]);
 
   const framesCount = framesResult[0].count as number;
@@ -298,7 +307,11 @@ async function load360ETL() {
   console.log("═".repeat(70));
   console.log("\n🎉 360 Frames ETL Complete!\n");
 
-  if (framesCount !== totalFramesInserted) {
+  // Frames from earlier attempts are already counted when resuming
+  if (
+    pendingFiles.length === allFiles.length &&
+    framesCount !== totalFramesInserted
+  ) {
     console.warn(
       `\n⚠️  WARNING: Expected ${totalFramesInserted} frames, but got ${framesCount}`
     );
@@ -311,12 +324,18 @@ async function load360ETL() {
 // Run ETL
 // ============================================================================
 
-load360ETL()
-  .then(() => {
-    console.log("\n✅ 360 ETL finished successfully");
-    process.exit(0);
-  })
-  .catch((err) => {
-    console.error("\n❌ ETL failed:", err);
-    process.exit(1);
-  });
+const isMainModule =
+  (process.argv[1] && process.argv[1].endsWith("load-360.ts")) ||
+  (process.argv[1] && process.argv[1].endsWith("load-360.js"));
+
+if (isMainModule) {
+  load360ETL()
+    .then(() => {
+      console.log("\n✅ 360 ETL finished successfully");
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error("\n❌ ETL failed:", err);
+      process.exit(1);
+    });
+}
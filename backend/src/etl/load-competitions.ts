@@ -18,7 +18,7 @@ import { countries, competitions, seasons } from "../db/index.ts";
 // TYPES (from JSON structure)
 // ============================================================================
 
-interface CompetitionSeasonJSON {
+export interface CompetitionSeasonJSON {
   competition_id: number;
   season_id: number;
   competition_name: string;
@@ -65,19 +65,24 @@ function parseDateSafely(dateStr: string | null): Date | null {
 // MAIN ETL FUNCTION
 // ============================================================================
 
-async function loadCompetitions() {
-  console.log("🏁 Starting Competitions ETL...\n");
-
-  // Step 1: Load raw JSON
-  console.log("📂 Step 1: Loading competitions.json...");
+/**
+ * Read competitions.json (one entry per competition-season)
+ */
+export function readCompetitionSeasons(): CompetitionSeasonJSON[] {
   const dataPath = path.join(
     process.cwd(),
     env.DATA_PATH || "./football-open/data",
     "competitions.json"
   );
-  const rawJson: CompetitionSeasonJSON[] = JSON.parse(
-    fs.readFileSync(dataPath, "utf-8")
-  );
+  return JSON.parse(fs.readFileSync(dataPath, "utf-8"));
+}
+
+export async function loadCompetitions() {
+  console.log("🏁 Starting Competitions ETL...\n");
+
+  // Step 1: Load raw JSON
+  console.log("📂 Step 1: Loading competitions.json...");
+  const rawJson = readCompetitionSeasons();
 
   console.log(`   ✅ Loaded ${rawJson.length} competition-season pairs\n`);
 
@@ -211,11 +216,17 @@ async function loadCompetitions() {
 // RUN
 // ============================================================================
 
-loadCompetitions()
-  .catch((error) => {
-    console.error("❌ ETL Failed:", error);
-    process.exit(1);
-  })
-  .finally(() => {
-    process.exit(0);
-  });
+const isMainModule =
+  (process.argv[1] && process.argv[1].endsWith("load-competitions.ts")) ||
+  (process.argv[1] && process.argv[1].endsWith("load-competitions.js"));
+
+if (isMainModule) {
+  loadCompetitions()
+    .catch((error) => {
+      console.error("❌ ETL Failed:", error);
+      process.exit(1);
+    })
+    .finally(() => {
+      process.exit(0);
+    });
+}
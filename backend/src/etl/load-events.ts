@@ -2,7 +2,7 @@ import fs from "fs";
 import path from "path";
 import { sql } from "drizzle-orm";
 import { env } from "../../env.ts";
-import { db } from "../db/index.ts";
+import { db, type DbExecutor } from "../db/index.ts";
 import {
   events,
   passes,
@@ -22,6 +22,9 @@ import {
   goalkeeperEvents,
   eventRelationships,
 } from "../db/index.ts";
+import { noCheckpoint, type FileCheckpoint } from "./checkpoint.ts";
+import { streamJsonArray } from "./json-array-stream.ts";
+import { EVENT_TYPE } from "../services/event-taxonomy.ts";
 
 const EVENTS_PATH = path.join(
   process.cwd(),
@@ -34,6 +37,9 @@ const EVENT_BATCH_SIZE = 500; // 500 events × 20 fields = 10k params
 const SUBTYPE_BATCH_SIZE = 1000; // Most subtypes have <20 fields
 const RELATIONSHIP_BATCH_SIZE = 2000; // 2 UUIDs per row = 4k params
 
+// Keys every event has (streamJsonArray requiredKeys)
+const EVENT_KEYS = ["id", "index", "type"];
+
 // ============================================================================
 // TypeScript Interfaces
 // ============================================================================
@@ -104,17 +110,42 @@ function extractMatchId(filePath: string): number {
 // ETL Main Function
 // ============================================================================
 
-async function loadEventsETL() {
-  console.log("🏁 Starting Events ETL...\n");
-  console.log("⚠️  WARNING: This is a MASSIVE ETL (12.2M events)");
-  console.log("⏱️  Estimated time: 1-2 hours\n");
-
-  const files = fs
+/**
+ * Event file paths (one file per match)
+ */
+function listEventFiles(): string[] {
+  return fs
     .readdirSync(EVENTS_PATH)
     .filter((f) => f.endsWith(".json"))
     .map((f) => path.join(EVENTS_PATH, f));
+}
+
+/**
+ * Files still to load for a phase, logging how many a checkpoint skipped
+ */
+function pendingEventFiles(checkpoint: FileCheckpoint): string[] {
+  const files = listEventFiles();
+  const pending = checkpoint.remaining(files);
+
+  if (pending.length < files.length) {
+    console.log(
+      `   ⏭️  Skipping ${(
+        files.length - pending.length
+      ).toLocaleString()} files (already loaded or not selected)\n`
+    );
+  }
+
+  return pending;
+}
+
+export async function loadEventsETL() {
+  console.log("🏁 Starting Events ETL...\n");
+  console.log("⚠️  WARNING: This is a MASSIVE ETL (12.2M events)");
+  console.log("⏱️  Estimated time: 1-2 hours\n");
 
-  console.log(`📂 Found ${files.length.toLocaleString()} event files\n`);
+  console.log(
+    `📂 Found ${listEventFiles().length.toLocaleString()} event files\n`
+  );
 
   // ========================================================================
   // PHASE 1: Load Core Events
@@ -122,17 +153,60 @@ async function loadEventsETL() {
   console.log("═".repeat(70));
   console.log("\n📊 PHASE 1: Loading core events...\n");
 
+  await loadCoreEvents();
+
+  // ========================================================================
+  // PHASE 2: Load Subtype Tables
+  // ========================================================================
+  console.log("═".repeat(70));
+  console.log("\n📊 PHASE 2: Loading subtype tables...\n");
+
+  await loadSubtypeTables();
+
+  // ========================================================================
+  // PHASE 3: Load Event Relationships
+  // ========================================================================
+  console.log("═".repeat(70));
+  console.log("\n🔗 PHASE 3: Loading event relationships...\n");
+
+  await loadEventRelationships();
+
+  // ========================================================================
+  // PHASE 4: Verification
+  // ========================================================================
+  console.log("═".repeat(70));
+  console.log("\n✅ PHASE 4: Verifying data...\n");
+
+  await verifyEventsData();
+
+  console.log("═".repeat(70));
+  console.log("\n🎉 Events ETL Complete!\n");
+}
+
+// ============================================================================
+// Core Events Loading
+// ============================================================================
+
+/**
+ * Phase 1: core events. A file is checkpointed once all of its events are
+ * flushed, so files are marked after the batch that completes them.
+ */
+export async function loadCoreEvents(
+  checkpoint: FileCheckpoint = noCheckpoint,
+  executor: DbExecutor = db
+) {
+  const files = pendingEventFiles(checkpoint);
+
   let totalEventsLoaded = 0;
   let filesProcessed = 0;
   let eventBatch: any[] = [];
+  let unflushedFiles: string[] = [];
 
   for (const filePath of files) {
     const matchId = extractMatchId(filePath);
-    const eventsJson: EventJson[] = JSON.parse(
-      fs.readFileSync(filePath, "utf-8")
-    );
-
-    for (const event of eventsJson) {
+    for await (const event of streamJsonArray<EventJson>(filePath, {
+      requiredKeys: EVENT_KEYS,
+    })) {
       const eventData = {
         id: event.id,
         index: event.index,
@@ -174,9 +248,11 @@ async function loadEventsETL() {
 
       // Insert batch when full
       if (eventBatch.length >= EVENT_BATCH_SIZE) {
-        await db.insert(events).values(eventBatch).onConflictDoNothing();
+        await executor.insert(events).values(eventBatch).onConflictDoNothing();
         totalEventsLoaded += eventBatch.length;
         eventBatch = [];
+        await checkpoint.markDone(unflushedFiles);
+        unflushedFiles = [];
 
         if (totalEventsLoaded % 10000 === 0) {
           console.log(
@@ -186,6 +262,7 @@ async function loadEventsETL() {
       }
     }
 
+    unflushedFiles.push(filePath);
     filesProcessed++;
     if (filesProcessed % 500 === 0) {
       console.log(
@@ -198,46 +275,27 @@ async function loadEventsETL() {
 
   // Insert remaining events
   if (eventBatch.length > 0) {
-    await db.insert(events).values(eventBatch).onConflictDoNothing();
+    await executor.insert(events).values(eventBatch).onConflictDoNothing();
     totalEventsLoaded += eventBatch.length;
   }
+  await checkpoint.markDone(unflushedFiles);
 
   console.log();
   console.log(`✅ Loaded ${totalEventsLoaded.toLocaleString()} core events\n`);
-
-  // ========================================================================
-  // PHASE 2: Load Subtype Tables
-  // ========================================================================
-  console.log("═".repeat(70));
-  console.log("\n📊 PHASE 2: Loading subtype tables...\n");
-
-  await loadSubtypeTables(files);
-
-  // ========================================================================
-  // PHASE 3: Load Event Relationships
-  // ========================================================================
-  console.log("═".repeat(70));
-  console.log("\n🔗 PHASE 3: Loading event relationships...\n");
-
-  await loadEventRelationships(files);
-
-  // ========================================================================
-  // PHASE 4: Verification
-  // ========================================================================
-  console.log("═".repeat(70));
-  console.log("\n✅ PHASE 4: Verifying data...\n");
-
-  await verifyEventsData();
-
-  console.log("═".repeat(70));
-  console.log("\n🎉 Events ETL Complete!\n");
 }
 
 // ============================================================================
 // Subtype Loading Functions
 // ============================================================================
 
-async function loadSubtypeTables(files: string[]) {
+/**
+ * Phase 2: subtype tables (needs the core events of the same files)
+ */
+export async function loadSubtypeTables(
+  checkpoint: FileCheckpoint = noCheckpoint,
+  executor: DbExecutor = db
+) {
+  const files = pendingEventFiles(checkpoint);
   const passBatch: any[] = [];
   const shotBatch: any[] = [];
   const carryBatch: any[] = [];
@@ -255,15 +313,15 @@ async function loadSubtypeTables(files: string[]) {
   const gkBatch: any[] = [];
 
   let filesProcessed = 0;
+  let unflushedFiles: string[] = [];
 
   for (const filePath of files) {
-    const eventsJson: EventJson[] = JSON.parse(
-      fs.readFileSync(filePath, "utf-8")
-    );
-
-    for (const event of eventsJson) {
-      // PASSES (type 30)
-      if (event.type.id === 30 && event.pass) {
+    for await (const event of streamJsonArray<EventJson>(filePath, {
+      requiredKeys: EVENT_KEYS,
+      onDrop: () => {}, // loadCoreEvents already logged the drops
+    })) {
+      // PASSES
+      if (event.type.id === EVENT_TYPE.PASS && event.pass) {
         passBatch.push({
           eventId: event.id,
           recipientId: event.pass.recipient?.id || null,
@@ -294,8 +352,8 @@ async function loadSubtypeTables(files: string[]) {
         });
       }
 
-      // SHOTS (type 16)
-      if (event.type.id === 16 && event.shot) {
+      // SHOTS
+      if (event.type.id === EVENT_TYPE.SHOT && event.shot) {
         shotBatch.push({
           eventId: event.id,
           shotXg: event.shot.statsbomb_xg?.toString() || null,
@@ -318,8 +376,8 @@ async function loadSubtypeTables(files: string[]) {
         });
       }
 
-      // CARRIES (type 43)
-      if (event.type.id === 43 && event.carry) {
+      // CARRIES
+      if (event.type.id === EVENT_TYPE.CARRY && event.carry) {
         carryBatch.push({
           eventId: event.id,
           endX: event.carry.end_location?.[0]?.toString() || null,
@@ -327,8 +385,8 @@ async function loadSubtypeTables(files: string[]) {
         });
       }
 
-      // DRIBBLES (type 14)
-      if (event.type.id === 14 && event.dribble) {
+      // DRIBBLES
+      if (event.type.id === EVENT_TYPE.DRIBBLE && event.dribble) {
         dribbleBatch.push({
           eventId: event.id,
           outcomeId: event.dribble.outcome?.id || null,
@@ -338,16 +396,16 @@ async function loadSubtypeTables(files: string[]) {
         });
       }
 
-      // PRESSURES (type 17)
-      if (event.type.id === 17) {
+      // PRESSURES
+      if (event.type.id === EVENT_TYPE.PRESSURE) {
         pressureBatch.push({
           eventId: event.id,
           counterpress: event.counterpress || false,
         });
       }
 
-      // DUELS (type 4)
-      if (event.type.id === 4 && event.duel) {
+      // DUELS
+      if (event.type.id === EVENT_TYPE.DUEL && event.duel) {
         duelBatch.push({
           eventId: event.id,
           duelTypeId: event.duel.type?.id || null,
@@ -356,8 +414,8 @@ async function loadSubtypeTables(files: string[]) {
         });
       }
 
-      // BLOCKS (type 6)
-      if (event.type.id === 6 && event.block) {
+      // BLOCKS
+      if (event.type.id === EVENT_TYPE.BLOCK && event.block) {
         blockBatch.push({
           eventId: event.id,
           deflection: event.block.deflection || false,
@@ -367,8 +425,8 @@ async function loadSubtypeTables(files: string[]) {
         });
       }
 
-      // INTERCEPTIONS (type 10)
-      if (event.type.id === 10 && event.interception) {
+      // INTERCEPTIONS
+      if (event.type.id === EVENT_TYPE.INTERCEPTION && event.interception) {
         interceptionBatch.push({
           eventId: event.id,
           outcomeId: event.interception.outcome?.id || null,
@@ -376,8 +434,8 @@ async function loadSubtypeTables(files: string[]) {
         });
       }
 
-      // CLEARANCES (type 9)
-      if (event.type.id === 9 && event.clearance) {
+      // CLEARANCES
+      if (event.type.id === EVENT_TYPE.CLEARANCE && event.clearance) {
         clearanceBatch.push({
           eventId: event.id,
           bodyPartId: event.clearance.body_part?.id || null,
@@ -385,16 +443,16 @@ async function loadSubtypeTables(files: string[]) {
         });
       }
 
-      // BALL RECEIPTS (type 42)
-      if (event.type.id === 42 && event.ball_receipt) {
+      // BALL RECEIPTS
+      if (event.type.id === EVENT_TYPE.BALL_RECEIPT && event.ball_receipt) {
         ballReceiptBatch.push({
           eventId: event.id,
           outcomeId: event.ball_receipt.outcome?.id || null,
         });
       }
 
-      // BALL RECOVERIES (type 2)
-      if (event.type.id === 2 && event.ball_recovery) {
+      // BALL RECOVERIES
+      if (event.type.id === EVENT_TYPE.BALL_RECOVERY && event.ball_recovery) {
         ballRecoveryBatch.push({
           eventId: event.id,
           recoveryFailure: event.ball_recovery.recovery_failure || false,
@@ -402,8 +460,8 @@ async function loadSubtypeTables(files: string[]) {
         });
       }
 
-      // 50/50s (type 33)
-      if (event.type.id === 33 && event["50_50"]) {
+      // 50/50s
+      if (event.type.id === EVENT_TYPE.FIFTY_FIFTY && event["50_50"]) {
         fiftyFiftyBatch.push({
           eventId: event.id,
           outcomeId: event["50_50"].outcome?.id || null,
@@ -411,9 +469,10 @@ async function loadSubtypeTables(files: string[]) {
         });
       }
 
-      // FOULS (types 21, 22)
+      // FOULS
       if (
-        (event.type.id === 21 || event.type.id === 22) &&
+        (event.type.id === EVENT_TYPE.FOUL_WON ||
+          event.type.id === EVENT_TYPE.FOUL_COMMITTED) &&
         event.foul_committed
       ) {
         foulBatch.push({
@@ -425,16 +484,16 @@ async function loadSubtypeTables(files: string[]) {
         });
       }
 
-      // BAD BEHAVIOUR (type 24)
-      if (event.type.id === 24 && event.bad_behaviour) {
+      // BAD BEHAVIOUR
+      if (event.type.id === EVENT_TYPE.BAD_BEHAVIOUR && event.bad_behaviour) {
         badBehaviourBatch.push({
           eventId: event.id,
           cardId: event.bad_behaviour.card?.id || null,
         });
       }
 
-      // GOALKEEPER (type 23)
-      if (event.type.id === 23 && event.goalkeeper) {
+      // GOALKEEPER
+      if (event.type.id === EVENT_TYPE.GOAL_KEEPER && event.goalkeeper) {
         gkBatch.push({
           eventId: event.id,
           positionId: event.goalkeeper.position?.id || null,
@@ -446,6 +505,7 @@ async function loadSubtypeTables(files: string[]) {
       }
     }
 
+    unflushedFiles.push(filePath);
     filesProcessed++;
 
     // Flush batches frequently to avoid stack overflow
@@ -456,23 +516,28 @@ async function loadSubtypeTables(files: string[]) {
       shotBatch.length >= SUBTYPE_BATCH_SIZE;
 
     if (shouldFlush) {
-      await flushSubtypeBatches({
-        passes: passBatch,
-        shots: shotBatch,
-        carries: carryBatch,
-        dribbles: dribbleBatch,
-        pressures: pressureBatch,
-        duels: duelBatch,
-        blocks: blockBatch,
-        interceptions: interceptionBatch,
-        clearances: clearanceBatch,
-        ballReceipts: ballReceiptBatch,
-        ballRecoveries: ballRecoveryBatch,
-        fiftyFifties: fiftyFiftyBatch,
-        fouls: foulBatch,
-        badBehaviours: badBehaviourBatch,
-        goalkeepers: gkBatch,
-      });
+      await flushSubtypeBatches(
+        {
+          passes: passBatch,
+          shots: shotBatch,
+          carries: carryBatch,
+          dribbles: dribbleBatch,
+          pressures: pressureBatch,
+          duels: duelBatch,
+          blocks: blockBatch,
+          interceptions: interceptionBatch,
+          clearances: clearanceBatch,
+          ballReceipts: ballReceiptBatch,
+          ballRecoveries: ballRecoveryBatch,
+          fiftyFifties: fiftyFiftyBatch,
+          fouls: foulBatch,
+          badBehaviours: badBehaviourBatch,
+          goalkeepers: gkBatch,
+        },
+        executor
+      );
+      await checkpoint.markDone(unflushedFiles);
+      unflushedFiles = [];
 
       if (filesProcessed % 100 === 0) {
         console.log(
@@ -485,83 +550,92 @@ async function loadSubtypeTables(files: string[]) {
   console.log("\n✅ All subtype tables loaded\n");
 }
 
-async function flushSubtypeBatches(batches: any) {
+async function flushSubtypeBatches(batches: any, executor: DbExecutor) {
   if (batches.passes.length > 0) {
-    await db.insert(passes).values(batches.passes).onConflictDoNothing();
+    await executor.insert(passes).values(batches.passes).onConflictDoNothing();
     batches.passes.length = 0;
   }
   if (batches.shots.length > 0) {
-    await db.insert(shots).values(batches.shots).onConflictDoNothing();
+    await executor.insert(shots).values(batches.shots).onConflictDoNothing();
     batches.shots.length = 0;
   }
   if (batches.carries.length > 0) {
-    await db.insert(carries).values(batches.carries).onConflictDoNothing();
+    await executor
+      .insert(carries)
+      .values(batches.carries)
+      .onConflictDoNothing();
     batches.carries.length = 0;
   }
   if (batches.dribbles.length > 0) {
-    await db.insert(dribbles).values(batches.dribbles).onConflictDoNothing();
+    await executor
+      .insert(dribbles)
+      .values(batches.dribbles)
+      .onConflictDoNothing();
     batches.dribbles.length = 0;
   }
   if (batches.pressures.length > 0) {
-    await db.insert(pressures).values(batches.pressures).onConflictDoNothing();
+    await executor
+      .insert(pressures)
+      .values(batches.pressures)
+      .onConflictDoNothing();
     batches.pressures.length = 0;
   }
   if (batches.duels.length > 0) {
-    await db.insert(duels).values(batches.duels).onConflictDoNothing();
+    await executor.insert(duels).values(batches.duels).onConflictDoNothing();
     batches.duels.length = 0;
   }
   if (batches.blocks.length > 0) {
-    await db.insert(blocks).values(batches.blocks).onConflictDoNothing();
+    await executor.insert(blocks).values(batches.blocks).onConflictDoNothing();
     batches.blocks.length = 0;
   }
   if (batches.interceptions.length > 0) {
-    await db
+    await executor
       .insert(interceptions)
       .values(batches.interceptions)
       .onConflictDoNothing();
     batches.interceptions.length = 0;
   }
   if (batches.clearances.length > 0) {
-    await db
+    await executor
       .insert(clearances)
       .values(batches.clearances)
       .onConflictDoNothing();
     batches.clearances.length = 0;
   }
   if (batches.ballReceipts.length > 0) {
-    await db
+    await executor
       .insert(ballReceipts)
       .values(batches.ballReceipts)
       .onConflictDoNothing();
     batches.ballReceipts.length = 0;
   }
   if (batches.ballRecoveries.length > 0) {
-    await db
+    await executor
       .insert(ballRecoveries)
       .values(batches.ballRecoveries)
       .onConflictDoNothing();
     batches.ballRecoveries.length = 0;
   }
   if (batches.fiftyFifties.length > 0) {
-    await db
+    await executor
       .insert(fiftyFifties)
       .values(batches.fiftyFifties)
       .onConflictDoNothing();
     batches.fiftyFifties.length = 0;
   }
   if (batches.fouls.length > 0) {
-    await db.insert(fouls).values(batches.fouls).onConflictDoNothing();
+    await executor.insert(fouls).values(batches.fouls).onConflictDoNothing();
     batches.fouls.length = 0;
   }
   if (batches.badBehaviours.length > 0) {
-    await db
+    await executor
       .insert(badBehaviours)
       .values(batches.badBehaviours)
       .onConflictDoNothing();
     batches.badBehaviours.length = 0;
   }
   if (batches.goalkeepers.length > 0) {
-    await db
+    await executor
       .insert(goalkeeperEvents)
       .values(batches.goalkeepers)
       .onConflictDoNothing();
@@ -573,17 +647,25 @@ async function flushSubtypeBatches(batches: any) {
 // Event Relationships Loading
 // ============================================================================
 
-async function loadEventRelationships(files: string[]) {
+/**
+ * Phase 3: event relationships
+ */
+export async function loadEventRelationships(
+  checkpoint: FileCheckpoint = noCheckpoint,
+  executor: DbExecutor = db
+) {
+  const files = pendingEventFiles(checkpoint);
+
   let relationshipBatch: any[] = [];
   let totalRelationships = 0;
   let filesProcessed = 0;
+  let unflushedFiles: string[] = [];
 
   for (const filePath of files) {
-    const eventsJson: EventJson[] = JSON.parse(
-      fs.readFileSync(filePath, "utf-8")
-    );
-
-    for (const event of eventsJson) {
+    for await (const event of streamJsonArray<EventJson>(filePath, {
+      requiredKeys: EVENT_KEYS,
+      onDrop: () => {}, // loadCoreEvents already logged the drops
+    })) {
       if (event.related_events && event.related_events.length > 0) {
         for (const relatedId of event.related_events) {
           relationshipBatch.push({
@@ -594,12 +676,14 @@ async function loadEventRelationships(files: string[]) {
       }
 
       if (relationshipBatch.length >= RELATIONSHIP_BATCH_SIZE) {
-        await db
+        await executor
           .insert(eventRelationships)
           .values(relationshipBatch)
           .onConflictDoNothing();
         totalRelationships += relationshipBatch.length;
         relationshipBatch = [];
+        await checkpoint.markDone(unflushedFiles);
+        unflushedFiles = [];
 
         if (totalRelationships % 100000 === 0) {
           console.log(
@@ -609,17 +693,19 @@ async function loadEventRelationships(files: string[]) {
       }
     }
 
+    unflushedFiles.push(filePath);
     filesProcessed++;
   }
 
   // Insert remaining
   if (relationshipBatch.length > 0) {
-    await db
+    await executor
       .insert(eventRelationships)
       .values(relationshipBatch)
       .onConflictDoNothing();
     totalRelationships += relationshipBatch.length;
   }
+  await checkpoint.markDone(unflushedFiles);
 
   console.log();
   console.log(
@@ -682,12 +768,18 @@ async function verifyEventsData() {
 // Run ETL
 // ============================================================================
 
-loadEventsETL()
-  .then(() => {
-    console.log("\n✅ Events ETL finished successfully");
-    process.exit(0);
-  })
-  .catch((err) => {
-    console.error("\n❌ ETL failed:", err);
-    process.exit(1);
-  });
+const isMainModule =
+  (process.argv[1] && process.argv[1].endsWith("load-events.ts")) ||
+  (process.argv[1] && process.argv[1].endsWith("load-events.js"));
+
+if (isMainModule) {
+  loadEventsETL()
+    .then(() => {
+      console.log("\n✅ Events ETL finished successfully");
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error("\n❌ ETL failed:", err);
+      process.exit(1);
+    });
+}
@@ -1,8 +1,8 @@
 import fs from "fs";
 import path from "path";
-import { sql } from "drizzle-orm";
+import { inArray, sql } from "drizzle-orm";
 import { env } from "../../env.ts";
-import { db } from "../db/index.ts";
+import { db, type DbExecutor } from "../db/index.ts";
 import {
   players,
   playerLineups,
@@ -10,6 +10,7 @@ import {
   playerCards,
   countries,
 } from "../db/index.ts";
+import { noCheckpoint, type FileCheckpoint } from "./checkpoint.ts";
 
 /**
  * LINEUPS ETL
@@ -26,6 +27,10 @@ import {
  * CRITICAL: match_id is extracted from filename!
  * Example: "15946.json" → match_id = 15946
  *
+ * Steps 4-6 replace each batch's positions and cards (they have no natural
+ * key), so a batch interrupted by a crash can be re-run; with a checkpoint
+ * only files not yet loaded are processed.
+ *
  * Source: starting_over/04_LINEUPS_03_DATABASE.md
  */
 
@@ -141,7 +146,10 @@ function loadLineupBatch(
 // MAIN ETL FUNCTION
 // ============================================================================
 
-async function loadLineupsETL() {
+export async function loadLineupsETL(
+  checkpoint: FileCheckpoint = noCheckpoint,
+  executor: DbExecutor = db
+) {
   console.log("🏁 Starting Lineups ETL...\n");
 
   // ========================================================================
@@ -164,6 +172,15 @@ async function loadLineupsETL() {
 
   console.log(`   Found ${allFiles.length} lineup files\n`);
 
+  const pendingFiles = checkpoint.remaining(allFiles);
+  if (pendingFiles.length < allFiles.length) {
+    console.log(
+      `   ⏭️  Skipping ${
+        allFiles.length - pendingFiles.length
+      } files (already loaded or not selected)\n`
+    );
+  }
+
   const FILE_BATCH_SIZE = 100; // Process 100 files at a time
   const playersMap = new Map<
     number,
@@ -174,8 +191,8 @@ async function loadLineupsETL() {
   // First pass: extract unique players and countries (lightweight)
   console.log("   Extracting unique players and countries...\n");
 
-  for (let i = 0; i < allFiles.length; i += FILE_BATCH_SIZE) {
-    const fileBatch = allFiles.slice(i, i + FILE_BATCH_SIZE);
+  for (let i = 0; i < pendingFiles.length; i += FILE_BATCH_SIZE) {
+    const fileBatch = pendingFiles.slice(i, i + FILE_BATCH_SIZE);
     const batchMap = loadLineupBatch(lineupsDir, fileBatch);
 
     for (const { teams } of batchMap.values()) {
@@ -196,11 +213,11 @@ async function loadLineupsETL() {
 
     if (
       (i + FILE_BATCH_SIZE) % 500 === 0 ||
-      i + FILE_BATCH_SIZE >= allFiles.length
+      i + FILE_BATCH_SIZE >= pendingFiles.length
     ) {
       console.log(
-        `   ✓ Scanned ${Math.min(i + FILE_BATCH_SIZE, allFiles.length)}/${
-          allFiles.length
+        `   ✓ Scanned ${Math.min(i + FILE_BATCH_SIZE, pendingFiles.length)}/${
+          pendingFiles.length
         } files (${playersMap.size} unique players)...`
       );
     }
@@ -220,7 +237,7 @@ async function loadLineupsETL() {
 
   for (let i = 0; i < playersArray.length; i += BATCH_SIZE) {
     const batch = playersArray.slice(i, i + BATCH_SIZE);
-    await db.insert(players).values(batch).onConflictDoNothing();
+    await executor.insert(players).values(batch).onConflictDoNothing();
 
     console.log(
       `   ✓ Inserted players ${i + 1} to ${Math.min(
@@ -239,7 +256,7 @@ async function loadLineupsETL() {
   console.log("═".repeat(70));
   console.log("\n🌍 Step 3: Ensuring all countries exist...\n");
 
-  const existingCountryRecords = await db
+  const existingCountryRecords = await executor
     .select({ id: countries.id, name: countries.name })
     .from(countries);
 
@@ -274,9 +291,12 @@ async function loadLineupsETL() {
       console.log(`      ... and ${missingCountries.length - 10} more`);
     }
 
-    await db.insert(countries).values(missingCountries).onConflictDoNothing();
+    await executor
+      .insert(countries)
+      .values(missingCountries)
+      .onConflictDoNothing();
 
-    const updatedCountryRecords = await db
+    const updatedCountryRecords = await executor
       .select({ id: countries.id, name: countries.name })
       .from(countries);
 
@@ -301,8 +321,8 @@ async function loadLineupsETL() {
   let totalCardsInserted = 0;
 
   // Second pass: process files in batches and insert data
-  for (let i = 0; i < allFiles.length; i += FILE_BATCH_SIZE) {
-    const fileBatch = allFiles.slice(i, i + FILE_BATCH_SIZE);
+  for (let i = 0; i < pendingFiles.length; i += FILE_BATCH_SIZE) {
+    const fileBatch = pendingFiles.slice(i, i + FILE_BATCH_SIZE);
     const batchMap = loadLineupBatch(lineupsDir, fileBatch);
 
     const batchLineups: any[] = [];
@@ -364,16 +384,33 @@ async function loadLineupsETL() {
     if (batchLineups.length > 0) {
       for (let j = 0; j < batchLineups.length; j += BATCH_SIZE) {
         const batch = batchLineups.slice(j, j + BATCH_SIZE);
-        await db.insert(playerLineups).values(batch).onConflictDoNothing();
+        await executor
+          .insert(playerLineups)
+          .values(batch)
+          .onConflictDoNothing();
       }
       totalLineupsInserted += batchLineups.length;
     }
 
+    // Replace positions and cards from an interrupted attempt
+    const batchMatchIds = Array.from(batchMap.keys());
+    if (batchMatchIds.length > 0) {
+      await executor
+        .delete(playerPositions)
+        .where(inArray(playerPositions.matchId, batchMatchIds));
+      await executor
+        .delete(playerCards)
+        .where(inArray(playerCards.matchId, batchMatchIds));
+    }
+
     // Insert batch positions
     if (batchPositions.length > 0) {
       for (let j = 0; j < batchPositions.length; j += BATCH_SIZE) {
         const batch = batchPositions.slice(j, j + BATCH_SIZE);
-        await db.insert(playerPositions).values(batch).onConflictDoNothing();
+        await executor
+          .insert(playerPositions)
+          .values(batch)
+          .onConflictDoNothing();
       }
       totalPositionsInserted += batchPositions.length;
     }
@@ -382,19 +419,21 @@ async function loadLineupsETL() {
     if (batchCards.length > 0) {
       for (let j = 0; j < batchCards.length; j += BATCH_SIZE) {
         const batch = batchCards.slice(j, j + BATCH_SIZE);
-        await db.insert(playerCards).values(batch).onConflictDoNothing();
+        await executor.insert(playerCards).values(batch).onConflictDoNothing();
       }
       totalCardsInserted += batchCards.length;
     }
 
+    await checkpoint.markDone(fileBatch);
+
     // Progress update
     if (
       (i + FILE_BATCH_SIZE) % 500 === 0 ||
-      i + FILE_BATCH_SIZE >= allFiles.length
+      i + FILE_BATCH_SIZE >= pendingFiles.length
     ) {
       console.log(
-        `   ✓ Processed ${Math.min(i + FILE_BATCH_SIZE, allFiles.length)}/${
-          allFiles.length
+        `   ✓ Processed ${Math.min(i + FILE_BATCH_SIZE, pendingFiles.length)}/${
+          pendingFiles.length
         } files (${totalLineupsInserted} lineups, ${totalPositionsInserted} positions, ${totalCardsInserted} cards)...`
       );
     }
@@ -417,10 +456,12 @@ async function loadLineupsETL() {
     playerPositionsCount,
     playerCardsCount,
   ] = await Promise.all([
-    db.select({ count: sql<number>`count(*)::int` }).from(players),
-    db.select({ count: sql<number>`count(*)::int` }).from(playerLineups),
-    db.select({ count: sql<number>`count(*)::int` }).from(playerPositions),
-    db.select({ count: sql<number>`count(*)::int` }).from(playerCards),
+    executor.select({ count: sql<number>`count(*)::int` }).from(players),
+    executor.select({ count: sql<number>`count(*)::int` }).from(playerLineups),
+    executor
+      .select({ count: sql<number>`count(*)::int` })
+      .from(playerPositions),
+    executor.select({ count: sql<number>`count(*)::int` }).from(playerCards),
   ]);
 
   console.log("   📊 Final Counts:\n");
@@ -440,12 +481,18 @@ async function loadLineupsETL() {
 // RUN ETL
 // ============================================================================
 
-loadLineupsETL()
-  .then(() => {
-    console.log("✅ ETL completed successfully\n");
-    process.exit(0);
-  })
-  .catch((error) => {
-    console.error("❌ ETL failed:", error);
-    process.exit(1);
-  });
+const isMainModule =
+  (process.argv[1] && process.argv[1].endsWith("load-lineups.ts")) ||
+  (process.argv[1] && process.argv[1].endsWith("load-lineups.js"));
+
+if (isMainModule) {
+  loadLineupsETL()
+    .then(() => {
+      console.log("✅ ETL completed successfully\n");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("❌ ETL failed:", error);
+      process.exit(1);
+    });
+}
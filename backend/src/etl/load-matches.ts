@@ -39,7 +39,7 @@ import {
 // TYPESCRIPT INTERFACES
 // ============================================================================
 
-interface MatchJSON {
+export interface MatchJSON {
   match_id: number;
   match_date: string;
   kick_off: string | null;
@@ -136,8 +136,10 @@ function parseDateSafely(dateStr: string | null | undefined): Date | null {
 /**
  * Load all match JSON files from matches directory
  * Structure: matches/{competition_id}/{season_id}.json
+ *
+ * seasonKeys ("{competition_id}-{season_id}") limits which files are read
  */
-function loadAllMatches(): MatchJSON[] {
+export function loadAllMatches(seasonKeys?: Set<string>): MatchJSON[] {
   const allMatches: MatchJSON[] = [];
   const matchesDir = path.join(env.DATA_PATH, "matches");
 
@@ -156,6 +158,9 @@ function loadAllMatches(): MatchJSON[] {
       .filter((f) => f.endsWith(".json"));
 
     for (const seasonFile of seasonFiles) {
+      const seasonKey = `${compDir}-${path.basename(seasonFile, ".json")}`;
+      if (seasonKeys && !seasonKeys.has(seasonKey)) continue;
+
       const filePath = path.join(compPath, seasonFile);
       const matchesArray: MatchJSON[] = JSON.parse(
         fs.readFileSync(filePath, "utf-8")
@@ -173,11 +178,58 @@ function loadAllMatches(): MatchJSON[] {
   return allMatches;
 }
 
+/**
+ * matches row for a match from the match files
+ */
+export function toMatchRecord(match: MatchJSON) {
+  return {
+    matchId: match.match_id,
+    competitionId: match.competition.competition_id,
+    seasonId: match.season.season_id,
+    matchDate: match.match_date,
+    kickOff: match.kick_off,
+
+    homeTeamId: match.home_team.home_team_id!,
+    awayTeamId: match.away_team.away_team_id!,
+    homeScore: match.home_score,
+    awayScore: match.away_score,
+
+    homeTeamGroup: match.home_team.home_team_group || null,
+    awayTeamGroup: match.away_team.away_team_group || null,
+
+    matchWeek: match.match_week || null,
+    competitionStageId: match.competition_stage?.id || null,
+
+    stadiumId: match.stadium?.id || null,
+    refereeId: match.referee?.id || null,
+
+    matchStatus: match.match_status,
+    matchStatus360: match.match_status_360,
+
+    lastUpdated: parseDateSafely(match.last_updated)!,
+    lastUpdated360: parseDateSafely(match.last_updated_360),
+
+    dataVersion: match.metadata?.data_version || null,
+    shotFidelityVersion: match.metadata?.shot_fidelity_version || null,
+    xyFidelityVersion: match.metadata?.xy_fidelity_version || null,
+
+    // CRITICAL: Store complete original JSON for zero data loss
+    rawJson: match,
+  };
+}
+
 // ============================================================================
 // MAIN ETL FUNCTION
 // ============================================================================
 
-async function loadMatchesETL() {
+/**
+ * pendingMatchIds: matches inserted without last_updated / last_updated_360,
+ * for a caller that sets them once the match's data is loaded
+ */
+export async function loadMatchesETL(
+  seasonKeys?: Set<string>,
+  pendingMatchIds: Set<number> = new Set()
+) {
   console.log("🏁 Starting Matches ETL...\n");
   console.log("═".repeat(70));
   console.log();
@@ -188,7 +240,7 @@ async function loadMatchesETL() {
     // ========================================================================
     console.log("📂 Step 1: Loading all match files...\n");
 
-    const allMatches = loadAllMatches();
+    const allMatches = loadAllMatches(seasonKeys);
 
     console.log();
     console.log(`✅ Loaded ${allMatches.length} total matches\n`);
@@ -624,40 +676,11 @@ async function loadMatchesETL() {
     console.log("═".repeat(70));
     console.log("\n⚽ Step 10: Loading matches...\n");
 
-    const matchRecords = allMatches.map((match) => ({
-      matchId: match.match_id,
-      competitionId: match.competition.competition_id,
-      seasonId: match.season.season_id,
-      matchDate: match.match_date,
-      kickOff: match.kick_off,
-
-      homeTeamId: match.home_team.home_team_id!,
-      awayTeamId: match.away_team.away_team_id!,
-      homeScore: match.home_score,
-      awayScore: match.away_score,
-
-      homeTeamGroup: match.home_team.home_team_group || null,
-      awayTeamGroup: match.away_team.away_team_group || null,
-
-      matchWeek: match.match_week || null,
-      competitionStageId: match.competition_stage?.id || null,
-
-      stadiumId: match.stadium?.id || null,
-      refereeId: match.referee?.id || null,
-
-      matchStatus: match.match_status,
-      matchStatus360: match.match_status_360,
-
-      lastUpdated: parseDateSafely(match.last_updated)!,
-      lastUpdated360: parseDateSafely(match.last_updated_360),
-
-      dataVersion: match.metadata?.data_version || null,
-      shotFidelityVersion: match.metadata?.shot_fidelity_version || null,
-      xyFidelityVersion: match.metadata?.xy_fidelity_version || null,
-
-      // CRITICAL: Store complete original JSON for zero data loss
-      rawJson: match,
-    }));
+    const matchRecords = allMatches.map((match) =>
+      pendingMatchIds.has(match.match_id)
+        ? { ...toMatchRecord(match), lastUpdated: null, lastUpdated360: null }
+        : toMatchRecord(match)
+    );
 
     console.log(`   Inserting ${matchRecords.length} matches in batches...\n`);
 
@@ -803,11 +826,17 @@ async function loadMatchesETL() {
 // RUN ETL
 // ============================================================================
 
-loadMatchesETL()
-  .catch((error) => {
-    console.error("Fatal error:", error);
-    process.exit(1);
-  })
-  .finally(() => {
-    process.exit(0);
-  });
+const isMainModule =
+  (process.argv[1] && process.argv[1].endsWith("load-matches.ts")) ||
+  (process.argv[1] && process.argv[1].endsWith("load-matches.js"));
+
+if (isMainModule) {
+  loadMatchesETL()
+    .catch((error) => {
+      console.error("Fatal error:", error);
+      process.exit(1);
+    })
+    .finally(() => {
+      process.exit(0);
+    });
+}
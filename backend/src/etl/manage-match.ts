@@ -0,0 +1,70 @@
+import { purgeMatch, reloadMatch } from "./match-data.ts";
+
+/**
+ * SINGLE MATCH RELOAD / DELETE
+ *
+ * reload: replaces the match's lineups, positions, cards, events (with
+ * subtypes and relationships) and 360 frames with the current source
+ * files, then rebuilds its match stats and its players' totals. Use it
+ * after correcting a match's files: the regular loaders skip rows that
+ * already exist, so they never replace bad data.
+ *
+ * delete: removes the match and everything loaded for it, then refreshes
+ * its players' totals.
+ *
+ * Each command runs in one transaction; on failure nothing changes.
+ *
+ * Usage:
+ *   npm run etl:match -- reload 3788741
+ *   npm run etl:match -- delete 3788741
+ *
+ * The same operations are available as POST /api/admin/matches/:id/reload
+ * and DELETE /api/admin/matches/:id.
+ */
+
+export async function manageMatch(command: string, matchId: number) {
+  if (isNaN(matchId) || matchId <= 0) {
+    throw new Error("Usage: etl:match -- <reload|delete> <match id>");
+  }
+
+  if (command === "reload") {
+    console.log(`🔄 Reloading match ${matchId}...\n`);
+
+    const result = await reloadMatch(matchId);
+    if (!result) {
+      throw new Error(`Match ${matchId} not found`);
+    }
+
+    console.log("═".repeat(70));
+    console.log(`\n✅ Reloaded match ${matchId}:\n`);
+    console.log(`   Lineups:    ${result.lineups}`);
+    console.log(`   Events:     ${result.events}`);
+    console.log(`   360 frames: ${result.threeSixtyFrames}\n`);
+  } else if (command === "delete") {
+    console.log(`🗑️  Deleting match ${matchId}...\n`);
+
+    if (!(await purgeMatch(matchId))) {
+      throw new Error(`Match ${matchId} not found`);
+    }
+
+    console.log(`✅ Deleted match ${matchId}\n`);
+  } else {
+    throw new Error("Usage: etl:match -- <reload|delete> <match id>");
+  }
+}
+
+// Run if executed directly
+const isMainModule =
+  (process.argv[1] && process.argv[1].endsWith("manage-match.ts")) ||
+  (process.argv[1] && process.argv[1].endsWith("manage-match.js"));
+
+if (isMainModule) {
+  const [command, matchId] = process.argv.slice(2);
+
+  manageMatch(command, parseInt(matchId))
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error("❌", err instanceof Error ? err.message : err);
+      process.exit(1);
+    });
+}
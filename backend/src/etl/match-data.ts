@@ -0,0 +1,252 @@
+import fs from "fs";
+import path from "path";
+import { eq, inArray, sql } from "drizzle-orm";
+import { env } from "../../env.ts";
+import { db, type DbExecutor } from "../db/index.ts";
+import {
+  matches,
+  events,
+  players,
+  playerLineups,
+  playerPositions,
+  playerCards,
+  threeSixtyFrames,
+  playerMatchStats,
+  teamMatchStats,
+} from "../db/index.ts";
+import { onlyFiles } from "./checkpoint.ts";
+import { loadLineupsETL } from "./load-lineups.ts";
+import {
+  loadCoreEvents,
+  loadSubtypeTables,
+  loadEventRelationships,
+} from "./load-events.ts";
+import { load360ETL } from "./load-360.ts";
+import { aggregateMatchStats } from "./aggregate-match-stats.ts";
+import {
+  aggregatePlayerStats,
+  lockPlayerStats,
+} from "./aggregate-player-stats.ts";
+
+/**
+ * PER-MATCH DATA
+ *
+ * Removes what the lineups, events and 360 loaders stored for a set of
+ * matches, so those matches can be loaded again from newer files (the
+ * loaders skip rows that already exist). Subtype tables, event
+ * relationships and 360 player positions cascade from their parent rows.
+ *
+ * clearMatchData() leaves player_match_stats / team_match_stats alone:
+ * rebuild them with aggregateMatchStats(matchIds) afterwards, which also
+ * marks the affected players for the incremental player stats refresh.
+ * reloadMatch() and purgeMatch() do all of it for one match in a single
+ * transaction, so a failure leaves the match as it was.
+ */
+
+export interface MatchDataScope {
+  lineups?: boolean; // player_lineups, player_positions, player_cards
+  events?: boolean; // events + subtypes + relationships
+  threeSixty?: boolean; // three_sixty_frames + three_sixty_players
+}
+
+export interface MatchReloadResult {
+  matchId: number;
+  lineups: number;
+  events: number;
+  threeSixtyFrames: number;
+}
+
+/**
+ * A match's source files are missing or load nothing, so it can't be reloaded
+ */
+export class MatchSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MatchSourceError";
+  }
+}
+
+const ALL_MATCH_DATA: MatchDataScope = {
+  lineups: true,
+  events: true,
+  threeSixty: true,
+};
+
+export async function clearMatchData(
+  matchIds: number[],
+  scope: MatchDataScope,
+  executor: DbExecutor = db
+) {
+  if (matchIds.length === 0) return;
+
+  await executor.transaction(async (tx) => {
+    if (scope.events) {
+      await tx.delete(events).where(inArray(events.matchId, matchIds));
+    }
+    if (scope.lineups) {
+      await tx
+        .delete(playerPositions)
+        .where(inArray(playerPositions.matchId, matchIds));
+      await tx
+        .delete(playerCards)
+        .where(inArray(playerCards.matchId, matchIds));
+      await tx
+        .delete(playerLineups)
+        .where(inArray(playerLineups.matchId, matchIds));
+    }
+    if (scope.threeSixty) {
+      await tx
+        .delete(threeSixtyFrames)
+        .where(inArray(threeSixtyFrames.matchId, matchIds));
+    }
+  });
+}
+
+async function matchExists(executor: DbExecutor, matchId: number) {
+  const [match] = await executor
+    .select({ matchId: matches.matchId })
+    .from(matches)
+    .where(eq(matches.matchId, matchId));
+
+  return match !== undefined;
+}
+
+async function countRows(
+  executor: DbExecutor,
+  table: typeof events | typeof playerLineups | typeof threeSixtyFrames,
+  matchId: number
+) {
+  const [row] = await executor
+    .select({ count: sql<number>`count(*)::int` })
+    .from(table)
+    .where(eq(table.matchId, matchId));
+
+  return row.count;
+}
+
+export interface MatchReloadOptions {
+  scope?: MatchDataScope; // Default: lineups, events and 360 frames
+  // Written to the match row last, so the match only counts as up to date
+  // once its data is in (used by the match sync)
+  timestamps?: { lastUpdated: Date | null; lastUpdated360: Date | null };
+}
+
+/**
+ * Replace a match's lineups, events and 360 frames with the current source
+ * files, then rebuild its match stats and the affected players' totals.
+ * Returns null when the match is not in the database; throws a
+ * MatchSourceError when its files are missing or unreadable.
+ */
+export async function reloadMatch(
+  matchId: number,
+  options: MatchReloadOptions = {}
+): Promise<MatchReloadResult | null> {
+  const scope = options.scope ?? ALL_MATCH_DATA;
+  const dataPath = path.join(
+    process.cwd(),
+    env.DATA_PATH || "./football-open/data"
+  );
+  const fileName = `${matchId}.json`;
+
+  return db.transaction(async (tx) => {
+    if (!(await matchExists(tx, matchId))) return null;
+
+    const requiredDirs = [
+      ...(scope.lineups ? ["lineups"] : []),
+      ...(scope.events ? ["events"] : []),
+    ];
+    for (const dir of requiredDirs) {
+      if (!fs.existsSync(path.join(dataPath, dir, fileName))) {
+        throw new MatchSourceError(`No ${dir} file for match ${matchId}`);
+      }
+    }
+
+    await clearMatchData([matchId], scope, tx);
+
+    const matchFile = onlyFiles([fileName]);
+    if (scope.lineups) {
+      await loadLineupsETL(matchFile, tx);
+    }
+    if (scope.events) {
+      await loadCoreEvents(matchFile, tx);
+      await loadSubtypeTables(matchFile, tx);
+      await loadEventRelationships(matchFile, tx);
+    }
+    if (scope.threeSixty) {
+      await load360ETL(matchFile, tx);
+    }
+
+    const result: MatchReloadResult = {
+      matchId,
+      lineups: await countRows(tx, playerLineups, matchId),
+      events: await countRows(tx, events, matchId),
+      threeSixtyFrames: await countRows(tx, threeSixtyFrames, matchId),
+    };
+
+    // The lineups loader skips unreadable files instead of failing
+    if (
+      (scope.lineups && result.lineups === 0) ||
+      (scope.events && result.events === 0)
+    ) {
+      throw new MatchSourceError(
+        `Source files for match ${matchId} loaded no rows`
+      );
+    }
+
+    // Match stats come from lineups and events only
+    if (scope.lineups || scope.events) {
+      await aggregateMatchStats([matchId], tx);
+      await aggregatePlayerStats({}, tx);
+    }
+
+    if (options.timestamps) {
+      await tx
+        .update(matches)
+        .set(options.timestamps)
+        .where(eq(matches.matchId, matchId));
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Delete a match and everything loaded for it, then refresh the totals of
+ * its players. Returns false when the match is not in the database.
+ *
+ * The files are not touched: npm run etl:matches restores the match row,
+ * after which reloadMatch() loads the rest.
+ */
+export async function purgeMatch(matchId: number) {
+  return db.transaction(async (tx) => {
+    if (!(await matchExists(tx, matchId))) return false;
+
+    await clearMatchData([matchId], ALL_MATCH_DATA, tx);
+
+    // Mark the players losing this match for the player stats refresh
+    await lockPlayerStats(tx);
+    await tx
+      .update(players)
+      .set({ updatedAt: sql`clock_timestamp()` })
+      .where(
+        inArray(
+          players.playerId,
+          tx
+            .select({ playerId: playerMatchStats.playerId })
+            .from(playerMatchStats)
+            .where(eq(playerMatchStats.matchId, matchId))
+        )
+      );
+
+    await tx
+      .delete(playerMatchStats)
+      .where(eq(playerMatchStats.matchId, matchId));
+    await tx.delete(teamMatchStats).where(eq(teamMatchStats.matchId, matchId));
+    // match_managers cascade
+    await tx.delete(matches).where(eq(matches.matchId, matchId));
+
+    await aggregatePlayerStats({}, tx);
+
+    return true;
+  });
+}
@@ -0,0 +1,209 @@
+import { desc, eq, sql } from "drizzle-orm";
+import { db, etlRuns, etlFiles } from "../db/index.ts";
+import { createFileCheckpoint, type FileCheckpoint } from "./checkpoint.ts";
+import { loadMatchesETL } from "./load-matches.ts";
+import { loadCompetitions } from "./load-competitions.ts";
+import { loadLineupsETL } from "./load-lineups.ts";
+import { load360ETL } from "./load-360.ts";
+import {
+  loadCoreEvents,
+  loadSubtypeTables,
+  loadEventRelationships,
+} from "./load-events.ts";
+import { aggregateMatchStats } from "./aggregate-match-stats.ts";
+import { aggregatePlayerStats } from "./aggregate-player-stats.ts";
+import { clusterPlayerRoles } from "./cluster-player-roles.ts";
+
+/**
+ * ETL ORCHESTRATOR
+ *
+ * Runs every load and aggregation step as a dependency graph of stages.
+ * Each stage attempt is recorded in etl_runs and each fully loaded source
+ * file in etl_files, so after a crash the next run:
+ * - skips stages whose latest attempt completed
+ * - resumes the interrupted stage, skipping its checkpointed files
+ * - re-runs a stage whose dependencies ran again
+ *
+ * Usage:
+ *   npm run etl:run                          # Start or resume a full load
+ *   npm run etl:run -- events match-stats    # Re-run these stages (plus unfinished dependencies)
+ *   npm run etl:run -- --fresh               # Ignore earlier runs and start over
+ *
+ * Run db:init (migrations + lookup seeds) first.
+ */
+
+interface EtlStage {
+  name: string;
+  dependsOn: string[];
+  run: (checkpoint: FileCheckpoint) => Promise<void>;
+}
+
+const ETL_STAGES: EtlStage[] = [
+  { name: "matches", dependsOn: [], run: () => loadMatchesETL() },
+  // Adds the competitions and regions missing from the match files
+  {
+    name: "competitions",
+    dependsOn: ["matches"],
+    run: () => loadCompetitions(),
+  },
+  { name: "lineups", dependsOn: ["matches"], run: loadLineupsETL },
+  { name: "360", dependsOn: ["matches"], run: load360ETL },
+  { name: "events", dependsOn: ["lineups"], run: loadCoreEvents },
+  { name: "event-subtypes", dependsOn: ["events"], run: loadSubtypeTables },
+  {
+    name: "event-relationships",
+    dependsOn: ["events"],
+    run: loadEventRelationships,
+  },
+  {
+    name: "match-stats",
+    dependsOn: ["event-subtypes"],
+    run: () => aggregateMatchStats(),
+  },
+  {
+    name: "player-stats",
+    dependsOn: ["match-stats"],
+    run: () => aggregatePlayerStats({ full: true }),
+  },
+  {
+    name: "player-roles",
+    dependsOn: ["event-subtypes"],
+    run: () => clusterPlayerRoles(),
+  },
+];
+
+/**
+ * Target stages and everything they depend on, dependencies first
+ */
+function orderStages(stages: EtlStage[], targets: string[]) {
+  const byName = new Map(stages.map((stage) => [stage.name, stage]));
+  const ordered: EtlStage[] = [];
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+
+  function visit(name: string) {
+    const stage = byName.get(name);
+    if (!stage) {
+      throw new Error(`Unknown ETL stage: ${name}`);
+    }
+    if (visited.has(name)) return;
+    if (visiting.has(name)) {
+      throw new Error(`Circular ETL stage dependency at: ${name}`);
+    }
+
+    visiting.add(name);
+    stage.dependsOn.forEach(visit);
+    visiting.delete(name);
+    visited.add(name);
+    ordered.push(stage);
+  }
+
+  targets.forEach(visit);
+  return ordered;
+}
+
+async function latestRun(stage: string) {
+  const [run] = await db
+    .select({ status: etlRuns.status })
+    .from(etlRuns)
+    .where(eq(etlRuns.stage, stage))
+    .orderBy(desc(etlRuns.startedAt), desc(etlRuns.id))
+    .limit(1);
+
+  return run;
+}
+
+export async function runEtl(
+  options: { stages?: string[]; fresh?: boolean } = {}
+) {
+  const targets = options.stages?.length
+    ? options.stages
+    : ETL_STAGES.map((stage) => stage.name);
+  const ordered = orderStages(ETL_STAGES, targets);
+  const ranThisTime = new Set<string>();
+  const startedAt = Date.now();
+
+  console.log("🏁 Starting ETL run...\n");
+  console.log(`   Stages: ${ordered.map((stage) => stage.name).join(" → ")}\n`);
+
+  for (const stage of ordered) {
+    const last = await latestRun(stage.name);
+    const mustRun =
+      options.fresh ||
+      options.stages?.includes(stage.name) ||
+      stage.dependsOn.some((dep) => ranThisTime.has(dep));
+
+    if (!mustRun && last?.status === "completed") {
+      console.log(`⏭️  ${stage.name}: already completed\n`);
+      continue;
+    }
+
+    // Continue an interrupted attempt; otherwise start the stage over
+    const resuming = !mustRun && last !== undefined;
+    if (!resuming) {
+      await db.delete(etlFiles).where(eq(etlFiles.stage, stage.name));
+    }
+
+    console.log("═".repeat(70));
+    console.log(`\n▶️  ${stage.name}${resuming ? " (resuming)" : ""}\n`);
+
+    const [run] = await db
+      .insert(etlRuns)
+      .values({ stage: stage.name })
+      .returning({ id: etlRuns.id });
+    const checkpoint = await createFileCheckpoint(stage.name, run.id);
+
+    try {
+      await stage.run(checkpoint);
+    } catch (error) {
+      await db
+        .update(etlRuns)
+        .set({
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+          filesProcessed: checkpoint.filesProcessed(),
+          finishedAt: sql`NOW()`,
+        })
+        .where(eq(etlRuns.id, run.id));
+
+      console.error(`\n❌ Stage ${stage.name} failed; re-run to resume`);
+      throw error;
+    }
+
+    await db
+      .update(etlRuns)
+      .set({
+        status: "completed",
+        filesProcessed: checkpoint.filesProcessed(),
+        finishedAt: sql`NOW()`,
+      })
+      .where(eq(etlRuns.id, run.id));
+
+    ranThisTime.add(stage.name);
+  }
+
+  const minutes = ((Date.now() - startedAt) / 60000).toFixed(1);
+  console.log("═".repeat(70));
+  console.log(
+    `\n🎉 ETL run complete: ${ranThisTime.size} stages ran in ${minutes} min\n`
+  );
+}
+
+// Run if executed directly
+const isMainModule =
+  (process.argv[1] && process.argv[1].endsWith("run-etl.ts")) ||
+  (process.argv[1] && process.argv[1].endsWith("run-etl.js"));
+
+if (isMainModule) {
+  const args = process.argv.slice(2);
+
+  runEtl({
+    stages: args.filter((arg) => !arg.startsWith("--")),
+    fresh: args.includes("--fresh"),
+  })
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error(err);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,312 @@
+import fs from "fs";
+import { and, eq, inArray } from "drizzle-orm";
+import { db, matches, matchManagers, seasons } from "../db/index.ts";
+import { reloadMatch, type MatchDataScope } from "./match-data.ts";
+import {
+  loadAllMatches,
+  loadMatchesETL,
+  toMatchRecord,
+  type MatchJSON,
+} from "./load-matches.ts";
+import {
+  loadCompetitions,
+  readCompetitionSeasons,
+} from "./load-competitions.ts";
+
+/**
+ * INCREMENTAL MATCH SYNC
+ *
+ * Brings an existing database up to date with a newer football-open/data
+ * checkout, without a full reload:
+ * 1. competitions.json match_updated / match_updated_360 vs seasons →
+ *    competition-seasons whose match files need reading
+ * 2. each match's last_updated / last_updated_360 vs matches →
+ *    new matches, updated matches, matches with updated 360 data
+ * 3. reload lineups, events and 360 frames for just those matches, then
+ *    rebuild their match stats and the affected players' totals
+ *
+ * Each match is reloaded in its own transaction, which also sets its
+ * last_updated / last_updated_360. New matches are inserted without them,
+ * so a sync that stops halfway picks the unfinished matches up again.
+ *
+ * Matches in the database but no longer in the files are reported, not
+ * deleted.
+ *
+ * Usage:
+ *   npm run etl:sync                       # Sync and print the change report
+ *   npm run etl:sync -- --dry-run          # Only print the change report
+ *   npm run etl:sync -- --report out.json  # Also write the report as JSON
+ */
+
+interface MatchChange {
+  matchId: number;
+  competition: string;
+  season: string;
+  fixture: string; // "Home vs Away"
+  lastUpdated: string;
+}
+
+export interface SyncReport {
+  seasonsChecked: number;
+  seasonsChanged: string[]; // "{competition_id}-{season_id}"
+  newMatches: MatchChange[];
+  updatedMatches: MatchChange[];
+  updated360: MatchChange[]; // Only the 360 data changed
+  missingMatches: number[]; // In the database, not in the files
+}
+
+function isNewer(fileValue: string | null, dbValue: Date | null) {
+  if (!fileValue) return false;
+  return !dbValue || new Date(fileValue).getTime() > dbValue.getTime();
+}
+
+function toChange(match: MatchJSON): MatchChange {
+  return {
+    matchId: match.match_id,
+    competition: match.competition.competition_name,
+    season: match.season.season_name,
+    fixture: `${match.home_team.home_team_name} vs ${match.away_team.away_team_name}`,
+    lastUpdated: match.last_updated,
+  };
+}
+
+/**
+ * Compare the data checkout with the database (read-only)
+ */
+async function detectChanges() {
+  const competitionSeasons = readCompetitionSeasons();
+
+  const dbSeasons = await db
+    .select({
+      competitionId: seasons.competitionId,
+      seasonId: seasons.seasonId,
+      matchUpdated: seasons.matchUpdated,
+      matchUpdated360: seasons.matchUpdated360,
+    })
+    .from(seasons);
+  const dbSeasonByKey = new Map(
+    dbSeasons.map((s) => [`${s.competitionId}-${s.seasonId}`, s])
+  );
+
+  const seasonsChanged = competitionSeasons
+    .filter((item) => {
+      const dbSeason = dbSeasonByKey.get(
+        `${item.competition_id}-${item.season_id}`
+      );
+      return (
+        !dbSeason ||
+        isNewer(item.match_updated, dbSeason.matchUpdated) ||
+        isNewer(item.match_updated_360, dbSeason.matchUpdated360)
+      );
+    })
+    .map((item) => `${item.competition_id}-${item.season_id}`);
+
+  const fileMatches =
+    seasonsChanged.length > 0 ? loadAllMatches(new Set(seasonsChanged)) : [];
+
+  const dbMatches = await db
+    .select({
+      matchId: matches.matchId,
+      competitionId: matches.competitionId,
+      seasonId: matches.seasonId,
+      lastUpdated: matches.lastUpdated,
+      lastUpdated360: matches.lastUpdated360,
+    })
+    .from(matches);
+  const dbMatchById = new Map(dbMatches.map((m) => [m.matchId, m]));
+
+  const newMatches: MatchJSON[] = [];
+  const updatedMatches: MatchJSON[] = [];
+  const updated360: MatchJSON[] = [];
+
+  for (const match of fileMatches) {
+    const dbMatch = dbMatchById.get(match.match_id);
+    if (!dbMatch) {
+      newMatches.push(match);
+    } else if (isNewer(match.last_updated, dbMatch.lastUpdated)) {
+      updatedMatches.push(match);
+    } else if (isNewer(match.last_updated_360, dbMatch.lastUpdated360)) {
+      updated360.push(match);
+    }
+  }
+
+  // Only the seasons that were read can tell a match is missing
+  const fileMatchIds = new Set(fileMatches.map((m) => m.match_id));
+  const readSeasons = new Set(seasonsChanged);
+  const missingMatches = dbMatches
+    .filter(
+      (m) =>
+        readSeasons.has(`${m.competitionId}-${m.seasonId}`) &&
+        !fileMatchIds.has(m.matchId)
+    )
+    .map((m) => m.matchId);
+
+  return {
+    competitionSeasons,
+    seasonsChanged,
+    newMatches,
+    updatedMatches,
+    updated360,
+    missingMatches,
+  };
+}
+
+function printReport(report: SyncReport) {
+  console.log("═".repeat(70));
+  console.log("\n📋 Change Report:\n");
+  console.log(
+    `   Competition-seasons changed: ${report.seasonsChanged.length}/${report.seasonsChecked}`
+  );
+
+  const sections: [string, MatchChange[]][] = [
+    ["New matches", report.newMatches],
+    ["Updated matches", report.updatedMatches],
+    ["Updated 360 data", report.updated360],
+  ];
+
+  for (const [title, changes] of sections) {
+    console.log(`\n   ${title}: ${changes.length}`);
+    for (const change of changes) {
+      console.log(
+        `      ${change.matchId}  ${change.competition} ${change.season}  ${change.fixture}`
+      );
+    }
+  }
+
+  console.log(
+    `\n   In database but not in files: ${report.missingMatches.length}`
+  );
+  if (report.missingMatches.length > 0) {
+    console.log(`      ${report.missingMatches.join(", ")}`);
+  }
+  console.log();
+}
+
+export async function syncMatches(
+  options: { dryRun?: boolean; reportPath?: string } = {}
+): Promise<SyncReport> {
+  console.log("🔄 Starting incremental match sync...\n");
+
+  try {
+    const changes = await detectChanges();
+    const report: SyncReport = {
+      seasonsChecked: changes.competitionSeasons.length,
+      seasonsChanged: changes.seasonsChanged,
+      newMatches: changes.newMatches.map(toChange),
+      updatedMatches: changes.updatedMatches.map(toChange),
+      updated360: changes.updated360.map(toChange),
+      missingMatches: changes.missingMatches,
+    };
+
+    printReport(report);
+    if (options.reportPath) {
+      fs.writeFileSync(options.reportPath, JSON.stringify(report, null, 2));
+      console.log(`   📝 Report written to ${options.reportPath}\n`);
+    }
+
+    if (options.dryRun) {
+      console.log("✅ Dry run complete (nothing loaded)\n");
+      return report;
+    }
+
+    const newIds = changes.newMatches.map((m) => m.match_id);
+    const updatedIds = changes.updatedMatches.map((m) => m.match_id);
+
+    if (changes.seasonsChanged.length > 0) {
+      // Matches, teams, officials, ... for the changed seasons (existing rows
+      // are kept, so updated matches are refreshed below)
+      if (updatedIds.length > 0) {
+        await db
+          .delete(matchManagers)
+          .where(inArray(matchManagers.matchId, updatedIds));
+      }
+      await loadMatchesETL(new Set(changes.seasonsChanged), new Set(newIds));
+      await loadCompetitions();
+
+      // The timestamps wait until the match's data is reloaded
+      for (const match of [...changes.updatedMatches, ...changes.updated360]) {
+        const { lastUpdated, lastUpdated360, ...record } = toMatchRecord(match);
+        await db
+          .update(matches)
+          .set(record)
+          .where(eq(matches.matchId, match.match_id));
+      }
+    }
+
+    // One transaction per match, ending with its new timestamps
+    const reload = async (match: MatchJSON, scope: MatchDataScope) => {
+      const { lastUpdated, lastUpdated360 } = toMatchRecord(match);
+      await reloadMatch(match.match_id, {
+        scope,
+        timestamps: { lastUpdated, lastUpdated360 },
+      });
+    };
+
+    const reloadCount =
+      newIds.length + updatedIds.length + changes.updated360.length;
+    if (reloadCount > 0) {
+      console.log("═".repeat(70));
+      console.log(`\n🔁 Reloading ${reloadCount} changed matches...\n`);
+
+      for (const match of [...changes.newMatches, ...changes.updatedMatches]) {
+        await reload(match, { lineups: true, events: true, threeSixty: true });
+      }
+      for (const match of changes.updated360) {
+        await reload(match, { threeSixty: true });
+      }
+    }
+
+    // Season timestamps from competitions.json, so the next sync starts here
+    const changedSeasons = new Set(changes.seasonsChanged);
+    for (const item of changes.competitionSeasons) {
+      if (!changedSeasons.has(`${item.competition_id}-${item.season_id}`)) {
+        continue;
+      }
+      await db
+        .update(seasons)
+        .set({
+          matchUpdated: new Date(item.match_updated),
+          matchAvailable: new Date(item.match_available),
+          matchUpdated360: item.match_updated_360
+            ? new Date(item.match_updated_360)
+            : null,
+          matchAvailable360: item.match_available_360
+            ? new Date(item.match_available_360)
+            : null,
+          rawJson: item,
+        })
+        .where(
+          and(
+            eq(seasons.competitionId, item.competition_id),
+            eq(seasons.seasonId, item.season_id)
+          )
+        );
+    }
+
+    console.log("✅ Match sync complete!\n");
+    return report;
+  } catch (error) {
+    console.error("❌ Error syncing matches:", error);
+    throw error;
+  }
+}
+
+// Run if executed directly
+const isMainModule =
+  (process.argv[1] && process.argv[1].endsWith("sync-matches.ts")) ||
+  (process.argv[1] && process.argv[1].endsWith("sync-matches.js"));
+
+if (isMainModule) {
+  const args = process.argv.slice(2);
+  const reportIndex = args.indexOf("--report");
+
+  syncMatches({
+    dryRun: args.includes("--dry-run"),
+    reportPath: reportIndex >= 0 ? args[reportIndex + 1] : undefined,
+  })
+    .then(() => process.exit(0))
+    .catch((err) => {
+      console.error(err);
+      process.exit(1);
+    });
+}
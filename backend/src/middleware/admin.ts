@@ -0,0 +1,33 @@
+import { createHash, timingSafeEqual } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { env } from "../../env.ts";
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+/**
+ * Requires the X-Admin-Key header to match ADMIN_API_KEY. Without a
+ * configured key the admin API is disabled.
+ */
+export const requireAdminKey = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!env.ADMIN_API_KEY) {
+    return res.status(403).json({
+      success: false,
+      error: "Admin API is disabled (ADMIN_API_KEY is not set)",
+    });
+  }
+
+  // Equal-length digests, so the comparison time reveals nothing
+  const key = req.get("x-admin-key");
+  if (!key || !timingSafeEqual(digest(key), digest(env.ADMIN_API_KEY))) {
+    return res.status(401).json({
+      success: false,
+      error: "Invalid or missing admin key",
+    });
+  }
+
+  next();
+};
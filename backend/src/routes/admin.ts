@@ -0,0 +1,92 @@
+import { Router } from "express";
+import { requireAdminKey } from "../middleware/admin.ts";
+import {
+  MatchSourceError,
+  purgeMatch,
+  reloadMatch,
+} from "../etl/match-data.ts";
+
+const router = Router();
+
+router.use(requireAdminKey);
+
+/**
+ * POST /api/admin/matches/:id/reload
+ * Replace a match's lineups, events and 360 frames from its source files
+ */
+router.post("/matches/:id/reload", async (req, res) => {
+  try {
+    const matchId = parseInt(req.params.id);
+
+    if (isNaN(matchId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid match ID",
+      });
+    }
+
+    const result = await reloadMatch(matchId);
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: "Match not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof MatchSourceError) {
+      return res.status(422).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error("Error reloading match:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to reload match",
+    });
+  }
+});
+
+/**
+ * DELETE /api/admin/matches/:id
+ * Delete a match and everything loaded for it
+ */
+router.delete("/matches/:id", async (req, res) => {
+  try {
+    const matchId = parseInt(req.params.id);
+
+    if (isNaN(matchId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid match ID",
+      });
+    }
+
+    if (!(await purgeMatch(matchId))) {
+      return res.status(404).json({
+        success: false,
+        error: "Match not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { matchId },
+    });
+  } catch (error) {
+    console.error("Error deleting match:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to delete match",
+    });
+  }
+});
+
+export { router as adminRouter };
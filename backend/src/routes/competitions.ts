@@ -0,0 +1,313 @@
+import { Router } from "express";
+import { z } from "zod";
+import { db } from "../db/index.ts";
+import { countries, competitions, seasons } from "../db/schema/competitions.ts";
+import { matches, teams } from "../db/schema/matches.ts";
+import { alias } from "drizzle-orm/pg-core";
+import { eq, asc, desc, and, sql } from "drizzle-orm";
+import { validateQuery } from "../middleware/validation.ts";
+import { computeStandings } from "../services/standings.ts";
+
+const router = Router();
+
+// Query validation schemas
+const competitionsQuerySchema = z.object({
+  gender: z.enum(["male", "female"]).optional(),
+  international: z.enum(["true", "false"]).optional(),
+  youth: z.enum(["true", "false"]).optional(),
+});
+
+const standingsQuerySchema = z.object({
+  stageId: z.coerce.number().int().positive().optional(),
+});
+
+/**
+ * GET /api/competitions
+ * List competitions with their country and number of seasons
+ */
+router.get("/", validateQuery(competitionsQuerySchema), async (req, res) => {
+  try {
+    const { gender, international, youth } = competitionsQuerySchema.parse(
+      req.query
+    );
+
+    // Build filters array
+    const filters = [];
+    if (gender) {
+      filters.push(eq(competitions.competitionGender, gender));
+    }
+    if (international) {
+      filters.push(
+        eq(competitions.competitionInternational, international === "true")
+      );
+    }
+    if (youth) {
+      filters.push(eq(competitions.competitionYouth, youth === "true"));
+    }
+
+    let baseQuery = db
+      .select({
+        competitionId: competitions.competitionId,
+        competitionName: competitions.competitionName,
+        competitionGender: competitions.competitionGender,
+        competitionYouth: competitions.competitionYouth,
+        competitionInternational: competitions.competitionInternational,
+        country: {
+          id: countries.id,
+          name: countries.name,
+        },
+        seasonCount: sql<number>`COUNT(${seasons.seasonId})::int`,
+      })
+      .from(competitions)
+      .leftJoin(countries, eq(competitions.countryId, countries.id))
+      .leftJoin(seasons, eq(competitions.competitionId, seasons.competitionId))
+      .$dynamic();
+
+    if (filters.length > 0) {
+      baseQuery = baseQuery.where(
+        filters.length === 1 ? filters[0] : and(...filters)
+      );
+    }
+
+    const competitionsList = await baseQuery
+      .groupBy(competitions.competitionId, countries.id, countries.name)
+      .orderBy(asc(competitions.competitionName));
+
+    res.json({
+      success: true,
+      data: competitionsList,
+    });
+  } catch (error) {
+    console.error("Error fetching competitions:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch competitions",
+    });
+  }
+});
+
+/**
+ * GET /api/competitions/:id
+ * Get competition with all of its seasons
+ */
+router.get("/:id", async (req, res) => {
+  try {
+    const competitionId = parseInt(req.params.id);
+
+    if (isNaN(competitionId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid competition ID",
+      });
+    }
+
+    const [competition] = await db
+      .select({
+        competitionId: competitions.competitionId,
+        competitionName: competitions.competitionName,
+        competitionGender: competitions.competitionGender,
+        competitionYouth: competitions.competitionYouth,
+        competitionInternational: competitions.competitionInternational,
+        country: {
+          id: countries.id,
+          name: countries.name,
+        },
+      })
+      .from(competitions)
+      .leftJoin(countries, eq(competitions.countryId, countries.id))
+      .where(eq(competitions.competitionId, competitionId));
+
+    if (!competition) {
+      return res.status(404).json({
+        success: false,
+        error: "Competition not found",
+      });
+    }
+
+    const seasonsList = await fetchSeasons(competitionId);
+
+    res.json({
+      success: true,
+      data: {
+        ...competition,
+        seasons: seasonsList,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching competition:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch competition",
+    });
+  }
+});
+
+/**
+ * GET /api/competitions/:id/seasons
+ * List seasons of a competition, including 360 availability
+ */
+router.get("/:id/seasons", async (req, res) => {
+  try {
+    const competitionId = parseInt(req.params.id);
+
+    if (isNaN(competitionId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid competition ID",
+      });
+    }
+
+    const seasonsList = await fetchSeasons(competitionId);
+
+    if (!seasonsList.length) {
+      return res.status(404).json({
+        success: false,
+        error: "Competition not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: seasonsList,
+    });
+  } catch (error) {
+    console.error("Error fetching seasons:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch seasons",
+    });
+  }
+});
+
+/**
+ * GET /api/competitions/:id/seasons/:seasonId/standings
+ * League table computed from match results (group tables for tournaments;
+ * pass a knockout stage's stageId to tabulate it instead)
+ */
+router.get(
+  "/:id/seasons/:seasonId/standings",
+  validateQuery(standingsQuerySchema),
+  async (req, res) => {
+    try {
+      const competitionId = parseInt(req.params.id);
+      const seasonId = parseInt(req.params.seasonId);
+
+      if (isNaN(competitionId) || isNaN(seasonId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid competition or season ID",
+        });
+      }
+
+      const { stageId } = standingsQuerySchema.parse(req.query);
+
+      const [season] = await db
+        .select({
+          competitionId: seasons.competitionId,
+          competitionName: competitions.competitionName,
+          seasonId: seasons.seasonId,
+          seasonName: seasons.seasonName,
+        })
+        .from(seasons)
+        .innerJoin(
+          competitions,
+          eq(seasons.competitionId, competitions.competitionId)
+        )
+        .where(
+          and(
+            eq(seasons.competitionId, competitionId),
+            eq(seasons.seasonId, seasonId)
+          )
+        );
+
+      if (!season) {
+        return res.status(404).json({
+          success: false,
+          error: "Season not found",
+        });
+      }
+
+      const homeTeams = alias(teams, "home_team");
+      const awayTeams = alias(teams, "away_team");
+
+      const filters = [
+        eq(matches.competitionId, competitionId),
+        eq(matches.seasonId, seasonId),
+      ];
+      if (stageId) {
+        filters.push(eq(matches.competitionStageId, stageId));
+      }
+
+      const results = await db
+        .select({
+          matchId: matches.matchId,
+          matchDate: matches.matchDate,
+          homeTeamId: matches.homeTeamId,
+          homeTeamName: homeTeams.teamName,
+          awayTeamId: matches.awayTeamId,
+          awayTeamName: awayTeams.teamName,
+          homeScore: matches.homeScore,
+          awayScore: matches.awayScore,
+          group: sql<
+            string | null
+          >`COALESCE(${matches.homeTeamGroup}, ${matches.awayTeamGroup})`,
+        })
+        .from(matches)
+        .innerJoin(homeTeams, eq(matches.homeTeamId, homeTeams.teamId))
+        .innerJoin(awayTeams, eq(matches.awayTeamId, awayTeams.teamId))
+        .where(and(...filters));
+
+      // Tournaments: knockout matches have no group and would form an extra
+      // table, so without a stageId only the group matches count
+      const tableResults =
+        !stageId && results.some((m) => m.group !== null)
+          ? results.filter((m) => m.group !== null)
+          : results;
+
+      res.json({
+        success: true,
+        data: {
+          ...season,
+          matchesPlayed: tableResults.length,
+          standings: computeStandings(tableResults),
+        },
+      });
+    } catch (error) {
+      console.error("Error computing standings:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to compute standings",
+      });
+    }
+  }
+);
+
+/**
+ * Seasons for a competition with match counts and 360 timestamps
+ */
+async function fetchSeasons(competitionId: number) {
+  return db
+    .select({
+      seasonId: seasons.seasonId,
+      seasonName: seasons.seasonName,
+      matchUpdated: seasons.matchUpdated,
+      matchAvailable: seasons.matchAvailable,
+      matchUpdated360: seasons.matchUpdated360,
+      matchAvailable360: seasons.matchAvailable360,
+      has360: sql<boolean>`${seasons.matchAvailable360} IS NOT NULL`,
+      matches: sql<number>`COUNT(${matches.matchId})::int`,
+    })
+    .from(seasons)
+    .leftJoin(
+      matches,
+      and(
+        eq(seasons.competitionId, matches.competitionId),
+        eq(seasons.seasonId, matches.seasonId)
+      )
+    )
+    .where(eq(seasons.competitionId, competitionId))
+    .groupBy(seasons.competitionId, seasons.seasonId)
+    .orderBy(desc(seasons.seasonName));
+}
+
+export { router as competitionsRouter };
@@ -0,0 +1,280 @@
+import { Router } from "express";
+import { z } from "zod";
+import { db } from "../db/index.ts";
+import { managers, matchManagers } from "../db/schema/matches.ts";
+import { countries } from "../db/schema/competitions.ts";
+import { eq, asc, desc, count, ilike, sql } from "drizzle-orm";
+import { validateQuery } from "../middleware/validation.ts";
+
+const router = Router();
+
+// Query validation schema
+const managersQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(100).default(20),
+  offset: z.coerce.number().min(0).default(0),
+  sortBy: z.enum(["managerName", "matches"]).default("matches"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  search: z.string().optional(),
+});
+
+/**
+ * GET /api/managers
+ * List managers with pagination, sorting, and search
+ */
+router.get("/", validateQuery(managersQuerySchema), async (req, res) => {
+  try {
+    const { limit, offset, sortBy, order, search } = managersQuerySchema.parse(
+      req.query
+    );
+
+    const matchCount = sql<number>`COUNT(DISTINCT ${matchManagers.matchId})::int`;
+
+    // Map sortBy string to actual column
+    const sortFieldMap = {
+      managerName: managers.managerName,
+      matches: matchCount,
+    };
+    const sortField = sortFieldMap[sortBy];
+
+    const searchFilter =
+      search && search.trim()
+        ? ilike(managers.managerName, `%${search.trim()}%`)
+        : undefined;
+
+    const managersList = await db
+      .select({
+        managerId: managers.managerId,
+        managerName: managers.managerName,
+        managerNickname: managers.managerNickname,
+        country: {
+          id: countries.id,
+          name: countries.name,
+        },
+        matches: matchCount,
+        teams: sql<number>`COUNT(DISTINCT ${matchManagers.teamId})::int`,
+      })
+      .from(managers)
+      .leftJoin(countries, eq(managers.countryId, countries.id))
+      .leftJoin(matchManagers, eq(managers.managerId, matchManagers.managerId))
+      .where(searchFilter)
+      .groupBy(managers.managerId, countries.id, countries.name)
+      .orderBy(
+        order === "asc" ? asc(sortField) : desc(sortField),
+        asc(managers.managerId)
+      )
+      .limit(limit)
+      .offset(offset);
+
+    const [{ value: total }] = await db
+      .select({ value: count() })
+      .from(managers)
+      .where(searchFilter);
+
+    res.json({
+      success: true,
+      data: managersList,
+      meta: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching managers:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch managers",
+    });
+  }
+});
+
+/**
+ * GET /api/managers/:id
+ * Manager profile - career record per team/season and inferred tenures
+ */
+router.get("/:id", async (req, res) => {
+  try {
+    const managerId = parseInt(req.params.id);
+
+    if (isNaN(managerId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid manager ID",
+      });
+    }
+
+    // 1. Basic manager info
+    const [manager] = await db
+      .select({
+        managerId: managers.managerId,
+        managerName: managers.managerName,
+        managerNickname: managers.managerNickname,
+        dateOfBirth: managers.dateOfBirth,
+        country: {
+          id: countries.id,
+          name: countries.name,
+        },
+      })
+      .from(managers)
+      .leftJoin(countries, eq(managers.countryId, countries.id))
+      .where(eq(managers.managerId, managerId));
+
+    if (!manager) {
+      return res.status(404).json({
+        success: false,
+        error: "Manager not found",
+      });
+    }
+
+    // 2. Career totals across every match managed
+    const careerTotals = await db.execute(sql`
+      WITH managed AS (
+        SELECT
+          CASE WHEN mm.is_home_team THEN m.home_score ELSE m.away_score END as goals_for,
+          CASE WHEN mm.is_home_team THEN m.away_score ELSE m.home_score END as goals_against
+        FROM match_managers mm
+        INNER JOIN matches m ON mm.match_id = m.match_id
+        WHERE mm.manager_id = ${managerId}
+      )
+      SELECT
+        COUNT(*)::int as matches,
+        COUNT(*) FILTER (WHERE goals_for > goals_against)::int as wins,
+        COUNT(*) FILTER (WHERE goals_for = goals_against)::int as draws,
+        COUNT(*) FILTER (WHERE goals_for < goals_against)::int as losses,
+        COALESCE(SUM(goals_for), 0)::int as goals_for,
+        COALESCE(SUM(goals_against), 0)::int as goals_against,
+        ROUND(SUM(goals_for)::decimal / NULLIF(COUNT(*), 0), 2) as goals_per_game,
+        ROUND(SUM(goals_against)::decimal / NULLIF(COUNT(*), 0), 2) as conceded_per_game,
+        ROUND(
+          COUNT(*) FILTER (WHERE goals_for > goals_against)::decimal * 100.0 /
+          NULLIF(COUNT(*), 0), 2
+        ) as win_rate
+      FROM managed
+    `);
+
+    // 3. Record per team and competition-season
+    const seasonRecords = await db.execute(sql`
+      WITH managed AS (
+        SELECT
+          mm.team_id,
+          m.competition_id,
+          m.season_id,
+          m.match_date,
+          CASE WHEN mm.is_home_team THEN m.home_score ELSE m.away_score END as goals_for,
+          CASE WHEN mm.is_home_team THEN m.away_score ELSE m.home_score END as goals_against
+        FROM match_managers mm
+        INNER JOIN matches m ON mm.match_id = m.match_id
+        WHERE mm.manager_id = ${managerId}
+      )
+      SELECT
+        mg.team_id,
+        t.team_name,
+        mg.competition_id,
+        c.competition_name,
+        mg.season_id,
+        s.season_name,
+        COUNT(*)::int as matches,
+        COUNT(*) FILTER (WHERE goals_for > goals_against)::int as wins,
+        COUNT(*) FILTER (WHERE goals_for = goals_against)::int as draws,
+        COUNT(*) FILTER (WHERE goals_for < goals_against)::int as losses,
+        SUM(goals_for)::int as goals_for,
+        SUM(goals_against)::int as goals_against,
+        ROUND(SUM(goals_for)::decimal / COUNT(*), 2) as goals_per_game,
+        MIN(mg.match_date) as first_match,
+        MAX(mg.match_date) as last_match
+      FROM managed mg
+      INNER JOIN teams t ON mg.team_id = t.team_id
+      INNER JOIN competitions c ON mg.competition_id = c.competition_id
+      INNER JOIN seasons s ON mg.competition_id = s.competition_id AND mg.season_id = s.season_id
+      GROUP BY mg.team_id, t.team_name, mg.competition_id, c.competition_name, mg.season_id, s.season_name
+      ORDER BY MIN(mg.match_date) DESC
+    `);
+
+    // 4. Tenures - consecutive runs of a team's matches with this manager
+    //    (gaps-and-islands: a run ends when the team plays under someone else)
+    const tenures = await db.execute(sql`
+      WITH manager_teams AS (
+        SELECT DISTINCT team_id
+        FROM match_managers
+        WHERE manager_id = ${managerId}
+      ),
+      team_matches AS (
+        SELECT
+          mt.team_id,
+          m.match_id,
+          m.match_date,
+          EXISTS (
+            SELECT 1 FROM match_managers mm
+            WHERE mm.match_id = m.match_id
+              AND mm.team_id = mt.team_id
+              AND mm.manager_id = ${managerId}
+          ) as managed
+        FROM manager_teams mt
+        INNER JOIN matches m
+          ON m.home_team_id = mt.team_id OR m.away_team_id = mt.team_id
+      ),
+      islands AS (
+        SELECT
+          *,
+          ROW_NUMBER() OVER (PARTITION BY team_id ORDER BY match_date, match_id) -
+          ROW_NUMBER() OVER (PARTITION BY team_id, managed ORDER BY match_date, match_id) as island
+        FROM team_matches
+      )
+      SELECT
+        i.team_id,
+        t.team_name,
+        MIN(i.match_date) as start_date,
+        MAX(i.match_date) as end_date,
+        COUNT(*)::int as matches
+      FROM islands i
+      INNER JOIN teams t ON i.team_id = t.team_id
+      WHERE i.managed
+      GROUP BY i.team_id, t.team_name, i.island
+      ORDER BY MIN(i.match_date) DESC
+    `);
+
+    // 5. Most recent matches
+    const recentMatches = await db.execute(sql`
+      SELECT
+        m.match_id,
+        m.match_date,
+        c.competition_name,
+        s.season_name,
+        mm.team_id,
+        mm.is_home_team,
+        CASE WHEN mm.is_home_team THEN m.away_team_id ELSE m.home_team_id END as opponent_id,
+        opp.team_name as opponent_name,
+        CASE WHEN mm.is_home_team THEN m.home_score ELSE m.away_score END::int as goals_for,
+        CASE WHEN mm.is_home_team THEN m.away_score ELSE m.home_score END::int as goals_against
+      FROM match_managers mm
+      INNER JOIN matches m ON mm.match_id = m.match_id
+      INNER JOIN competitions c ON m.competition_id = c.competition_id
+      INNER JOIN seasons s ON m.competition_id = s.competition_id AND m.season_id = s.season_id
+      INNER JOIN teams opp
+        ON opp.team_id = CASE WHEN mm.is_home_team THEN m.away_team_id ELSE m.home_team_id END
+      WHERE mm.manager_id = ${managerId}
+      ORDER BY m.match_date DESC
+      LIMIT 10
+    `);
+
+    res.json({
+      success: true,
+      data: {
+        manager,
+        career: careerTotals.rows[0],
+        seasonRecords: seasonRecords.rows,
+        tenures: tenures.rows,
+        recentMatches: recentMatches.rows,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching manager:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch manager",
+    });
+  }
+});
+
+export { router as managersRouter };
@@ -0,0 +1,832 @@
+import { Router } from "express";
+import { z } from "zod";
+import { db } from "../db/index.ts";
+import {
+  matches,
+  teams,
+  managers,
+  matchManagers,
+  stadiums,
+  referees,
+  competitionStages,
+} from "../db/schema/matches.ts";
+import { countries, competitions, seasons } from "../db/schema/competitions.ts";
+import {
+  players,
+  positions,
+  playerLineups,
+  playerPositions,
+  playerCards,
+} from "../db/schema/lineups.ts";
+import { alias } from "drizzle-orm/pg-core";
+import { eq, asc, desc, count, and, or, gte, lte, sql } from "drizzle-orm";
+import type { SQL } from "drizzle-orm";
+import { validateQuery } from "../middleware/validation.ts";
+import { computeBoxScore } from "../services/box-score.ts";
+
+const router = Router();
+
+// Aliases for the two sides of a match
+const homeTeams = alias(teams, "home_team");
+const awayTeams = alias(teams, "away_team");
+
+// Query validation schema
+const matchesQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(100).default(20),
+  offset: z.coerce.number().min(0).default(0),
+  sortBy: z
+    .enum(["matchDate", "matchWeek", "homeScore", "awayScore"])
+    .default("matchDate"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  competitionId: z.coerce.number().int().positive().optional(),
+  seasonId: z.coerce.number().int().positive().optional(),
+  teamId: z.coerce.number().int().positive().optional(),
+  stageId: z.coerce.number().int().positive().optional(),
+  gender: z.enum(["male", "female"]).optional(),
+  dateFrom: z.iso.date().optional(),
+  dateTo: z.iso.date().optional(),
+});
+
+const matchEventsQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(500).default(100),
+  after: z.coerce.number().int().min(0).optional(), // cursor on events.index
+  typeId: z.coerce.number().int().positive().optional(),
+  period: z.coerce.number().int().min(1).max(5).optional(),
+  teamId: z.coerce.number().int().positive().optional(),
+  playerId: z.coerce.number().int().positive().optional(),
+  minuteFrom: z.coerce.number().int().min(0).optional(),
+  minuteTo: z.coerce.number().int().min(0).optional(),
+});
+
+/**
+ * GET /api/matches
+ * List matches with pagination, sorting, and filtering
+ */
+router.get("/", validateQuery(matchesQuerySchema), async (req, res) => {
+  try {
+    // Parse and validate query with defaults
+    const {
+      limit,
+      offset,
+      sortBy,
+      order,
+      competitionId,
+      seasonId,
+      teamId,
+      stageId,
+      gender,
+      dateFrom,
+      dateTo,
+    } = matchesQuerySchema.parse(req.query);
+
+    // Map sortBy string to actual column
+    const sortFieldMap = {
+      matchDate: matches.matchDate,
+      matchWeek: matches.matchWeek,
+      homeScore: matches.homeScore,
+      awayScore: matches.awayScore,
+    };
+    const sortField = sortFieldMap[sortBy];
+
+    // Build filters array
+    const filters = [];
+    if (competitionId) {
+      filters.push(eq(matches.competitionId, competitionId));
+    }
+    if (seasonId) {
+      filters.push(eq(matches.seasonId, seasonId));
+    }
+    if (teamId) {
+      filters.push(
+        or(eq(matches.homeTeamId, teamId), eq(matches.awayTeamId, teamId))
+      );
+    }
+    if (stageId) {
+      filters.push(eq(matches.competitionStageId, stageId));
+    }
+    if (gender) {
+      filters.push(eq(competitions.competitionGender, gender));
+    }
+    if (dateFrom) {
+      filters.push(gte(matches.matchDate, dateFrom));
+    }
+    if (dateTo) {
+      filters.push(lte(matches.matchDate, dateTo));
+    }
+
+    // Build query
+    let baseQuery = db
+      .select({
+        matchId: matches.matchId,
+        matchDate: matches.matchDate,
+        kickOff: matches.kickOff,
+        matchWeek: matches.matchWeek,
+        competition: {
+          id: competitions.competitionId,
+          name: competitions.competitionName,
+          gender: competitions.competitionGender,
+        },
+        season: {
+          id: seasons.seasonId,
+          name: seasons.seasonName,
+        },
+        stage: {
+          id: competitionStages.id,
+          name: competitionStages.name,
+        },
+        homeTeam: {
+          id: homeTeams.teamId,
+          name: homeTeams.teamName,
+        },
+        awayTeam: {
+          id: awayTeams.teamId,
+          name: awayTeams.teamName,
+        },
+        homeScore: matches.homeScore,
+        awayScore: matches.awayScore,
+      })
+      .from(matches)
+      .innerJoin(
+        competitions,
+        eq(matches.competitionId, competitions.competitionId)
+      )
+      .innerJoin(
+        seasons,
+        and(
+          eq(matches.competitionId, seasons.competitionId),
+          eq(matches.seasonId, seasons.seasonId)
+        )
+      )
+      .innerJoin(homeTeams, eq(matches.homeTeamId, homeTeams.teamId))
+      .innerJoin(awayTeams, eq(matches.awayTeamId, awayTeams.teamId))
+      .leftJoin(
+        competitionStages,
+        eq(matches.competitionStageId, competitionStages.id)
+      )
+      .$dynamic();
+
+    // Apply filters if any
+    if (filters.length > 0) {
+      baseQuery = baseQuery.where(
+        filters.length === 1 ? filters[0] : and(...filters)
+      );
+    }
+
+    // Tie-break on match_id so pagination is stable within a match day
+    const queryWithSort =
+      order === "asc"
+        ? baseQuery.orderBy(asc(sortField), asc(matches.matchId))
+        : baseQuery.orderBy(desc(sortField), desc(matches.matchId));
+
+    const matchesList = await queryWithSort.limit(limit).offset(offset);
+
+    // Get total count with filters (competitions join needed for gender)
+    let countBaseQuery = db
+      .select({ value: count() })
+      .from(matches)
+      .innerJoin(
+        competitions,
+        eq(matches.competitionId, competitions.competitionId)
+      )
+      .$dynamic();
+    if (filters.length > 0) {
+      countBaseQuery = countBaseQuery.where(
+        filters.length === 1 ? filters[0] : and(...filters)
+      );
+    }
+    const [{ value: total }] = await countBaseQuery;
+
+    res.json({
+      success: true,
+      data: matchesList,
+      meta: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching matches:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch matches",
+    });
+  }
+});
+
+/**
+ * GET /api/matches/:id
+ * Get full match detail - score, venue, officials, managers, stage
+ */
+router.get("/:id", async (req, res) => {
+  try {
+    const matchId = parseInt(req.params.id);
+
+    if (isNaN(matchId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid match ID",
+      });
+    }
+
+    const stadiumCountries = alias(countries, "stadium_country");
+    const refereeCountries = alias(countries, "referee_country");
+
+    const [match] = await db
+      .select({
+        matchId: matches.matchId,
+        matchDate: matches.matchDate,
+        kickOff: matches.kickOff,
+        matchWeek: matches.matchWeek,
+        matchStatus: matches.matchStatus,
+        matchStatus360: matches.matchStatus360,
+        lastUpdated: matches.lastUpdated,
+        lastUpdated360: matches.lastUpdated360,
+        dataVersion: matches.dataVersion,
+        competition: {
+          id: competitions.competitionId,
+          name: competitions.competitionName,
+          gender: competitions.competitionGender,
+        },
+        season: {
+          id: seasons.seasonId,
+          name: seasons.seasonName,
+        },
+        stage: {
+          id: competitionStages.id,
+          name: competitionStages.name,
+        },
+        homeTeam: {
+          id: homeTeams.teamId,
+          name: homeTeams.teamName,
+          group: matches.homeTeamGroup,
+        },
+        awayTeam: {
+          id: awayTeams.teamId,
+          name: awayTeams.teamName,
+          group: matches.awayTeamGroup,
+        },
+        homeScore: matches.homeScore,
+        awayScore: matches.awayScore,
+        stadium: {
+          id: stadiums.stadiumId,
+          name: stadiums.stadiumName,
+          country: stadiumCountries.name,
+        },
+        referee: {
+          id: referees.refereeId,
+          name: referees.refereeName,
+          country: refereeCountries.name,
+        },
+      })
+      .from(matches)
+      .innerJoin(
+        competitions,
+        eq(matches.competitionId, competitions.competitionId)
+      )
+      .innerJoin(
+        seasons,
+        and(
+          eq(matches.competitionId, seasons.competitionId),
+          eq(matches.seasonId, seasons.seasonId)
+        )
+      )
+      .innerJoin(homeTeams, eq(matches.homeTeamId, homeTeams.teamId))
+      .innerJoin(awayTeams, eq(matches.awayTeamId, awayTeams.teamId))
+      .leftJoin(
+        competitionStages,
+        eq(matches.competitionStageId, competitionStages.id)
+      )
+      .leftJoin(stadiums, eq(matches.stadiumId, stadiums.stadiumId))
+      .leftJoin(stadiumCountries, eq(stadiums.countryId, stadiumCountries.id))
+      .leftJoin(referees, eq(matches.refereeId, referees.refereeId))
+      .leftJoin(refereeCountries, eq(referees.countryId, refereeCountries.id))
+      .where(eq(matches.matchId, matchId));
+
+    if (!match) {
+      return res.status(404).json({
+        success: false,
+        error: "Match not found",
+      });
+    }
+
+    // Managers for both sides (a team can have co-managers)
+    const matchManagersList = await db
+      .select({
+        managerId: managers.managerId,
+        managerName: managers.managerName,
+        managerNickname: managers.managerNickname,
+        teamId: matchManagers.teamId,
+        isHomeTeam: matchManagers.isHomeTeam,
+        country: countries.name,
+      })
+      .from(matchManagers)
+      .innerJoin(managers, eq(matchManagers.managerId, managers.managerId))
+      .leftJoin(countries, eq(managers.countryId, countries.id))
+      .where(eq(matchManagers.matchId, matchId))
+      .orderBy(asc(managers.managerName));
+
+    res.json({
+      success: true,
+      data: {
+        ...match,
+        managers: {
+          home: matchManagersList.filter((m) => m.isHomeTeam),
+          away: matchManagersList.filter((m) => !m.isHomeTeam),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching match:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch match",
+    });
+  }
+});
+
+/**
+ * GET /api/matches/:id/stats
+ * Box score - per-team shots, xG, passing, possession and discipline
+ */
+router.get("/:id/stats", async (req, res) => {
+  try {
+    const matchId = parseInt(req.params.id);
+
+    if (isNaN(matchId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid match ID",
+      });
+    }
+
+    const [match] = await db
+      .select({
+        matchId: matches.matchId,
+        homeTeam: {
+          id: homeTeams.teamId,
+          name: homeTeams.teamName,
+        },
+        awayTeam: {
+          id: awayTeams.teamId,
+          name: awayTeams.teamName,
+        },
+        homeScore: matches.homeScore,
+        awayScore: matches.awayScore,
+      })
+      .from(matches)
+      .innerJoin(homeTeams, eq(matches.homeTeamId, homeTeams.teamId))
+      .innerJoin(awayTeams, eq(matches.awayTeamId, awayTeams.teamId))
+      .where(eq(matches.matchId, matchId));
+
+    if (!match) {
+      return res.status(404).json({
+        success: false,
+        error: "Match not found",
+      });
+    }
+
+    const [home, away] = await computeBoxScore(matchId, [
+      match.homeTeam.id,
+      match.awayTeam.id,
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        ...match,
+        stats: { home, away },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching match stats:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch match stats",
+    });
+  }
+});
+
+/**
+ * GET /api/matches/:id/lineups
+ * Both squads with per-player position timeline, cards and substitutions
+ */
+router.get("/:id/lineups", async (req, res) => {
+  try {
+    const matchId = parseInt(req.params.id);
+
+    if (isNaN(matchId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid match ID",
+      });
+    }
+
+    const [match] = await db
+      .select({
+        matchId: matches.matchId,
+        homeTeam: {
+          id: homeTeams.teamId,
+          name: homeTeams.teamName,
+        },
+        awayTeam: {
+          id: awayTeams.teamId,
+          name: awayTeams.teamName,
+        },
+      })
+      .from(matches)
+      .innerJoin(homeTeams, eq(matches.homeTeamId, homeTeams.teamId))
+      .innerJoin(awayTeams, eq(matches.awayTeamId, awayTeams.teamId))
+      .where(eq(matches.matchId, matchId));
+
+    if (!match) {
+      return res.status(404).json({
+        success: false,
+        error: "Match not found",
+      });
+    }
+
+    // 1. Squads
+    const squad = await db
+      .select({
+        playerId: players.playerId,
+        playerName: players.playerName,
+        playerNickname: players.playerNickname,
+        teamId: playerLineups.teamId,
+        jerseyNumber: playerLineups.jerseyNumber,
+        isStarter: playerLineups.isStarter,
+        minutesPlayed: playerLineups.minutesPlayed,
+        country: {
+          id: countries.id,
+          name: countries.name,
+        },
+      })
+      .from(playerLineups)
+      .innerJoin(players, eq(playerLineups.playerId, players.playerId))
+      .leftJoin(countries, eq(playerLineups.countryId, countries.id))
+      .where(eq(playerLineups.matchId, matchId))
+      .orderBy(asc(playerLineups.jerseyNumber));
+
+    // 2. Position timeline (minutes precomputed so clients needn't parse intervals)
+    const positionsList = await db
+      .select({
+        playerId: playerPositions.playerId,
+        positionId: positions.id,
+        positionName: positions.positionName,
+        positionCategory: positions.positionCategory,
+        displayOrder: positions.displayOrder,
+        fromTime: playerPositions.fromTime,
+        toTime: playerPositions.toTime,
+        fromMinute: sql<number>`(EXTRACT(EPOCH FROM ${playerPositions.fromTime}) / 60)::float`,
+        toMinute: sql<
+          number | null
+        >`(EXTRACT(EPOCH FROM ${playerPositions.toTime}) / 60)::float`,
+        fromPeriod: playerPositions.fromPeriod,
+        toPeriod: playerPositions.toPeriod,
+        startReason: playerPositions.startReason,
+        endReason: playerPositions.endReason,
+      })
+      .from(playerPositions)
+      .innerJoin(positions, eq(playerPositions.positionId, positions.id))
+      .where(eq(playerPositions.matchId, matchId))
+      .orderBy(asc(playerPositions.fromPeriod), asc(playerPositions.fromTime));
+
+    // 3. Cards
+    const cardsList = await db
+      .select({
+        playerId: playerCards.playerId,
+        time: playerCards.time,
+        minute: sql<number>`(EXTRACT(EPOCH FROM ${playerCards.time}) / 60)::float`,
+        period: playerCards.period,
+        cardType: playerCards.cardType,
+        reason: playerCards.reason,
+      })
+      .from(playerCards)
+      .where(eq(playerCards.matchId, matchId))
+      .orderBy(asc(playerCards.period), asc(playerCards.time));
+
+    const lineupPlayers = squad.map((player) => {
+      const timeline = positionsList.filter(
+        (p) => p.playerId === player.playerId
+      );
+      return {
+        ...player,
+        startingPosition: player.isStarter ? timeline[0] ?? null : null,
+        positions: timeline,
+        cards: cardsList.filter((c) => c.playerId === player.playerId),
+      };
+    });
+
+    const buildSide = (team: { id: number; name: string }) => {
+      const teamPlayers = lineupPlayers.filter((p) => p.teamId === team.id);
+
+      // Pair each player coming on with the player going off at the same moment
+      const off = teamPlayers.flatMap((p) => {
+        const last = p.positions[p.positions.length - 1];
+        return last?.endReason.startsWith("Substitution - Off")
+          ? [{ player: p, position: last }]
+          : [];
+      });
+      const substitutions = teamPlayers
+        .filter((p) => p.positions[0]?.startReason.startsWith("Substitution"))
+        .map((p) => {
+          const on = p.positions[0];
+          const replaced = off.find(
+            (o) =>
+              o.position.toPeriod === on.fromPeriod &&
+              o.position.toTime === on.fromTime
+          );
+          return {
+            period: on.fromPeriod,
+            time: on.fromTime,
+            minute: on.fromMinute,
+            reason: on.startReason,
+            playerOn: { playerId: p.playerId, playerName: p.playerName },
+            playerOff: replaced
+              ? {
+                  playerId: replaced.player.playerId,
+                  playerName: replaced.player.playerName,
+                }
+              : null,
+          };
+        })
+        .sort((a, b) => a.period - b.period || a.minute - b.minute);
+
+      return {
+        team,
+        startingXI: teamPlayers
+          .filter((p) => p.isStarter)
+          .sort(
+            (a, b) =>
+              (a.startingPosition?.displayOrder ?? 99) -
+              (b.startingPosition?.displayOrder ?? 99)
+          ),
+        bench: teamPlayers.filter((p) => !p.isStarter),
+        substitutions,
+      };
+    };
+
+    res.json({
+      success: true,
+      data: {
+        matchId: match.matchId,
+        home: buildSide(match.homeTeam),
+        away: buildSide(match.awayTeam),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching match lineups:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch match lineups",
+    });
+  }
+});
+
+/**
+ * GET /api/matches/:id/events
+ * Ordered event stream for a match, with subtype details and lookup names.
+ * Cursor-paginated on events.index (uses idx_events_match_index).
+ */
+router.get(
+  "/:id/events",
+  validateQuery(matchEventsQuerySchema),
+  async (req, res) => {
+    try {
+      const matchId = parseInt(req.params.id);
+
+      if (isNaN(matchId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid match ID",
+        });
+      }
+
+      const {
+        limit,
+        after,
+        typeId,
+        period,
+        teamId,
+        playerId,
+        minuteFrom,
+        minuteTo,
+      } = matchEventsQuerySchema.parse(req.query);
+
+      const [match] = await db
+        .select({ matchId: matches.matchId })
+        .from(matches)
+        .where(eq(matches.matchId, matchId));
+
+      if (!match) {
+        return res.status(404).json({
+          success: false,
+          error: "Match not found",
+        });
+      }
+
+      // Build filters array
+      const filters: SQL[] = [sql`e.match_id = ${matchId}`];
+      if (after !== undefined) {
+        filters.push(sql`e.index > ${after}`);
+      }
+      if (typeId) {
+        filters.push(sql`e.type_id = ${typeId}`);
+      }
+      if (period) {
+        filters.push(sql`e.period = ${period}`);
+      }
+      if (teamId) {
+        filters.push(sql`e.team_id = ${teamId}`);
+      }
+      if (playerId) {
+        filters.push(sql`e.player_id = ${playerId}`);
+      }
+      if (minuteFrom !== undefined) {
+        filters.push(sql`e.minute >= ${minuteFrom}`);
+      }
+      if (minuteTo !== undefined) {
+        filters.push(sql`e.minute <= ${minuteTo}`);
+      }
+
+      // Fetch one extra row to know whether another page exists
+      const result = await db.execute(sql`
+        SELECT
+          e.id,
+          e.index,
+          e.period,
+          e.timestamp::text as timestamp,
+          e.minute,
+          e.second,
+          e.type_id,
+          et.name as type_name,
+          e.possession,
+          e.possession_team_id,
+          e.play_pattern_id,
+          pp.name as play_pattern_name,
+          e.team_id,
+          t.team_name,
+          e.player_id,
+          p.player_name,
+          e.position_id,
+          pos.position_name,
+          e.location_x,
+          e.location_y,
+          e.duration,
+          e.under_pressure,
+          e.counterpress,
+          e.off_camera,
+          e.out,
+          CASE WHEN pa.event_id IS NOT NULL THEN jsonb_strip_nulls(jsonb_build_object(
+            'recipient_id', pa.recipient_id,
+            'recipient_name', rp.player_name,
+            'length', pa.length,
+            'angle', pa.angle,
+            'end_x', pa.end_x,
+            'end_y', pa.end_y,
+            'height', ph.name,
+            'type', pt.name,
+            'body_part', pa_bp.name,
+            'technique', ptech.name,
+            'outcome', po.name,
+            'shot_assist', pa.shot_assist,
+            'goal_assist', pa.goal_assist,
+            'cross', pa.cross,
+            'switch', pa.switch,
+            'cut_back', pa.cut_back
+          )) END as pass,
+          CASE WHEN sh.event_id IS NOT NULL THEN jsonb_strip_nulls(jsonb_build_object(
+            'xg', sh.shot_xg,
+            'end_x', sh.end_x,
+            'end_y', sh.end_y,
+            'end_z', sh.end_z,
+            'outcome', so.name,
+            'type', st.name,
+            'technique', stech.name,
+            'body_part', sh_bp.name,
+            'first_time', sh.first_time,
+            'one_on_one', sh.one_on_one,
+            'key_pass_id', sh.key_pass_id
+          )) END as shot,
+          CASE WHEN ca.event_id IS NOT NULL THEN jsonb_strip_nulls(jsonb_build_object(
+            'end_x', ca.end_x,
+            'end_y', ca.end_y
+          )) END as carry,
+          CASE WHEN dr.event_id IS NOT NULL THEN jsonb_strip_nulls(jsonb_build_object(
+            'outcome', dro.name,
+            'overrun', dr.overrun,
+            'nutmeg', dr.nutmeg
+          )) END as dribble,
+          CASE WHEN du.event_id IS NOT NULL THEN jsonb_strip_nulls(jsonb_build_object(
+            'type', dt.name,
+            'outcome', duo.name
+          )) END as duel,
+          CASE WHEN ic.event_id IS NOT NULL THEN jsonb_strip_nulls(jsonb_build_object(
+            'outcome', ico.name
+          )) END as interception,
+          CASE WHEN cl.event_id IS NOT NULL THEN jsonb_strip_nulls(jsonb_build_object(
+            'body_part', cl_bp.name,
+            'aerial_won', cl.aerial_won
+          )) END as clearance,
+          CASE WHEN bl.event_id IS NOT NULL THEN jsonb_strip_nulls(jsonb_build_object(
+            'deflection', bl.deflection,
+            'offensive', bl.offensive,
+            'save_block', bl.save_block
+          )) END as block,
+          CASE WHEN ff.event_id IS NOT NULL THEN jsonb_strip_nulls(jsonb_build_object(
+            'outcome', ffo.name
+          )) END as fifty_fifty,
+          CASE WHEN br.event_id IS NOT NULL THEN jsonb_strip_nulls(jsonb_build_object(
+            'outcome', bro.name
+          )) END as ball_receipt,
+          CASE WHEN brc.event_id IS NOT NULL THEN jsonb_strip_nulls(jsonb_build_object(
+            'recovery_failure', brc.recovery_failure,
+            'offensive', brc.offensive
+          )) END as ball_recovery,
+          CASE WHEN fo.event_id IS NOT NULL THEN jsonb_strip_nulls(jsonb_build_object(
+            'penalty', fo.penalty,
+            'card', e.raw_json->'foul_committed'->'card'->>'name',
+            'type', e.raw_json->'foul_committed'->'type'->>'name'
+          )) END as foul,
+          CASE WHEN bb.event_id IS NOT NULL THEN jsonb_strip_nulls(jsonb_build_object(
+            'card', e.raw_json->'bad_behaviour'->'card'->>'name'
+          )) END as bad_behaviour,
+          CASE WHEN gk.event_id IS NOT NULL THEN jsonb_strip_nulls(jsonb_build_object(
+            'type', gkt.name,
+            'outcome', gko.name,
+            'position', gkp.name,
+            'technique', gktech.name,
+            'body_part', gk_bp.name
+          )) END as goalkeeper
+        FROM events e
+        INNER JOIN event_types et ON e.type_id = et.id
+        INNER JOIN teams t ON e.team_id = t.team_id
+        LEFT JOIN play_patterns pp ON e.play_pattern_id = pp.id
+        LEFT JOIN players p ON e.player_id = p.player_id
+        LEFT JOIN positions pos ON e.position_id = pos.id
+        LEFT JOIN passes pa ON pa.event_id = e.id
+        LEFT JOIN players rp ON pa.recipient_id = rp.player_id
+        LEFT JOIN pass_heights ph ON pa.height_id = ph.id
+        LEFT JOIN pass_types pt ON pa.type_id = pt.id
+        LEFT JOIN pass_techniques ptech ON pa.technique_id = ptech.id
+        LEFT JOIN pass_outcomes po ON pa.outcome_id = po.id
+        LEFT JOIN body_parts pa_bp ON pa.body_part_id = pa_bp.id
+        LEFT JOIN shots sh ON sh.event_id = e.id
+        LEFT JOIN shot_outcomes so ON sh.outcome_id = so.id
+        LEFT JOIN shot_types st ON sh.type_id = st.id
+        LEFT JOIN shot_techniques stech ON sh.technique_id = stech.id
+        LEFT JOIN body_parts sh_bp ON sh.body_part_id = sh_bp.id
+        LEFT JOIN carries ca ON ca.event_id = e.id
+        LEFT JOIN dribbles dr ON dr.event_id = e.id
+        LEFT JOIN dribble_outcomes dro ON dr.outcome_id = dro.id
+        LEFT JOIN duels du ON du.event_id = e.id
+        LEFT JOIN duel_types dt ON du.duel_type_id = dt.id
+        LEFT JOIN duel_outcomes duo ON du.outcome_id = duo.id
+        LEFT JOIN interceptions ic ON ic.event_id = e.id
+        LEFT JOIN interception_outcomes ico ON ic.outcome_id = ico.id
+        LEFT JOIN clearances cl ON cl.event_id = e.id
+        LEFT JOIN body_parts cl_bp ON cl.body_part_id = cl_bp.id
+        LEFT JOIN blocks bl ON bl.event_id = e.id
+        LEFT JOIN fifty_fifties ff ON ff.event_id = e.id
+        LEFT JOIN fifty_fifty_outcomes ffo ON ff.outcome_id = ffo.id
+        LEFT JOIN ball_receipts br ON br.event_id = e.id
+        LEFT JOIN ball_receipt_outcomes bro ON br.outcome_id = bro.id
+        LEFT JOIN ball_recoveries brc ON brc.event_id = e.id
+        LEFT JOIN fouls fo ON fo.event_id = e.id
+        LEFT JOIN bad_behaviours bb ON bb.event_id = e.id
+        LEFT JOIN goalkeeper_events gk ON gk.event_id = e.id
+        LEFT JOIN goalkeeper_types gkt ON gk.gk_type_id = gkt.id
+        LEFT JOIN goalkeeper_outcomes gko ON gk.outcome_id = gko.id
+        LEFT JOIN goalkeeper_positions gkp ON gk.position_id = gkp.id
+        LEFT JOIN goalkeeper_techniques gktech ON gk.technique_id = gktech.id
+        LEFT JOIN body_parts gk_bp ON gk.body_part_id = gk_bp.id
+        WHERE ${sql.join(filters, sql` AND `)}
+        ORDER BY e.index ASC
+        LIMIT ${limit + 1}
+      `);
+
+      const hasMore = result.rows.length > limit;
+      const eventsList = hasMore ? result.rows.slice(0, limit) : result.rows;
+      const lastEvent = eventsList[eventsList.length - 1];
+
+      res.json({
+        success: true,
+        data: eventsList,
+        meta: {
+          limit,
+          hasMore,
+          nextCursor: hasMore && lastEvent ? (lastEvent.index as number) : null,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching match events:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch match events",
+      });
+    }
+  }
+);
+
+export { router as matchesRouter };
@@ -6,13 +6,25 @@ import {
   playerLineups,
   playerPositions,
   playerCards,
+  playerRoles,
   positions,
 } from "../db/schema/lineups.ts";
 import { matches, teams } from "../db/schema/matches.ts";
 import { competitions, seasons } from "../db/schema/competitions.ts";
-import { events } from "../db/schema/events.ts";
-import { desc, asc, count, eq, ilike, sql, and } from "drizzle-orm";
+import { desc, asc, count, eq, ilike, inArray, sql, and } from "drizzle-orm";
+import type { AnyColumn, SQL } from "drizzle-orm";
 import { validateQuery } from "../middleware/validation.ts";
+import { per90Fields, per90Sql } from "../services/per90.ts";
+import {
+  PLAYER_METRICS,
+  metricPercentileColumns,
+  playerMetricsCte,
+} from "../services/player-metrics.ts";
+import {
+  SIMILARITY_FEATURES,
+  findSimilarPlayers,
+  playerSimilarityDefaults,
+} from "../services/similarity.ts";
 
 const router = Router();
 
@@ -21,21 +33,307 @@ const playersQuerySchema = z.object({
   limit: z.coerce.number().min(1).max(100).default(10),
   offset: z.coerce.number().min(0).default(0),
   sortBy: z
-    .enum(["totalGoals", "totalAssists", "totalMatches", "playerName"])
+    .enum([
+      "totalGoals",
+      "totalAssists",
+      "totalMatches",
+      "totalMinutesPlayed",
+      "playerName",
+      "goalsPer90",
+      "assistsPer90",
+      "goalContributionsPer90",
+    ])
     .default("totalMatches"),
   order: z.enum(["asc", "desc"]).default("desc"),
   search: z.string().optional(),
+  per90: z.enum(["true", "false"]).default("false"),
+  minMinutes: z.coerce.number().min(0).default(0),
+  minGoalsPer90: z.coerce.number().min(0).optional(),
+  minAssistsPer90: z.coerce.number().min(0).optional(),
+  // Data-driven role (player_roles), optionally in one competition-season
+  role: z.string().trim().min(1).optional(),
+  roleCompetitionId: z.coerce.number().int().positive().optional(),
+  roleSeasonId: z.coerce.number().int().positive().optional(),
+});
+
+// Optional scope for per-player statistics
+const playerScopeQuerySchema = z.object({
+  competitionId: z.coerce.number().int().positive().optional(),
+  seasonId: z.coerce.number().int().positive().optional(),
+  teamId: z.coerce.number().int().positive().optional(),
+  dateFrom: z.iso.date().optional(),
+  dateTo: z.iso.date().optional(),
+});
+
+type PlayerScope = z.infer<typeof playerScopeQuerySchema>;
+
+const comprehensiveQuerySchema = playerScopeQuerySchema.extend({
+  per90: z.enum(["true", "false"]).default("false"),
+  minMinutes: z.coerce.number().min(0).default(0),
 });
 
+const percentilesQuerySchema = z
+  .object({
+    competitionId: z.coerce.number().int().positive().optional(),
+    seasonId: z.coerce.number().int().positive().optional(),
+    minMinutes: z.coerce.number().min(0).default(450),
+  })
+  .refine((query) => !query.competitionId === !query.seasonId, {
+    message: "competitionId and seasonId must be given together",
+    path: ["seasonId"],
+  });
+
+const compareQuerySchema = comprehensiveQuerySchema.extend({
+  ids: z
+    .string()
+    .transform((value) => [
+      ...new Set(value.split(",").map((id) => Number(id.trim()))),
+    ])
+    .pipe(z.array(z.number().int().positive()).min(2).max(5)),
+  per90: z.enum(["true", "false"]).default("true"),
+});
+
+const similarQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(50).default(10),
+  minMinutes: z.coerce.number().min(0).default(900),
+  // "same" = the player's own position group / gender
+  position: z
+    .enum(["same", "any", "Goalkeeper", "Defender", "Midfielder", "Forward"])
+    .default("same"),
+  gender: z.enum(["same", "any", "male", "female"]).default("same"),
+});
+
+// Counting stats (per stats group) that get a per-90 version
+const PER90_STATS = {
+  passing: ["total_passes", "successful_passes", "failed_passes", "key_passes"],
+  shooting: ["total_shots", "goals", "shots_on_target"],
+  dribbling: ["total_dribbles", "successful_dribbles", "failed_dribbles"],
+  duels: ["total_duels", "duels_won", "duels_lost"],
+  defensive: [
+    "interceptions",
+    "blocks",
+    "clearances",
+    "dispossessions",
+    "fouls_committed",
+    "fouls_won",
+    "pressure_events",
+  ],
+  goalkeeper: ["goalkeeper_actions", "saves", "goals_conceded"],
+} as const;
+
+/**
+ * Subquery selecting the player's match IDs within the requested scope.
+ * Returns undefined when no scope filter is set (i.e. the whole career).
+ */
+function playerMatchScope(
+  playerId: number,
+  scope: PlayerScope
+): SQL | undefined {
+  const filters: SQL[] = [];
+  if (scope.competitionId) {
+    filters.push(sql`m.competition_id = ${scope.competitionId}`);
+  }
+  if (scope.seasonId) {
+    filters.push(sql`m.season_id = ${scope.seasonId}`);
+  }
+  if (scope.teamId) {
+    filters.push(sql`pl.team_id = ${scope.teamId}`);
+  }
+  if (scope.dateFrom) {
+    filters.push(sql`m.match_date >= ${scope.dateFrom}`);
+  }
+  if (scope.dateTo) {
+    filters.push(sql`m.match_date <= ${scope.dateTo}`);
+  }
+
+  if (filters.length === 0) return undefined;
+
+  return sql`
+    SELECT pl.match_id
+    FROM player_lineups pl
+    INNER JOIN matches m ON pl.match_id = m.match_id
+    WHERE pl.player_id = ${playerId}
+      AND ${sql.join(filters, sql` AND `)}
+  `;
+}
+
+/**
+ * Data-driven roles of a player, one per competition-season
+ */
+function playerRolesQuery(playerId: number, scope: PlayerScope = {}) {
+  return db
+    .select({
+      competitionId: playerRoles.competitionId,
+      competitionName: competitions.competitionName,
+      seasonId: playerRoles.seasonId,
+      seasonName: seasons.seasonName,
+      positionCategory: playerRoles.positionCategory,
+      role: playerRoles.role,
+      roleConfidence: sql<number>`${playerRoles.roleConfidence}::float`,
+      minutesPlayed: sql<number>`${playerRoles.minutesPlayed}::float`,
+    })
+    .from(playerRoles)
+    .innerJoin(
+      competitions,
+      eq(playerRoles.competitionId, competitions.competitionId)
+    )
+    .innerJoin(
+      seasons,
+      and(
+        eq(playerRoles.competitionId, seasons.competitionId),
+        eq(playerRoles.seasonId, seasons.seasonId)
+      )
+    )
+    .where(
+      and(
+        eq(playerRoles.playerId, playerId),
+        scope.competitionId
+          ? eq(playerRoles.competitionId, scope.competitionId)
+          : undefined,
+        scope.seasonId ? eq(playerRoles.seasonId, scope.seasonId) : undefined
+      )
+    )
+    .orderBy(desc(seasons.seasonName), competitions.competitionName);
+}
+
+/**
+ * Stat blocks shared by the comprehensive and compare endpoints, plus the
+ * minutes played they cover (basis for per-90 values). Read from the
+ * player_match_stats fact table.
+ */
+async function playerStatBlocks(playerId: number, matchScope?: SQL) {
+  const result = await db.execute(sql`
+    SELECT
+      COALESCE(SUM(minutes_played), 0)::float as minutes_played,
+      COALESCE(SUM(passes), 0)::int as total_passes,
+      COALESCE(SUM(passes_completed), 0)::int as successful_passes,
+      COALESCE(SUM(passes - passes_completed), 0)::int as failed_passes,
+      ROUND(SUM(passes_completed) * 100.0 / NULLIF(SUM(passes), 0), 2) as pass_accuracy,
+      COALESCE(SUM(key_passes), 0)::int as key_passes,
+      COALESCE(SUM(shots), 0)::int as total_shots,
+      COALESCE(SUM(goals), 0)::int as goals,
+      COALESCE(SUM(shots_on_target), 0)::int as shots_on_target,
+      ROUND(SUM(shots_on_target) * 100.0 / NULLIF(SUM(shots), 0), 2) as shot_accuracy,
+      ROUND(SUM(xg) / NULLIF(SUM(shots), 0), 3) as avg_xg,
+      COALESCE(SUM(dribbles), 0)::int as total_dribbles,
+      COALESCE(SUM(successful_dribbles), 0)::int as successful_dribbles,
+      COALESCE(SUM(dribbles - successful_dribbles), 0)::int as failed_dribbles,
+      ROUND(SUM(successful_dribbles) * 100.0 / NULLIF(SUM(dribbles), 0), 2) as dribble_success_rate,
+      COALESCE(SUM(duels), 0)::int as total_duels,
+      COALESCE(SUM(duels_won), 0)::int as duels_won,
+      COALESCE(SUM(duels_lost), 0)::int as duels_lost,
+      ROUND(SUM(duels_won) * 100.0 / NULLIF(SUM(duels), 0), 2) as duel_win_rate,
+      COALESCE(SUM(interceptions), 0)::int as interceptions,
+      COALESCE(SUM(blocks), 0)::int as blocks,
+      COALESCE(SUM(clearances), 0)::int as clearances,
+      COALESCE(SUM(dispossessed), 0)::int as dispossessions,
+      COALESCE(SUM(fouls_committed), 0)::int as fouls_committed,
+      COALESCE(SUM(fouls_won), 0)::int as fouls_won,
+      COALESCE(SUM(pressures), 0)::int as pressure_events,
+      COALESCE(SUM(goalkeeper_actions), 0)::int as goalkeeper_actions,
+      COALESCE(SUM(saves), 0)::int as saves,
+      COALESCE(SUM(goals_conceded), 0)::int as goals_conceded
+    FROM player_match_stats
+    WHERE player_id = ${playerId}
+      ${matchScope ? sql`AND match_id IN (${matchScope})` : sql``}
+  `);
+
+  const row = result.rows[0];
+  const pick = (keys: string[]) =>
+    Object.fromEntries(keys.map((key) => [key, row[key]]));
+
+  return {
+    minutesPlayed: Number(row.minutes_played),
+    stats: {
+      passing: pick([
+        "total_passes",
+        "successful_passes",
+        "failed_passes",
+        "pass_accuracy",
+        "key_passes",
+      ]),
+      shooting: pick([
+        "total_shots",
+        "goals",
+        "shots_on_target",
+        "shot_accuracy",
+        "avg_xg",
+      ]),
+      dribbling: pick([
+        "total_dribbles",
+        "successful_dribbles",
+        "failed_dribbles",
+        "dribble_success_rate",
+      ]),
+      duels: pick(["total_duels", "duels_won", "duels_lost", "duel_win_rate"]),
+      defensive: pick([
+        "interceptions",
+        "blocks",
+        "clearances",
+        "dispossessions",
+        "fouls_committed",
+        "fouls_won",
+        "pressure_events",
+      ]),
+      goalkeeper: pick(["goalkeeper_actions", "saves", "goals_conceded"]),
+    },
+  };
+}
+
+type StatBlocks = Awaited<ReturnType<typeof playerStatBlocks>>["stats"];
+
+/**
+ * Per-90 versions of the counting stats in each block
+ */
+function statBlocksPer90(
+  stats: StatBlocks,
+  minutesPlayed: number,
+  minMinutes: number
+) {
+  return Object.fromEntries(
+    Object.entries(PER90_STATS).map(([group, keys]) => [
+      group,
+      per90Fields(
+        stats[group as keyof StatBlocks],
+        keys,
+        minutesPlayed,
+        minMinutes
+      ),
+    ])
+  );
+}
+
 /**
  * GET /api/players
- * List players with pagination and sorting
+ * List players with pagination, sorting and per-90 filters
  */
 router.get("/", validateQuery(playersQuerySchema), async (req, res) => {
   try {
     // Parse and validate query with defaults
-    const { limit, offset, sortBy, order, search } = playersQuerySchema.parse(
-      req.query
+    const {
+      limit,
+      offset,
+      sortBy,
+      order,
+      search,
+      per90,
+      minMinutes,
+      minGoalsPer90,
+      minAssistsPer90,
+      role,
+      roleCompetitionId,
+      roleSeasonId,
+    } = playersQuerySchema.parse(req.query);
+
+    // Per-90 values from career aggregates
+    const goalsPer90 = per90Sql(players.totalGoals, players.totalMinutesPlayed);
+    const assistsPer90 = per90Sql(
+      players.totalAssists,
+      players.totalMinutesPlayed
+    );
+    const goalContributionsPer90 = per90Sql(
+      sql`(${players.totalGoals} + ${players.totalAssists})`,
+      players.totalMinutesPlayed
     );
 
     // Map sortBy string to actual column
@@ -43,45 +341,75 @@ router.get("/", validateQuery(playersQuerySchema), async (req, res) => {
       totalGoals: players.totalGoals,
       totalAssists: players.totalAssists,
       totalMatches: players.totalMatches,
+      totalMinutesPlayed: players.totalMinutesPlayed,
       playerName: players.playerName,
+      goalsPer90,
+      assistsPer90,
+      goalContributionsPer90,
     };
     const sortField = sortFieldMap[sortBy];
 
-    // Build query
-    let baseQuery = db
+    // Build filters array
+    const filters = [];
+    if (search && search.trim()) {
+      filters.push(ilike(players.playerName, `%${search.trim()}%`));
+    }
+    if (minMinutes > 0) {
+      filters.push(sql`${players.totalMinutesPlayed} >= ${minMinutes}`);
+    }
+    if (minGoalsPer90 !== undefined) {
+      filters.push(sql`${goalsPer90} >= ${minGoalsPer90}`);
+    }
+    if (minAssistsPer90 !== undefined) {
+      filters.push(sql`${assistsPer90} >= ${minAssistsPer90}`);
+    }
+    if (role) {
+      filters.push(sql`EXISTS (
+        SELECT 1 FROM player_roles pr
+        WHERE pr.player_id = ${players.playerId}
+          AND pr.role = ${role}
+          ${
+            roleCompetitionId
+              ? sql`AND pr.competition_id = ${roleCompetitionId}`
+              : sql``
+          }
+          ${roleSeasonId ? sql`AND pr.season_id = ${roleSeasonId}` : sql``}
+      )`);
+    }
+    const where = filters.length > 0 ? and(...filters) : undefined;
+
+    const playersList = await db
       .select({
         playerId: players.playerId,
         playerName: players.playerName,
         playerNickname: players.playerNickname,
         totalMatches: players.totalMatches,
+        totalMinutesPlayed: players.totalMinutesPlayed,
         totalGoals: players.totalGoals,
         totalAssists: players.totalAssists,
+        ...(per90 === "true" && {
+          goalsPer90,
+          assistsPer90,
+          goalContributionsPer90,
+        }),
       })
       .from(players)
-      .$dynamic();
-
-    // Apply search filter if provided
-    if (search && search.trim()) {
-      baseQuery = baseQuery.where(
-        ilike(players.playerName, `%${search.trim()}%`)
-      );
-    }
-
-    const queryWithSort =
-      order === "asc"
-        ? baseQuery.orderBy(asc(sortField))
-        : baseQuery.orderBy(desc(sortField));
-
-    const playersList = await queryWithSort.limit(limit).offset(offset);
+      .where(where)
+      .orderBy(
+        // NULLS LAST keeps players without minutes out of per-90 leaderboards
+        order === "asc"
+          ? sql`${sortField} ASC NULLS LAST`
+          : sql`${sortField} DESC NULLS LAST`,
+        asc(players.playerId)
+      )
+      .limit(limit)
+      .offset(offset);
 
-    // Get total count with search filter
-    let countQuery = db.select({ value: count() }).from(players).$dynamic();
-    if (search && search.trim()) {
-      countQuery = countQuery.where(
-        ilike(players.playerName, `%${search.trim()}%`)
-      );
-    }
-    const [{ value: total }] = await countQuery;
+    // Get total count with filters
+    const [{ value: total }] = await db
+      .select({ value: count() })
+      .from(players)
+      .where(where);
 
     res.json({
       success: true,
@@ -102,6 +430,112 @@ router.get("/", validateQuery(playersQuerySchema), async (req, res) => {
   }
 });
 
+/**
+ * GET /api/players/roles
+ * Data-driven roles (from player_roles) with player-season counts
+ */
+router.get("/roles", async (req, res) => {
+  try {
+    const roles = await db
+      .select({
+        role: playerRoles.role,
+        positionCategory: playerRoles.positionCategory,
+        playerSeasons: count(),
+        avgConfidence: sql<number>`ROUND(AVG(${playerRoles.roleConfidence}), 3)::float`,
+      })
+      .from(playerRoles)
+      .groupBy(playerRoles.role, playerRoles.positionCategory)
+      .orderBy(playerRoles.positionCategory, playerRoles.role);
+
+    res.json({
+      success: true,
+      data: roles,
+    });
+  } catch (error) {
+    console.error("Error fetching player roles:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch player roles",
+    });
+  }
+});
+
+/**
+ * GET /api/players/compare?ids=1,2,3
+ * Side-by-side stat blocks for 2-5 players, using the same scope filters
+ * and per-90 normalization for every player
+ */
+router.get("/compare", validateQuery(compareQuerySchema), async (req, res) => {
+  try {
+    const { ids, per90, minMinutes, ...scope } = compareQuerySchema.parse(
+      req.query
+    );
+
+    const playersList = await db
+      .select({
+        playerId: players.playerId,
+        playerName: players.playerName,
+        playerNickname: players.playerNickname,
+      })
+      .from(players)
+      .where(inArray(players.playerId, ids));
+
+    const missing = ids.filter(
+      (id) => !playersList.some((player) => player.playerId === id)
+    );
+
+    if (missing.length > 0) {
+      return res.status(404).json({
+        success: false,
+        error: `Players not found: ${missing.join(", ")}`,
+      });
+    }
+
+    // Keep the order of the requested IDs
+    const compared = await Promise.all(
+      ids.map(async (playerId) => {
+        const player = playersList.find((p) => p.playerId === playerId);
+        const { stats, minutesPlayed } = await playerStatBlocks(
+          playerId,
+          playerMatchScope(playerId, scope)
+        );
+
+        return {
+          player,
+          minutesPlayed,
+          belowMinMinutes: minutesPlayed < minMinutes,
+          stats: {
+            ...stats,
+            per90:
+              per90 === "true"
+                ? statBlocksPer90(stats, minutesPlayed, minMinutes)
+                : undefined,
+          },
+        };
+      })
+    );
+
+    res.json({
+      success: true,
+      data: {
+        scope,
+        players: compared,
+      },
+      meta: {
+        ids,
+        per90: per90 === "true",
+        minMinutes,
+      },
+    });
+  } catch (error) {
+    console.error("Error comparing players:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to compare players",
+    });
+  }
+});
+
 /**
  * GET /api/players/:id
  * Get individual player by ID
@@ -129,9 +563,14 @@ router.get("/:id", async (req, res) => {
       });
     }
 
+    const roles = await playerRolesQuery(playerId);
+
     res.json({
       success: true,
-      data: player,
+      data: {
+        ...player,
+        roles,
+      },
     });
   } catch (error) {
     console.error("Error fetching player:", error);
@@ -144,9 +583,167 @@ router.get("/:id", async (req, res) => {
 
 /**
  * GET /api/players/:id/comprehensive
- * Get COMPREHENSIVE player stats - EVERYTHING from all tables
+ * Get COMPREHENSIVE player stats - EVERYTHING from all tables.
+ * Optionally scoped to a competition, season, team and/or date range.
+ */
+router.get(
+  "/:id/comprehensive",
+  validateQuery(comprehensiveQuerySchema),
+  async (req, res) => {
+    try {
+      const playerId = parseInt(req.params.id);
+
+      if (isNaN(playerId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid player ID",
+        });
+      }
+
+      const { per90, minMinutes, ...scope } = comprehensiveQuerySchema.parse(
+        req.query
+      );
+      const matchScope = playerMatchScope(playerId, scope);
+
+      // Scope filter for query-builder columns
+      const inScope = (column: AnyColumn) =>
+        matchScope ? sql`${column} IN (${matchScope})` : undefined;
+
+      // 1. Basic player info
+      const [player] = await db
+        .select()
+        .from(players)
+        .where(eq(players.playerId, playerId));
+
+      if (!player) {
+        return res.status(404).json({
+          success: false,
+          error: "Player not found",
+        });
+      }
+
+      // 2. Positions played (with names)
+      const positionsPlayed = await db
+        .select({
+          positionId: positions.id,
+          positionName: positions.positionName,
+          positionCategory: positions.positionCategory,
+          timesPlayed: sql<number>`COUNT(DISTINCT ${playerPositions.matchId})::int`,
+        })
+        .from(playerPositions)
+        .innerJoin(positions, eq(playerPositions.positionId, positions.id))
+        .where(
+          and(
+            eq(playerPositions.playerId, playerId),
+            inScope(playerPositions.matchId)
+          )
+        )
+        .groupBy(
+          positions.id,
+          positions.positionName,
+          positions.positionCategory
+        )
+        .orderBy(sql`COUNT(DISTINCT ${playerPositions.matchId}) DESC`);
+
+      // 3. Teams played for
+      const teamsPlayedFor = await db
+        .select({
+          teamId: teams.teamId,
+          teamName: teams.teamName,
+          teamGender: teams.teamGender,
+          matches: sql<number>`COUNT(DISTINCT ${playerLineups.matchId})::int`,
+        })
+        .from(playerLineups)
+        .innerJoin(teams, eq(playerLineups.teamId, teams.teamId))
+        .where(
+          and(
+            eq(playerLineups.playerId, playerId),
+            inScope(playerLineups.matchId)
+          )
+        )
+        .groupBy(teams.teamId, teams.teamName, teams.teamGender)
+        .orderBy(sql`COUNT(DISTINCT ${playerLineups.matchId}) DESC`);
+
+      // 4. Data-driven roles (per competition-season)
+      const roles = await playerRolesQuery(playerId, scope);
+
+      // 5. Event statistics and minutes played in scope
+      const { stats, minutesPlayed } = await playerStatBlocks(
+        playerId,
+        matchScope
+      );
+
+      // 6. Competitions played in
+      const competitionsPlayed = await db
+        .select({
+          competitionId: competitions.competitionId,
+          competitionName: competitions.competitionName,
+          seasons: sql<string>`STRING_AGG(DISTINCT ${seasons.seasonName}, ', ')`,
+          matches: sql<number>`COUNT(DISTINCT ${playerLineups.matchId})::int`,
+        })
+        .from(playerLineups)
+        .innerJoin(matches, eq(playerLineups.matchId, matches.matchId))
+        .innerJoin(
+          competitions,
+          eq(matches.competitionId, competitions.competitionId)
+        )
+        .innerJoin(
+          seasons,
+          and(
+            eq(matches.competitionId, seasons.competitionId),
+            eq(matches.seasonId, seasons.seasonId)
+          )
+        )
+        .where(
+          and(
+            eq(playerLineups.playerId, playerId),
+            inScope(playerLineups.matchId)
+          )
+        )
+        .groupBy(competitions.competitionId, competitions.competitionName)
+        .orderBy(sql`COUNT(DISTINCT ${playerLineups.matchId}) DESC`);
+
+      const per90Stats =
+        per90 === "true"
+          ? statBlocksPer90(stats, minutesPlayed, minMinutes)
+          : undefined;
+
+      res.json({
+        success: true,
+        data: {
+          player,
+          scope,
+          minutesPlayed,
+          positionsPlayed,
+          teamsPlayedFor,
+          competitionsPlayed,
+          roles,
+          stats: {
+            ...stats,
+            per90: per90Stats,
+          },
+        },
+        meta: {
+          per90: per90 === "true",
+          minMinutes,
+          belowMinMinutes: minutesPlayed < minMinutes,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching comprehensive player stats:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch comprehensive player stats",
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/players/:id/seasons
+ * Career split - one row per competition-season
  */
-router.get("/:id/comprehensive", async (req, res) => {
+router.get("/:id/seasons", async (req, res) => {
   try {
     const playerId = parseInt(req.params.id);
 
@@ -157,9 +754,11 @@ router.get("/:id/comprehensive", async (req, res) => {
       });
     }
 
-    // 1. Basic player info
     const [player] = await db
-      .select()
+      .select({
+        playerId: players.playerId,
+        playerName: players.playerName,
+      })
       .from(players)
       .where(eq(players.playerId, playerId));
 
@@ -170,162 +769,287 @@ router.get("/:id/comprehensive", async (req, res) => {
       });
     }
 
-    // 2. Positions played (with names)
-    const positionsPlayed = await db
-      .select({
-        positionId: positions.id,
-        positionName: positions.positionName,
-        positionCategory: positions.positionCategory,
-        timesPlayed: sql<number>`COUNT(DISTINCT ${playerPositions.matchId})::int`,
-      })
-      .from(playerPositions)
-      .innerJoin(positions, eq(playerPositions.positionId, positions.id))
-      .where(eq(playerPositions.playerId, playerId))
-      .groupBy(positions.id, positions.positionName, positions.positionCategory)
-      .orderBy(sql`COUNT(DISTINCT ${playerPositions.matchId}) DESC`);
-
-    // 3. Teams played for
-    const teamsPlayedFor = await db
-      .select({
-        teamId: teams.teamId,
-        teamName: teams.teamName,
-        teamGender: teams.teamGender,
-        matches: sql<number>`COUNT(DISTINCT ${playerLineups.matchId})::int`,
-      })
-      .from(playerLineups)
-      .innerJoin(teams, eq(playerLineups.teamId, teams.teamId))
-      .where(eq(playerLineups.playerId, playerId))
-      .groupBy(teams.teamId, teams.teamName, teams.teamGender)
-      .orderBy(sql`COUNT(DISTINCT ${playerLineups.matchId}) DESC`);
-
-    // 5. Event statistics from events table (with proper joins to subtables)
-    const passStats = await db.execute(sql`
-      SELECT
-        COUNT(*)::int as total_passes,
-        COUNT(*) FILTER (WHERE p.outcome_id IS NULL)::int as successful_passes,
-        COUNT(*) FILTER (WHERE p.outcome_id IS NOT NULL)::int as failed_passes,
-        ROUND(AVG(CASE WHEN p.outcome_id IS NULL THEN 100.0 ELSE 0.0 END), 2) as pass_accuracy,
-        COUNT(*) FILTER (WHERE p.goal_assist = true)::int as key_passes
-      FROM events e
-      LEFT JOIN passes p ON e.id = p.event_id
-      WHERE e.player_id = ${playerId} AND e.type_id = 30
-    `);
-
-    const shotStats = await db.execute(sql`
-      SELECT
-        COUNT(*)::int as total_shots,
-        COUNT(*) FILTER (WHERE s.outcome_id = 97)::int as goals,
-        COUNT(*) FILTER (WHERE s.outcome_id IN (96, 97, 115, 116))::int as shots_on_target,
-        ROUND(
-          COUNT(*) FILTER (WHERE s.outcome_id IN (96, 97, 115, 116))::decimal * 100.0 / 
-          NULLIF(COUNT(*), 0), 2
-        ) as shot_accuracy,
-        ROUND(AVG(s.shot_xg), 3) as avg_xg
-      FROM events e
-      LEFT JOIN shots s ON e.id = s.event_id
-      WHERE e.player_id = ${playerId} AND e.type_id = 16
-    `);
-
-    const dribbleStats = await db.execute(sql`
+    // Squad rows without events still count (match stats exist for every
+    // lineup entry; penalty shootouts are excluded there)
+    const seasonsList = await db.execute(sql`
       SELECT
-        COUNT(*)::int as total_dribbles,
-        COUNT(*) FILTER (WHERE d.outcome_id = 8)::int as successful_dribbles,
-        COUNT(*) FILTER (WHERE d.outcome_id = 9)::int as failed_dribbles,
+        m.competition_id,
+        c.competition_name,
+        m.season_id,
+        se.season_name,
+        JSONB_AGG(DISTINCT JSONB_BUILD_OBJECT('teamId', t.team_id, 'teamName', t.team_name)) as teams,
+        COUNT(*) FILTER (WHERE COALESCE(pl.minutes_played, 0) > 0)::int as matches,
+        COUNT(*) FILTER (WHERE pl.is_starter)::int as starts,
+        ROUND(COALESCE(SUM(pl.minutes_played), 0), 0)::int as minutes,
+        COALESCE(SUM(pms.goals), 0)::int as goals,
+        COALESCE(SUM(pms.assists), 0)::int as assists,
+        COALESCE(SUM(pms.shots), 0)::int as shots,
+        ROUND(COALESCE(SUM(pms.xg), 0), 2) as xg,
+        COALESCE(SUM(pms.passes), 0)::int as passes,
         ROUND(
-          COUNT(*) FILTER (WHERE d.outcome_id = 8)::decimal * 100.0 / 
-          NULLIF(COUNT(*), 0), 2
-        ) as dribble_success_rate
-      FROM events e
-      LEFT JOIN dribbles d ON e.id = d.event_id
-      WHERE e.player_id = ${playerId} AND e.type_id = 14
-    `);
-
-    const duelStats = await db.execute(sql`
-      SELECT
-        COUNT(*)::int as total_duels,
-        COUNT(*) FILTER (WHERE du.outcome_id IN (13, 14, 15))::int as duels_won,
-        COUNT(*) FILTER (WHERE du.outcome_id IN (3, 4))::int as duels_lost,
-        ROUND(
-          COUNT(*) FILTER (WHERE du.outcome_id IN (13, 14, 15))::decimal * 100.0 / 
-          NULLIF(COUNT(*), 0), 2
-        ) as duel_win_rate
-      FROM events e
-      LEFT JOIN duels du ON e.id = du.event_id
-      WHERE e.player_id = ${playerId} AND e.type_id = 4
-    `);
-
-    const defensiveStats = await db.execute(sql`
-      SELECT
-        COUNT(*) FILTER (WHERE type_id = 10)::int as interceptions,
-        COUNT(*) FILTER (WHERE type_id = 6)::int as blocks,
-        COUNT(*) FILTER (WHERE type_id = 12)::int as clearances,
-        COUNT(*) FILTER (WHERE type_id = 3)::int as dispossessions,
-        COUNT(*) FILTER (WHERE type_id = 22)::int as fouls_committed,
-        COUNT(*) FILTER (WHERE type_id = 21)::int as fouls_won,
-        COUNT(*) FILTER (WHERE type_id = 37)::int as pressure_events
-      FROM events
-      WHERE player_id = ${playerId}
+          SUM(pms.passes_completed)::decimal * 100.0 / NULLIF(SUM(pms.passes), 0), 2
+        ) as pass_accuracy
+      FROM player_lineups pl
+      INNER JOIN matches m ON pl.match_id = m.match_id
+      INNER JOIN competitions c ON m.competition_id = c.competition_id
+      INNER JOIN seasons se ON m.competition_id = se.competition_id AND m.season_id = se.season_id
+      INNER JOIN teams t ON pl.team_id = t.team_id
+      LEFT JOIN player_match_stats pms
+        ON pl.match_id = pms.match_id AND pl.player_id = pms.player_id
+      WHERE pl.player_id = ${playerId}
+      GROUP BY m.competition_id, c.competition_name, m.season_id, se.season_name
+      ORDER BY se.season_name DESC, c.competition_name
     `);
 
-    const goalkeeperStats = await db.execute(sql`
-      SELECT
-        COUNT(*)::int as goalkeeper_actions,
-        COUNT(*) FILTER (WHERE gk.outcome_id IN (2, 3, 4))::int as saves,
-        COUNT(*) FILTER (WHERE gk.outcome_id IN (11, 12, 13, 14, 15, 16))::int as goals_conceded
-      FROM events e
-      LEFT JOIN goalkeeper_events gk ON e.id = gk.event_id
-      WHERE e.player_id = ${playerId} AND e.type_id = 23
-    `);
-
-    // 6. Competitions played in
-    const competitionsPlayed = await db
-      .select({
-        competitionId: competitions.competitionId,
-        competitionName: competitions.competitionName,
-        seasons: sql<string>`STRING_AGG(DISTINCT ${seasons.seasonName}, ', ')`,
-        matches: sql<number>`COUNT(DISTINCT ${playerLineups.matchId})::int`,
-      })
-      .from(playerLineups)
-      .innerJoin(matches, eq(playerLineups.matchId, matches.matchId))
-      .innerJoin(
-        competitions,
-        eq(matches.competitionId, competitions.competitionId)
-      )
-      .innerJoin(
-        seasons,
-        and(
-          eq(matches.competitionId, seasons.competitionId),
-          eq(matches.seasonId, seasons.seasonId)
-        )
-      )
-      .where(eq(playerLineups.playerId, playerId))
-      .groupBy(competitions.competitionId, competitions.competitionName)
-      .orderBy(sql`COUNT(DISTINCT ${playerLineups.matchId}) DESC`);
-
     res.json({
       success: true,
       data: {
         player,
-        positionsPlayed,
-        teamsPlayedFor,
-        competitionsPlayed,
-        stats: {
-          passing: passStats.rows[0],
-          shooting: shotStats.rows[0],
-          dribbling: dribbleStats.rows[0],
-          duels: duelStats.rows[0],
-          defensive: defensiveStats.rows[0],
-          goalkeeper: goalkeeperStats.rows[0],
-        },
+        seasons: seasonsList.rows,
       },
     });
   } catch (error) {
-    console.error("Error fetching comprehensive player stats:", error);
+    console.error("Error fetching player seasons:", error);
     res.status(500).json({
       success: false,
-      error: "Failed to fetch comprehensive player stats",
+      error: "Failed to fetch player seasons",
     });
   }
 });
 
+/**
+ * GET /api/players/:id/percentiles
+ * Per-90 percentile ranks against players in the same position group and
+ * competition-season (defaults to the player's most recent one)
+ */
+router.get(
+  "/:id/percentiles",
+  validateQuery(percentilesQuerySchema),
+  async (req, res) => {
+    try {
+      const playerId = parseInt(req.params.id);
+
+      if (isNaN(playerId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid player ID",
+        });
+      }
+
+      const query = percentilesQuerySchema.parse(req.query);
+
+      const [player] = await db
+        .select({
+          playerId: players.playerId,
+          playerName: players.playerName,
+        })
+        .from(players)
+        .where(eq(players.playerId, playerId));
+
+      if (!player) {
+        return res.status(404).json({
+          success: false,
+          error: "Player not found",
+        });
+      }
+
+      let competitionId = query.competitionId;
+      let seasonId = query.seasonId;
+
+      if (!competitionId || !seasonId) {
+        const [latest] = await db
+          .select({
+            competitionId: matches.competitionId,
+            seasonId: matches.seasonId,
+          })
+          .from(playerLineups)
+          .innerJoin(matches, eq(playerLineups.matchId, matches.matchId))
+          .where(
+            and(
+              eq(playerLineups.playerId, playerId),
+              sql`COALESCE(${playerLineups.minutesPlayed}, 0) > 0`
+            )
+          )
+          .orderBy(desc(matches.matchDate))
+          .limit(1);
+
+        if (!latest) {
+          return res.status(404).json({
+            success: false,
+            error: "No matches found for player",
+          });
+        }
+
+        competitionId = latest.competitionId;
+        seasonId = latest.seasonId;
+      }
+
+      const [competitionSeason] = await db
+        .select({
+          competitionId: seasons.competitionId,
+          competitionName: competitions.competitionName,
+          seasonId: seasons.seasonId,
+          seasonName: seasons.seasonName,
+        })
+        .from(seasons)
+        .innerJoin(
+          competitions,
+          eq(seasons.competitionId, competitions.competitionId)
+        )
+        .where(
+          and(
+            eq(seasons.competitionId, competitionId),
+            eq(seasons.seasonId, seasonId)
+          )
+        );
+
+      if (!competitionSeason) {
+        return res.status(404).json({
+          success: false,
+          error: "Competition season not found",
+        });
+      }
+
+      const result = await db.execute(sql`
+        WITH ${playerMetricsCte(competitionId, seasonId, query.minMinutes)},
+        ranked AS (
+          SELECT
+            pm.*,
+            COUNT(*) OVER (PARTITION BY position_category)::int as peers,
+            ${metricPercentileColumns()}
+          FROM player_metrics pm
+        )
+        SELECT * FROM ranked WHERE player_id = ${playerId}
+      `);
+
+      const row = result.rows[0] as Record<string, unknown> | undefined;
+
+      // Below the minutes threshold (or no position data) - nothing to rank
+      if (!row) {
+        return res.json({
+          success: true,
+          data: {
+            player,
+            competitionSeason,
+            positionCategory: null,
+            minutes: null,
+            matches: null,
+            peers: 0,
+            metrics: [],
+          },
+          meta: {
+            minMinutes: query.minMinutes,
+            eligible: false,
+          },
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          player,
+          competitionSeason,
+          positionCategory: row.position_category,
+          minutes: Math.round(Number(row.minutes)),
+          matches: row.matches,
+          peers: row.peers,
+          metrics: PLAYER_METRICS.map((metric) => ({
+            key: metric.key,
+            label: metric.label,
+            per90: metric.per90,
+            inverted: metric.inverted ?? false,
+            value: row[metric.key],
+            percentile: row[`${metric.key}_percentile`],
+          })),
+        },
+        meta: {
+          minMinutes: query.minMinutes,
+          eligible: true,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching player percentiles:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch player percentiles",
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/players/:id/similar
+ * Nearest neighbours by cosine similarity of per-90 event profiles
+ */
+router.get(
+  "/:id/similar",
+  validateQuery(similarQuerySchema),
+  async (req, res) => {
+    try {
+      const playerId = parseInt(req.params.id);
+
+      if (isNaN(playerId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid player ID",
+        });
+      }
+
+      const { limit, minMinutes, position, gender } = similarQuerySchema.parse(
+        req.query
+      );
+
+      const defaults = await playerSimilarityDefaults(playerId);
+      const positionCategory =
+        position === "same"
+          ? defaults.positionCategory
+          : position === "any"
+          ? undefined
+          : position;
+      const teamGender =
+        gender === "same"
+          ? defaults.gender
+          : gender === "any"
+          ? undefined
+          : gender;
+
+      const result = await findSimilarPlayers(playerId, {
+        positionCategory,
+        gender: teamGender,
+        minMinutes,
+        limit,
+      });
+
+      if (!result) {
+        return res.status(404).json({
+          success: false,
+          error: "No minutes found for player",
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          player: result.player,
+          similar: result.similar,
+        },
+        meta: {
+          features: SIMILARITY_FEATURES,
+          positionCategory: positionCategory ?? null,
+          gender: teamGender ?? null,
+          minMinutes,
+          limit,
+          candidates: result.candidates,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching similar players:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch similar players",
+      });
+    }
+  }
+);
+
 export { router as playersRouter };
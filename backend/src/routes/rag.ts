@@ -5,6 +5,7 @@ import { z } from "zod";
 import { db } from "../db/index.ts";
 import { sql } from "drizzle-orm";
 import { getSchemaContext } from "../services/schema-cache.ts";
+import { formatTaxonomyForAI } from "../services/event-taxonomy.ts";
 import { env } from "../../env.ts";
 
 const google = createGoogleGenerativeAI({
@@ -145,6 +146,8 @@ IMPORTANT SQL GUIDELINES:
 
 ${schemaContext}
 
+${formatTaxonomyForAI()}
+
 KEY TABLES OVERVIEW:
 - players: Player stats (player_name, total_goals, total_assists, total_matches, total_minutes_played) - NO birth dates or age
 - teams: Team information (team_name, team_gender, country)
@@ -153,6 +156,8 @@ KEY TABLES OVERVIEW:
 - events: Individual match events (passes, shots, tackles, etc.) - 3.4M rows - use sparingly
 - shots: Shot-specific data with xG values
 - passes: Pass-specific data with completion info
+- player_match_stats: Per player per match totals (minutes_played, passes, shots, goals, xg, assists, duels, tackles_won, cards, ...) - prefer over events for player totals
+- team_match_stats: Per team per match totals (opponent_id, is_home, passes, shots, goals, xg, pressures, cards, ...) - prefer over events for team totals
 
 IMPORTANT DATA LIMITATIONS:
 - NO player birth dates or ages available
@@ -0,0 +1,367 @@
+import { Router } from "express";
+import { z } from "zod";
+import { db } from "../db/index.ts";
+import { referees, matches } from "../db/schema/matches.ts";
+import { countries } from "../db/schema/competitions.ts";
+import { eq, asc, desc, count, ilike, sql } from "drizzle-orm";
+import type { SQL } from "drizzle-orm";
+import { validateQuery } from "../middleware/validation.ts";
+import { CARD_TYPE, EVENT_TYPE } from "../services/event-taxonomy.ts";
+
+const router = Router();
+
+// Query validation schema
+const refereesQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(100).default(20),
+  offset: z.coerce.number().min(0).default(0),
+  sortBy: z.enum(["refereeName", "matches"]).default("matches"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  search: z.string().optional(),
+});
+
+/**
+ * Per-match disciplinary numbers for refereed matches matching `filter`.
+ *
+ * Cards come from player_cards (team resolved through player_lineups),
+ * fouls and penalties from Foul Committed events. A penalty is credited
+ * to the side that did NOT commit the foul.
+ */
+function matchDiscipline(filter: SQL) {
+  return sql`
+    SELECT
+      m.match_id,
+      m.match_date,
+      m.competition_id,
+      m.referee_id,
+      m.home_team_id,
+      m.away_team_id,
+      COALESCE(cards.yellow_cards, 0)::int as yellow_cards,
+      COALESCE(cards.red_cards, 0)::int as red_cards,
+      COALESCE(cards.home_cards, 0)::int as home_cards,
+      COALESCE(cards.away_cards, 0)::int as away_cards,
+      COALESCE(fouls.fouls, 0)::int as fouls,
+      COALESCE(fouls.carded_fouls, 0)::int as carded_fouls,
+      COALESCE(fouls.penalties, 0)::int as penalties,
+      COALESCE(fouls.home_penalties, 0)::int as home_penalties,
+      COALESCE(fouls.away_penalties, 0)::int as away_penalties
+    FROM matches m
+    LEFT JOIN LATERAL (
+      SELECT
+        COUNT(*) FILTER (WHERE pc.card_type = ${CARD_TYPE.YELLOW_CARD}) as yellow_cards,
+        COUNT(*) FILTER (
+          WHERE pc.card_type IN (${CARD_TYPE.RED_CARD}, ${CARD_TYPE.SECOND_YELLOW})
+        ) as red_cards,
+        COUNT(*) FILTER (WHERE pl.team_id = m.home_team_id) as home_cards,
+        COUNT(*) FILTER (WHERE pl.team_id = m.away_team_id) as away_cards
+      FROM player_cards pc
+      INNER JOIN player_lineups pl
+        ON pc.match_id = pl.match_id AND pc.player_id = pl.player_id
+      WHERE pc.match_id = m.match_id
+    ) cards ON true
+    LEFT JOIN LATERAL (
+      SELECT
+        COUNT(*) as fouls,
+        COUNT(*) FILTER (WHERE f.card_id IS NOT NULL) as carded_fouls,
+        COUNT(*) FILTER (WHERE f.penalty) as penalties,
+        COUNT(*) FILTER (WHERE f.penalty AND e.team_id = m.away_team_id) as home_penalties,
+        COUNT(*) FILTER (WHERE f.penalty AND e.team_id = m.home_team_id) as away_penalties
+      FROM events e
+      INNER JOIN fouls f ON e.id = f.event_id
+      WHERE e.match_id = m.match_id
+        AND e.type_id = ${EVENT_TYPE.FOUL_COMMITTED}
+    ) fouls ON true
+    WHERE m.referee_id IS NOT NULL
+      AND ${filter}
+  `;
+}
+
+// Sums over a set of matchDiscipline rows
+const DISCIPLINE_TOTALS = sql.raw(`
+  COUNT(*)::int as matches,
+  SUM(yellow_cards)::int as yellow_cards,
+  SUM(red_cards)::int as red_cards,
+  SUM(home_cards)::int as home_cards,
+  SUM(away_cards)::int as away_cards,
+  SUM(fouls)::int as fouls,
+  SUM(carded_fouls)::int as carded_fouls,
+  SUM(penalties)::int as penalties,
+  SUM(home_penalties)::int as home_penalties,
+  SUM(away_penalties)::int as away_penalties
+`);
+
+interface DisciplineTotals {
+  matches: number;
+  yellow_cards: number;
+  red_cards: number;
+  home_cards: number;
+  away_cards: number;
+  fouls: number;
+  carded_fouls: number;
+  penalties: number;
+  home_penalties: number;
+  away_penalties: number;
+}
+
+const TOTAL_KEYS = [
+  "matches",
+  "yellow_cards",
+  "red_cards",
+  "home_cards",
+  "away_cards",
+  "fouls",
+  "carded_fouls",
+  "penalties",
+  "home_penalties",
+  "away_penalties",
+] as const;
+
+function round(value: number, decimals = 2) {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Turn summed counts into per-match rates and bias figures
+ */
+function disciplineRates(totals: DisciplineTotals) {
+  const perMatch = (value: number) =>
+    totals.matches > 0 ? round(value / totals.matches) : null;
+  const cards = totals.yellow_cards + totals.red_cards;
+
+  return {
+    matches: totals.matches,
+    cardsPerMatch: perMatch(cards),
+    yellowCardsPerMatch: perMatch(totals.yellow_cards),
+    redCardsPerMatch: perMatch(totals.red_cards),
+    foulsPerMatch: perMatch(totals.fouls),
+    foulsPerCard: cards > 0 ? round(totals.fouls / cards) : null,
+    penaltiesPerMatch: perMatch(totals.penalties),
+    penalties: round(totals.penalties),
+    homeCardsPerMatch: perMatch(totals.home_cards),
+    awayCardsPerMatch: perMatch(totals.away_cards),
+    // Share of cards shown to the away side (0.5 = no bias)
+    awayCardShare:
+      totals.home_cards + totals.away_cards > 0
+        ? round(totals.away_cards / (totals.home_cards + totals.away_cards), 3)
+        : null,
+    homePenalties: round(totals.home_penalties),
+    awayPenalties: round(totals.away_penalties),
+  };
+}
+
+function sumTotals(rows: DisciplineTotals[]): DisciplineTotals {
+  const totals = Object.fromEntries(
+    TOTAL_KEYS.map((key) => [key, 0])
+  ) as unknown as DisciplineTotals;
+  for (const row of rows) {
+    for (const key of TOTAL_KEYS) {
+      totals[key] += Number(row[key]);
+    }
+  }
+  return totals;
+}
+
+/**
+ * GET /api/referees
+ * List referees with pagination, sorting, and search
+ */
+router.get("/", validateQuery(refereesQuerySchema), async (req, res) => {
+  try {
+    const { limit, offset, sortBy, order, search } = refereesQuerySchema.parse(
+      req.query
+    );
+
+    const matchCount = sql<number>`COUNT(${matches.matchId})::int`;
+
+    // Map sortBy string to actual column
+    const sortFieldMap = {
+      refereeName: referees.refereeName,
+      matches: matchCount,
+    };
+    const sortField = sortFieldMap[sortBy];
+
+    const searchFilter =
+      search && search.trim()
+        ? ilike(referees.refereeName, `%${search.trim()}%`)
+        : undefined;
+
+    const refereesList = await db
+      .select({
+        refereeId: referees.refereeId,
+        refereeName: referees.refereeName,
+        country: {
+          id: countries.id,
+          name: countries.name,
+        },
+        matches: matchCount,
+        competitions: sql<number>`COUNT(DISTINCT ${matches.competitionId})::int`,
+      })
+      .from(referees)
+      .leftJoin(countries, eq(referees.countryId, countries.id))
+      .leftJoin(matches, eq(referees.refereeId, matches.refereeId))
+      .where(searchFilter)
+      .groupBy(referees.refereeId, countries.id, countries.name)
+      .orderBy(
+        order === "asc" ? asc(sortField) : desc(sortField),
+        asc(referees.refereeId)
+      )
+      .limit(limit)
+      .offset(offset);
+
+    const [{ value: total }] = await db
+      .select({ value: count() })
+      .from(referees)
+      .where(searchFilter);
+
+    res.json({
+      success: true,
+      data: refereesList,
+      meta: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching referees:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch referees",
+    });
+  }
+});
+
+/**
+ * GET /api/referees/:id
+ * Referee profile - cards, fouls, penalties and home/away card bias,
+ * each compared against the averages of the competitions they officiate
+ */
+router.get("/:id", async (req, res) => {
+  try {
+    const refereeId = parseInt(req.params.id);
+
+    if (isNaN(refereeId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid referee ID",
+      });
+    }
+
+    // 1. Basic referee info
+    const [referee] = await db
+      .select({
+        refereeId: referees.refereeId,
+        refereeName: referees.refereeName,
+        country: {
+          id: countries.id,
+          name: countries.name,
+        },
+      })
+      .from(referees)
+      .leftJoin(countries, eq(referees.countryId, countries.id))
+      .where(eq(referees.refereeId, refereeId));
+
+    if (!referee) {
+      return res.status(404).json({
+        success: false,
+        error: "Referee not found",
+      });
+    }
+
+    // 2. Totals per competition, for this referee and for all referees in
+    //    the same competitions (the baseline)
+    const byCompetition = await db.execute(sql`
+      WITH discipline AS (
+        ${matchDiscipline(sql`m.competition_id IN (
+          SELECT DISTINCT competition_id FROM matches WHERE referee_id = ${refereeId}
+        )`)}
+      )
+      SELECT
+        c.competition_id,
+        c.competition_name,
+        (
+          SELECT row_to_json(r) FROM (
+            SELECT ${DISCIPLINE_TOTALS} FROM discipline d
+            WHERE d.competition_id = c.competition_id
+              AND d.referee_id = ${refereeId}
+          ) r
+        ) as referee,
+        (
+          SELECT row_to_json(a) FROM (
+            SELECT ${DISCIPLINE_TOTALS} FROM discipline d
+            WHERE d.competition_id = c.competition_id
+          ) a
+        ) as competition
+      FROM competitions c
+      WHERE c.competition_id IN (
+        SELECT DISTINCT competition_id FROM matches WHERE referee_id = ${refereeId}
+      )
+      ORDER BY c.competition_name
+    `);
+
+    const competitionRows = byCompetition.rows as {
+      competition_id: number;
+      competition_name: string;
+      referee: DisciplineTotals;
+      competition: DisciplineTotals;
+    }[];
+
+    // Baseline weighted by how many matches the referee had in each
+    // competition, so a referee is compared to the leagues they actually work
+    const refereeTotals = sumTotals(competitionRows.map((r) => r.referee));
+    const baseline = competitionRows.map((r) => {
+      const weight = r.referee.matches / r.competition.matches;
+      return Object.fromEntries(
+        TOTAL_KEYS.map((key) => [key, r.competition[key] * weight])
+      ) as unknown as DisciplineTotals;
+    });
+
+    // 3. Most recent matches
+    const recentMatches = await db.execute(sql`
+      WITH discipline AS (
+        ${matchDiscipline(sql`m.referee_id = ${refereeId}`)}
+      )
+      SELECT
+        d.*,
+        c.competition_name,
+        ht.team_name as home_team_name,
+        at.team_name as away_team_name,
+        m.home_score,
+        m.away_score
+      FROM discipline d
+      INNER JOIN matches m ON d.match_id = m.match_id
+      INNER JOIN competitions c ON d.competition_id = c.competition_id
+      INNER JOIN teams ht ON d.home_team_id = ht.team_id
+      INNER JOIN teams at ON d.away_team_id = at.team_id
+      ORDER BY d.match_date DESC
+      LIMIT 10
+    `);
+
+    res.json({
+      success: true,
+      data: {
+        referee,
+        summary: {
+          referee: disciplineRates(refereeTotals),
+          competitionAverage: disciplineRates(sumTotals(baseline)),
+        },
+        byCompetition: competitionRows.map((r) => ({
+          competitionId: r.competition_id,
+          competitionName: r.competition_name,
+          referee: disciplineRates(r.referee),
+          competitionAverage: disciplineRates(r.competition),
+        })),
+        recentMatches: recentMatches.rows,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching referee:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch referee",
+    });
+  }
+});
+
+export { router as refereesRouter };
@@ -0,0 +1,187 @@
+import { Router } from "express";
+import { z } from "zod";
+import { db } from "../db/index.ts";
+import { sql } from "drizzle-orm";
+import { validateQuery } from "../middleware/validation.ts";
+
+const router = Router();
+
+const SEARCH_TYPES = [
+  "player",
+  "team",
+  "competition",
+  "manager",
+  "referee",
+  "stadium",
+] as const;
+
+// Query validation schema
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(2).max(100),
+  limit: z.coerce.number().min(1).max(50).default(5), // per type
+  types: z
+    .string()
+    .optional()
+    .transform((value) =>
+      value ? value.split(",").map((t) => t.trim()) : [...SEARCH_TYPES]
+    )
+    .pipe(z.array(z.enum(SEARCH_TYPES)).min(1)),
+});
+
+/**
+ * Escape LIKE wildcards so user input is matched literally
+ */
+function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * SQL helpers comparing columns against the accent- and case-normalized
+ * search term. The term is inlined (not joined from a CTE) so the planner
+ * can use the gin_trgm_ops indexes.
+ */
+function searchTerm(q: string) {
+  const term = sql`f_unaccent(lower(${q}))`;
+  const likeTerm = sql`f_unaccent(lower(${escapeLike(q)}))`;
+  const normalize = (column: string) => sql.raw(`f_unaccent(lower(${column}))`);
+
+  return {
+    // exact 1.0 → prefix 0.9 → word prefix 0.8 → trigram word similarity (≤ 0.7)
+    score: (column: string) => sql`
+      CASE
+        WHEN ${normalize(column)} = ${term} THEN 1.0
+        WHEN ${normalize(column)} LIKE ${likeTerm} || '%' THEN 0.9
+        WHEN ${normalize(column)} LIKE '% ' || ${likeTerm} || '%' THEN 0.8
+        ELSE word_similarity(${term}, ${normalize(column)}) * 0.7
+      END
+    `,
+    // Substring or fuzzy (typo-tolerant) match
+    matches: (column: string) => {
+      const normalized = normalize(column);
+      return sql`(${normalized} LIKE '%' || ${likeTerm} || '%' OR ${term} <% ${normalized})`;
+    },
+  };
+}
+
+/**
+ * GET /api/search?q=
+ * Accent-insensitive ranked search across players, teams, competitions,
+ * managers, referees and stadiums (typeahead: top `limit` per type)
+ */
+router.get("/", validateQuery(searchQuerySchema), async (req, res) => {
+  try {
+    const { q, limit, types } = searchQuerySchema.parse(req.query);
+    const { score, matches } = searchTerm(q);
+
+    const branches = {
+      player: sql`
+        SELECT
+          'player' as type,
+          p.player_id as id,
+          p.player_name as name,
+          p.player_nickname as subtitle,
+          GREATEST(${score("p.player_name")}, COALESCE(${score(
+        "p.player_nickname"
+      )}, 0)) as score,
+          COALESCE(p.total_matches, 0) as popularity
+        FROM players p
+        WHERE ${matches("p.player_name")} OR ${matches("p.player_nickname")}
+      `,
+      team: sql`
+        SELECT
+          'team' as type,
+          t.team_id as id,
+          t.team_name as name,
+          c.name as subtitle,
+          ${score("t.team_name")} as score,
+          0 as popularity
+        FROM teams t
+        LEFT JOIN countries c ON t.country_id = c.id
+        WHERE ${matches("t.team_name")}
+      `,
+      competition: sql`
+        SELECT
+          'competition' as type,
+          co.competition_id as id,
+          co.competition_name as name,
+          c.name as subtitle,
+          ${score("co.competition_name")} as score,
+          0 as popularity
+        FROM competitions co
+        LEFT JOIN countries c ON co.country_id = c.id
+        WHERE ${matches("co.competition_name")}
+      `,
+      manager: sql`
+        SELECT
+          'manager' as type,
+          m.manager_id as id,
+          m.manager_name as name,
+          COALESCE(m.manager_nickname, c.name) as subtitle,
+          GREATEST(${score("m.manager_name")}, COALESCE(${score(
+        "m.manager_nickname"
+      )}, 0)) as score,
+          0 as popularity
+        FROM managers m
+        LEFT JOIN countries c ON m.country_id = c.id
+        WHERE ${matches("m.manager_name")} OR ${matches("m.manager_nickname")}
+      `,
+      referee: sql`
+        SELECT
+          'referee' as type,
+          r.referee_id as id,
+          r.referee_name as name,
+          c.name as subtitle,
+          ${score("r.referee_name")} as score,
+          0 as popularity
+        FROM referees r
+        LEFT JOIN countries c ON r.country_id = c.id
+        WHERE ${matches("r.referee_name")}
+      `,
+      stadium: sql`
+        SELECT
+          'stadium' as type,
+          s.stadium_id as id,
+          s.stadium_name as name,
+          c.name as subtitle,
+          ${score("s.stadium_name")} as score,
+          0 as popularity
+        FROM stadiums s
+        LEFT JOIN countries c ON s.country_id = c.id
+        WHERE ${matches("s.stadium_name")}
+      `,
+    };
+
+    // Top `limit` per type, then rank everything together
+    const selected = types.map(
+      (type) => sql`(
+        ${branches[type]}
+        ORDER BY score DESC, popularity DESC, name
+        LIMIT ${limit}
+      )`
+    );
+
+    const results = await db.execute(sql`
+      SELECT type, id, name, subtitle, ROUND(score::decimal, 3)::float as score
+      FROM (${sql.join(selected, sql` UNION ALL `)}) results
+      ORDER BY score DESC, popularity DESC, name
+    `);
+
+    res.json({
+      success: true,
+      data: results.rows,
+      meta: {
+        query: q,
+        types,
+        limit,
+      },
+    });
+  } catch (error) {
+    console.error("Error searching:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to search",
+    });
+  }
+});
+
+export { router as searchRouter };
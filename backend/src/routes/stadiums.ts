@@ -0,0 +1,233 @@
+import { Router } from "express";
+import { z } from "zod";
+import { db } from "../db/index.ts";
+import { stadiums, matches } from "../db/schema/matches.ts";
+import { countries } from "../db/schema/competitions.ts";
+import { eq, asc, desc, count, ilike, sql } from "drizzle-orm";
+import { validateQuery } from "../middleware/validation.ts";
+
+const router = Router();
+
+// Query validation schema
+const stadiumsQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(100).default(20),
+  offset: z.coerce.number().min(0).default(0),
+  sortBy: z.enum(["stadiumName", "matches"]).default("matches"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  search: z.string().optional(),
+});
+
+/**
+ * GET /api/stadiums
+ * List stadiums with pagination, sorting, and search
+ */
+router.get("/", validateQuery(stadiumsQuerySchema), async (req, res) => {
+  try {
+    const { limit, offset, sortBy, order, search } = stadiumsQuerySchema.parse(
+      req.query
+    );
+
+    const matchCount = sql<number>`COUNT(${matches.matchId})::int`;
+
+    // Map sortBy string to actual column
+    const sortFieldMap = {
+      stadiumName: stadiums.stadiumName,
+      matches: matchCount,
+    };
+    const sortField = sortFieldMap[sortBy];
+
+    const searchFilter =
+      search && search.trim()
+        ? ilike(stadiums.stadiumName, `%${search.trim()}%`)
+        : undefined;
+
+    const stadiumsList = await db
+      .select({
+        stadiumId: stadiums.stadiumId,
+        stadiumName: stadiums.stadiumName,
+        country: {
+          id: countries.id,
+          name: countries.name,
+        },
+        matches: matchCount,
+      })
+      .from(stadiums)
+      .leftJoin(countries, eq(stadiums.countryId, countries.id))
+      .leftJoin(matches, eq(stadiums.stadiumId, matches.stadiumId))
+      .where(searchFilter)
+      .groupBy(stadiums.stadiumId, countries.id, countries.name)
+      .orderBy(
+        order === "asc" ? asc(sortField) : desc(sortField),
+        asc(stadiums.stadiumId)
+      )
+      .limit(limit)
+      .offset(offset);
+
+    const [{ value: total }] = await db
+      .select({ value: count() })
+      .from(stadiums)
+      .where(searchFilter);
+
+    res.json({
+      success: true,
+      data: stadiumsList,
+      meta: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching stadiums:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch stadiums",
+    });
+  }
+});
+
+/**
+ * GET /api/stadiums/:id
+ * Venue profile - results, tenants, competitions and historical names
+ */
+router.get("/:id", async (req, res) => {
+  try {
+    const stadiumId = parseInt(req.params.id);
+
+    if (isNaN(stadiumId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid stadium ID",
+      });
+    }
+
+    // 1. Basic stadium info (stadium_name holds the latest name seen)
+    const [stadium] = await db
+      .select({
+        stadiumId: stadiums.stadiumId,
+        stadiumName: stadiums.stadiumName,
+        country: {
+          id: countries.id,
+          name: countries.name,
+        },
+      })
+      .from(stadiums)
+      .leftJoin(countries, eq(stadiums.countryId, countries.id))
+      .where(eq(stadiums.stadiumId, stadiumId));
+
+    if (!stadium) {
+      return res.status(404).json({
+        success: false,
+        error: "Stadium not found",
+      });
+    }
+
+    // 2. Results summary
+    const summary = await db.execute(sql`
+      SELECT
+        COUNT(*)::int as matches,
+        COUNT(*) FILTER (WHERE home_score > away_score)::int as home_wins,
+        COUNT(*) FILTER (WHERE home_score = away_score)::int as draws,
+        COUNT(*) FILTER (WHERE home_score < away_score)::int as away_wins,
+        ROUND(
+          COUNT(*) FILTER (WHERE home_score > away_score)::decimal * 100.0 /
+          NULLIF(COUNT(*), 0), 2
+        ) as home_win_rate,
+        ROUND(SUM(home_score + away_score)::decimal / NULLIF(COUNT(*), 0), 2) as avg_goals,
+        MIN(match_date) as first_match,
+        MAX(match_date) as last_match
+      FROM matches
+      WHERE stadium_id = ${stadiumId}
+    `);
+
+    // 3. Names the venue was recorded under, from the raw match JSON
+    const historicalNames = await db.execute(sql`
+      SELECT
+        raw_json->'stadium'->>'name' as name,
+        MIN(match_date) as first_seen,
+        MAX(match_date) as last_seen,
+        COUNT(*)::int as matches
+      FROM matches
+      WHERE stadium_id = ${stadiumId}
+        AND raw_json->'stadium'->>'name' IS NOT NULL
+      GROUP BY raw_json->'stadium'->>'name'
+      ORDER BY MIN(match_date)
+    `);
+
+    // 4. Tenants - teams that played here as the home side
+    const tenants = await db.execute(sql`
+      SELECT
+        t.team_id,
+        t.team_name,
+        COUNT(*)::int as home_matches,
+        COUNT(*) FILTER (WHERE m.home_score > m.away_score)::int as wins,
+        COUNT(*) FILTER (WHERE m.home_score = m.away_score)::int as draws,
+        COUNT(*) FILTER (WHERE m.home_score < m.away_score)::int as losses,
+        MIN(m.match_date) as first_match,
+        MAX(m.match_date) as last_match
+      FROM matches m
+      INNER JOIN teams t ON m.home_team_id = t.team_id
+      WHERE m.stadium_id = ${stadiumId}
+      GROUP BY t.team_id, t.team_name
+      ORDER BY COUNT(*) DESC, t.team_name
+    `);
+
+    // 5. Competitions and seasons played here
+    const competitionsPlayed = await db.execute(sql`
+      SELECT
+        c.competition_id,
+        c.competition_name,
+        s.season_id,
+        s.season_name,
+        COUNT(*)::int as matches
+      FROM matches m
+      INNER JOIN competitions c ON m.competition_id = c.competition_id
+      INNER JOIN seasons s ON m.competition_id = s.competition_id AND m.season_id = s.season_id
+      WHERE m.stadium_id = ${stadiumId}
+      GROUP BY c.competition_id, c.competition_name, s.season_id, s.season_name
+      ORDER BY c.competition_name, s.season_name DESC
+    `);
+
+    // 6. Most recent matches
+    const recentMatches = await db.execute(sql`
+      SELECT
+        m.match_id,
+        m.match_date,
+        c.competition_name,
+        m.home_team_id,
+        ht.team_name as home_team_name,
+        m.away_team_id,
+        at.team_name as away_team_name,
+        m.home_score,
+        m.away_score
+      FROM matches m
+      INNER JOIN competitions c ON m.competition_id = c.competition_id
+      INNER JOIN teams ht ON m.home_team_id = ht.team_id
+      INNER JOIN teams at ON m.away_team_id = at.team_id
+      WHERE m.stadium_id = ${stadiumId}
+      ORDER BY m.match_date DESC
+      LIMIT 10
+    `);
+
+    res.json({
+      success: true,
+      data: {
+        stadium,
+        summary: summary.rows[0],
+        historicalNames: historicalNames.rows,
+        tenants: tenants.rows,
+        competitions: competitionsPlayed.rows,
+        recentMatches: recentMatches.rows,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching stadium:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch stadium",
+    });
+  }
+});
+
+export { router as stadiumsRouter };
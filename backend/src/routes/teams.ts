@@ -7,6 +7,12 @@ import { players, playerLineups } from "../db/schema/lineups.ts";
 import { events } from "../db/schema/events.ts";
 import { eq, asc, desc, count, ilike, and, sql, or } from "drizzle-orm";
 import { validateQuery } from "../middleware/validation.ts";
+import { computeTeamStyle } from "../services/team-style.ts";
+import {
+  POINTS_FOR_WIN,
+  POINTS_FOR_DRAW,
+  type FormResult,
+} from "../services/standings.ts";
 
 const router = Router();
 
@@ -20,6 +26,32 @@ const teamsQuerySchema = z.object({
   search: z.string().optional(),
 });
 
+const headToHeadQuerySchema = z.object({
+  competitionId: z.coerce.number().int().positive().optional(),
+  seasonId: z.coerce.number().int().positive().optional(),
+});
+
+// Season ids are reused across competitions, so a season needs both
+const fixturesQuerySchema = z
+  .object({
+    competitionId: z.coerce.number().int().positive().optional(),
+    seasonId: z.coerce.number().int().positive().optional(),
+  })
+  .refine((query) => !query.competitionId === !query.seasonId, {
+    message: "competitionId and seasonId must be given together",
+    path: ["seasonId"],
+  });
+
+const styleQuerySchema = z
+  .object({
+    competitionId: z.coerce.number().int().positive().optional(),
+    seasonId: z.coerce.number().int().positive().optional(),
+  })
+  .refine((query) => !query.competitionId === !query.seasonId, {
+    message: "competitionId and seasonId must be given together",
+    path: ["seasonId"],
+  });
+
 /**
  * GET /api/teams
  * List teams with pagination, sorting, and filtering
@@ -229,38 +261,32 @@ router.get("/:id/comprehensive", async (req, res) => {
       .orderBy(sql`COUNT(DISTINCT ${playerLineups.matchId}) DESC`)
       .limit(10);
 
-    // 4. Top scorers for the team (from events)
+    // 4. Top scorers for the team (from match stats)
     const topScorers = await db.execute(sql`
       SELECT
         p.player_id,
         p.player_name,
-        COUNT(*)::int as goals
-      FROM events e
-      INNER JOIN players p ON e.player_id = p.player_id
-      WHERE e.team_id = ${teamId} AND e.type_id = 16
-        AND EXISTS (
-          SELECT 1 FROM shots s
-          WHERE s.event_id = e.id AND s.outcome_id = 97
-        )
+        SUM(pms.goals)::int as goals
+      FROM player_match_stats pms
+      INNER JOIN players p ON pms.player_id = p.player_id
+      WHERE pms.team_id = ${teamId}
       GROUP BY p.player_id, p.player_name
+      HAVING SUM(pms.goals) > 0
       ORDER BY goals DESC
       LIMIT 5
     `);
 
-    // 5. Top assisters for the team (from events)
+    // 5. Top assisters for the team (from match stats)
     const topAssisters = await db.execute(sql`
       SELECT
         p.player_id,
         p.player_name,
-        COUNT(*)::int as assists
-      FROM events e
-      INNER JOIN players p ON e.player_id = p.player_id
-      WHERE e.team_id = ${teamId} AND e.type_id = 30
-        AND EXISTS (
-          SELECT 1 FROM passes pa
-          WHERE pa.event_id = e.id AND pa.goal_assist = true
-        )
+        SUM(pms.assists)::int as assists
+      FROM player_match_stats pms
+      INNER JOIN players p ON pms.player_id = p.player_id
+      WHERE pms.team_id = ${teamId}
       GROUP BY p.player_id, p.player_name
+      HAVING SUM(pms.assists) > 0
       ORDER BY assists DESC
       LIMIT 5
     `);
@@ -289,25 +315,19 @@ router.get("/:id/comprehensive", async (req, res) => {
       .groupBy(competitions.competitionId, competitions.competitionName)
       .orderBy(sql`COUNT(DISTINCT ${matches.matchId}) DESC`);
 
-    // 7. Disciplinary record (cards)
-    const disciplinaryRecord = await db.execute(sql`
-      SELECT
-        COUNT(*) FILTER (WHERE type_id = 33)::int as yellow_cards,
-        COUNT(*) FILTER (WHERE type_id = 34)::int as red_cards
-      FROM events
-      WHERE team_id = ${teamId} AND type_id IN (33, 34)
-    `);
-
-    // 8. Performance stats (passing, shooting)
-    const performanceStats = await db.execute(sql`
+    // 7. Disciplinary record and 8. performance stats (from match stats)
+    const teamTotals = await db.execute(sql`
       SELECT
-        COUNT(*) FILTER (WHERE type_id = 30)::int as total_passes,
-        COUNT(*) FILTER (WHERE type_id = 16)::int as total_shots,
-        COUNT(*) FILTER (WHERE type_id = 14)::int as total_dribbles,
-        COUNT(*) FILTER (WHERE type_id = 37)::int as total_pressures
-      FROM events
+        COALESCE(SUM(yellow_cards), 0)::int as yellow_cards,
+        COALESCE(SUM(red_cards), 0)::int as red_cards,
+        COALESCE(SUM(passes), 0)::int as total_passes,
+        COALESCE(SUM(shots), 0)::int as total_shots,
+        COALESCE(SUM(dribbles), 0)::int as total_dribbles,
+        COALESCE(SUM(pressures), 0)::int as total_pressures
+      FROM team_match_stats
       WHERE team_id = ${teamId}
     `);
+    const totals = teamTotals.rows[0];
 
     res.json({
       success: true,
@@ -318,8 +338,16 @@ router.get("/:id/comprehensive", async (req, res) => {
         topScorers: topScorers.rows,
         topAssisters: topAssisters.rows,
         competitionsPlayed,
-        disciplinaryRecord: disciplinaryRecord.rows[0],
-        performanceStats: performanceStats.rows[0],
+        disciplinaryRecord: {
+          yellow_cards: totals.yellow_cards,
+          red_cards: totals.red_cards,
+        },
+        performanceStats: {
+          total_passes: totals.total_passes,
+          total_shots: totals.total_shots,
+          total_dribbles: totals.total_dribbles,
+          total_pressures: totals.total_pressures,
+        },
       },
     });
   } catch (error) {
@@ -331,4 +359,395 @@ router.get("/:id/comprehensive", async (req, res) => {
   }
 });
 
+/**
+ * GET /api/teams/:id/head-to-head/:opponentId
+ * Every meeting between two teams with W/D/L record, goals, shots and xG
+ */
+router.get(
+  "/:id/head-to-head/:opponentId",
+  validateQuery(headToHeadQuerySchema),
+  async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const opponentId = parseInt(req.params.opponentId);
+
+      if (isNaN(teamId) || isNaN(opponentId) || teamId === opponentId) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid team IDs",
+        });
+      }
+
+      const { competitionId, seasonId } = headToHeadQuerySchema.parse(
+        req.query
+      );
+
+      const teamsData = await db
+        .select({
+          teamId: teams.teamId,
+          teamName: teams.teamName,
+          teamGender: teams.teamGender,
+        })
+        .from(teams)
+        .where(or(eq(teams.teamId, teamId), eq(teams.teamId, opponentId)));
+
+      const team = teamsData.find((t) => t.teamId === teamId);
+      const opponent = teamsData.find((t) => t.teamId === opponentId);
+
+      if (!team || !opponent) {
+        return res.status(404).json({
+          success: false,
+          error: "Team not found",
+        });
+      }
+
+      // Every meeting, with per-side shot and xG totals from match stats
+      const meetingsResult = await db.execute(sql`
+        SELECT
+          m.match_id,
+          m.match_date,
+          m.competition_id,
+          c.competition_name,
+          m.season_id,
+          s.season_name,
+          m.home_team_id,
+          m.away_team_id,
+          m.home_score,
+          m.away_score,
+          st.stadium_name,
+          CASE WHEN m.home_team_id = ${teamId} THEN m.home_score ELSE m.away_score END::int as team_goals,
+          CASE WHEN m.home_team_id = ${teamId} THEN m.away_score ELSE m.home_score END::int as opponent_goals,
+          COALESCE(tms.shots, 0)::int as team_shots,
+          COALESCE(oms.shots, 0)::int as opponent_shots,
+          ROUND(COALESCE(tms.xg, 0), 2)::float as team_xg,
+          ROUND(COALESCE(oms.xg, 0), 2)::float as opponent_xg
+        FROM matches m
+        INNER JOIN competitions c ON m.competition_id = c.competition_id
+        INNER JOIN seasons s ON m.competition_id = s.competition_id AND m.season_id = s.season_id
+        LEFT JOIN stadiums st ON m.stadium_id = st.stadium_id
+        LEFT JOIN team_match_stats tms
+          ON tms.match_id = m.match_id AND tms.team_id = ${teamId}
+        LEFT JOIN team_match_stats oms
+          ON oms.match_id = m.match_id AND oms.team_id = ${opponentId}
+        WHERE (
+          (m.home_team_id = ${teamId} AND m.away_team_id = ${opponentId})
+          OR (m.home_team_id = ${opponentId} AND m.away_team_id = ${teamId})
+        )
+        ${competitionId ? sql`AND m.competition_id = ${competitionId}` : sql``}
+        ${seasonId ? sql`AND m.season_id = ${seasonId}` : sql``}
+        ORDER BY m.match_date DESC
+      `);
+
+      const meetings = meetingsResult.rows as {
+        team_goals: number;
+        opponent_goals: number;
+        team_shots: number;
+        opponent_shots: number;
+        team_xg: number;
+        opponent_xg: number;
+      }[];
+
+      // W/D/L record from the perspective of :id
+      const record = {
+        matches: meetings.length,
+        wins: 0,
+        draws: 0,
+        losses: 0,
+        goalsFor: 0,
+        goalsAgainst: 0,
+        shotsFor: 0,
+        shotsAgainst: 0,
+        xgFor: 0,
+        xgAgainst: 0,
+      };
+
+      for (const m of meetings) {
+        if (m.team_goals > m.opponent_goals) record.wins++;
+        else if (m.team_goals < m.opponent_goals) record.losses++;
+        else record.draws++;
+
+        record.goalsFor += m.team_goals;
+        record.goalsAgainst += m.opponent_goals;
+        record.shotsFor += m.team_shots;
+        record.shotsAgainst += m.opponent_shots;
+        record.xgFor += m.team_xg;
+        record.xgAgainst += m.opponent_xg;
+      }
+
+      record.xgFor = Math.round(record.xgFor * 100) / 100;
+      record.xgAgainst = Math.round(record.xgAgainst * 100) / 100;
+
+      res.json({
+        success: true,
+        data: {
+          team,
+          opponent,
+          record,
+          meetings,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching head-to-head:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch head-to-head",
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/teams/:id/style
+ * Playing-style fingerprint per competition-season: PPDA, field tilt,
+ * possession length, directness, pass mix, crossing and counter-attacks
+ */
+router.get("/:id/style", validateQuery(styleQuerySchema), async (req, res) => {
+  try {
+    const teamId = parseInt(req.params.id);
+
+    if (isNaN(teamId)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid team ID",
+      });
+    }
+
+    const filters = styleQuerySchema.parse(req.query);
+
+    const [team] = await db
+      .select({
+        teamId: teams.teamId,
+        teamName: teams.teamName,
+        teamGender: teams.teamGender,
+      })
+      .from(teams)
+      .where(eq(teams.teamId, teamId));
+
+    if (!team) {
+      return res.status(404).json({
+        success: false,
+        error: "Team not found",
+      });
+    }
+
+    const style = await computeTeamStyle(teamId, filters);
+
+    res.json({
+      success: true,
+      data: {
+        team,
+        seasons: style,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching team style:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch team style",
+    });
+  }
+});
+
+/**
+ * GET /api/teams/:id/fixtures
+ * Season fixtures with opponent, venue, result, score and xG for/against,
+ * plus running points and xG difference. Defaults to the team's most
+ * recent competition-season.
+ */
+router.get(
+  "/:id/fixtures",
+  validateQuery(fixturesQuerySchema),
+  async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+
+      if (isNaN(teamId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid team ID",
+        });
+      }
+
+      const query = fixturesQuerySchema.parse(req.query);
+
+      const [team] = await db
+        .select({
+          teamId: teams.teamId,
+          teamName: teams.teamName,
+          teamGender: teams.teamGender,
+        })
+        .from(teams)
+        .where(eq(teams.teamId, teamId));
+
+      if (!team) {
+        return res.status(404).json({
+          success: false,
+          error: "Team not found",
+        });
+      }
+
+      // Competition-seasons the team played in (for the season selector)
+      const seasonsList = await db
+        .select({
+          competitionId: competitions.competitionId,
+          competitionName: competitions.competitionName,
+          seasonId: seasons.seasonId,
+          seasonName: seasons.seasonName,
+          matches: count(),
+          lastMatchDate: sql<string>`MAX(${matches.matchDate})`,
+        })
+        .from(matches)
+        .innerJoin(
+          competitions,
+          eq(matches.competitionId, competitions.competitionId)
+        )
+        .innerJoin(
+          seasons,
+          and(
+            eq(matches.competitionId, seasons.competitionId),
+            eq(matches.seasonId, seasons.seasonId)
+          )
+        )
+        .where(
+          or(eq(matches.homeTeamId, teamId), eq(matches.awayTeamId, teamId))
+        )
+        .groupBy(
+          competitions.competitionId,
+          competitions.competitionName,
+          seasons.seasonId,
+          seasons.seasonName
+        )
+        .orderBy(sql`MAX(${matches.matchDate}) DESC`);
+
+      const { competitionId, seasonId } = query.competitionId
+        ? query
+        : seasonsList[0] ?? {};
+
+      const fixturesResult = await db.execute(sql`
+        SELECT
+          m.match_id,
+          m.match_date,
+          m.kick_off,
+          m.competition_id,
+          c.competition_name,
+          m.season_id,
+          s.season_name,
+          m.match_week,
+          cs.name as competition_stage,
+          CASE WHEN m.home_team_id = ${teamId} THEN 'home' ELSE 'away' END as venue,
+          st.stadium_id,
+          st.stadium_name,
+          CASE WHEN m.home_team_id = ${teamId} THEN m.away_team_id ELSE m.home_team_id END as opponent_id,
+          CASE WHEN m.home_team_id = ${teamId} THEN away_team.team_name ELSE home_team.team_name END as opponent_name,
+          m.home_score,
+          m.away_score,
+          CASE WHEN m.home_team_id = ${teamId} THEN m.home_score ELSE m.away_score END::int as goals_for,
+          CASE WHEN m.home_team_id = ${teamId} THEN m.away_score ELSE m.home_score END::int as goals_against,
+          ROUND(COALESCE(tms.xg, 0), 2)::float as xg_for,
+          ROUND(COALESCE(oms.xg, 0), 2)::float as xg_against
+        FROM matches m
+        INNER JOIN competitions c ON m.competition_id = c.competition_id
+        INNER JOIN seasons s ON m.competition_id = s.competition_id AND m.season_id = s.season_id
+        INNER JOIN teams home_team ON m.home_team_id = home_team.team_id
+        INNER JOIN teams away_team ON m.away_team_id = away_team.team_id
+        LEFT JOIN competition_stages cs ON m.competition_stage_id = cs.id
+        LEFT JOIN stadiums st ON m.stadium_id = st.stadium_id
+        LEFT JOIN team_match_stats tms
+          ON tms.match_id = m.match_id AND tms.team_id = ${teamId}
+        LEFT JOIN team_match_stats oms
+          ON oms.match_id = m.match_id AND oms.team_id = tms.opponent_id
+        WHERE (m.home_team_id = ${teamId} OR m.away_team_id = ${teamId})
+        ${competitionId ? sql`AND m.competition_id = ${competitionId}` : sql``}
+        ${seasonId ? sql`AND m.season_id = ${seasonId}` : sql``}
+        ORDER BY m.match_date ASC, m.kick_off ASC NULLS FIRST
+      `);
+
+      const rows = fixturesResult.rows as {
+        goals_for: number;
+        goals_against: number;
+        xg_for: number;
+        xg_against: number;
+      }[];
+
+      // Running totals in date order, from the perspective of :id
+      let points = 0;
+      let xgDifference = 0;
+      const record = {
+        played: rows.length,
+        won: 0,
+        drawn: 0,
+        lost: 0,
+        goalsFor: 0,
+        goalsAgainst: 0,
+        points: 0,
+        xgFor: 0,
+        xgAgainst: 0,
+      };
+
+      const fixtures = rows.map((row) => {
+        const result: FormResult =
+          row.goals_for > row.goals_against
+            ? "W"
+            : row.goals_for < row.goals_against
+            ? "L"
+            : "D";
+        const matchPoints =
+          result === "W"
+            ? POINTS_FOR_WIN
+            : result === "D"
+            ? POINTS_FOR_DRAW
+            : 0;
+
+        points += matchPoints;
+        xgDifference += row.xg_for - row.xg_against;
+
+        if (result === "W") record.won++;
+        else if (result === "D") record.drawn++;
+        else record.lost++;
+        record.goalsFor += row.goals_for;
+        record.goalsAgainst += row.goals_against;
+        record.xgFor += row.xg_for;
+        record.xgAgainst += row.xg_against;
+
+        return {
+          ...row,
+          result,
+          points: matchPoints,
+          cumulative_points: points,
+          cumulative_xg_difference: Math.round(xgDifference * 100) / 100,
+        };
+      });
+
+      record.points = points;
+      record.xgFor = Math.round(record.xgFor * 100) / 100;
+      record.xgAgainst = Math.round(record.xgAgainst * 100) / 100;
+
+      res.json({
+        success: true,
+        data: {
+          team,
+          seasons: seasonsList,
+          record,
+          // Most recent first, max 5
+          form: fixtures
+            .slice(-5)
+            .reverse()
+            .map((f) => f.result),
+          fixtures,
+        },
+        meta: {
+          competitionId: competitionId ?? null,
+          seasonId: seasonId ?? null,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching team fixtures:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch team fixtures",
+      });
+    }
+  }
+);
+
 export { router as teamsRouter };
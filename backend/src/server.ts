@@ -5,8 +5,15 @@ import morgan from "morgan";
 import { env, isDev, isTestEnv } from "../env.ts";
 import { playersRouter } from "./routes/players.ts";
 import { teamsRouter } from "./routes/teams.ts";
+import { matchesRouter } from "./routes/matches.ts";
+import { competitionsRouter } from "./routes/competitions.ts";
+import { managersRouter } from "./routes/managers.ts";
+import { refereesRouter } from "./routes/referees.ts";
+import { stadiumsRouter } from "./routes/stadiums.ts";
 import { playgroundRouter } from "./routes/playground.ts";
+import { searchRouter } from "./routes/search.ts";
 import { ragRouter } from "./routes/rag.ts";
+import { adminRouter } from "./routes/admin.ts";
 
 const app = express();
 
@@ -41,9 +48,18 @@ apiRouter.get("/health", (req, res) => {
 // Resource routes
 apiRouter.use("/players", playersRouter);
 apiRouter.use("/teams", teamsRouter);
+apiRouter.use("/matches", matchesRouter);
+apiRouter.use("/competitions", competitionsRouter);
+apiRouter.use("/managers", managersRouter);
+apiRouter.use("/referees", refereesRouter);
+apiRouter.use("/stadiums", stadiumsRouter);
+apiRouter.use("/search", searchRouter);
 apiRouter.use("/playground", playgroundRouter);
 apiRouter.use("/rag", ragRouter);
 
+// Data maintenance (requires ADMIN_API_KEY)
+apiRouter.use("/admin", adminRouter);
+
 // Mount all API routes under /api
 app.use("/api", apiRouter);
 
@@ -0,0 +1,150 @@
+/**
+ * Match box score
+ *
+ * Per-team match statistics computed from events and their subtype tables.
+ * Penalty shootouts (period 5) are excluded so totals reflect open play.
+ *
+ * Possession share is the fraction of in-play event duration spent with
+ * each team as the possession team.
+ */
+
+import { db } from "../db/index.ts";
+import { sql } from "drizzle-orm";
+import {
+  CARD_TYPE,
+  PASS_TYPE,
+  PENALTY_SHOOTOUT_PERIOD,
+  SHOT_TYPE,
+  metricSql,
+  subtypeJoins,
+} from "./event-taxonomy.ts";
+
+export interface TeamBoxScore {
+  teamId: number;
+  possession: number | null; // Percentage, 0-100
+  shots: number;
+  shotsOnTarget: number;
+  goals: number;
+  xg: number;
+  passes: number;
+  passesCompleted: number;
+  passCompletion: number | null; // Percentage, 0-100
+  corners: number;
+  freeKicks: number;
+  fouls: number;
+  yellowCards: number;
+  redCards: number;
+  offsides: number;
+  tackles: number;
+  tacklesWon: number;
+  interceptions: number;
+}
+
+function round(value: number, decimals = 2) {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Compute the box score for both teams of a match. Teams are returned in
+ * the order given; a team with no events gets zeroed stats.
+ */
+export async function computeBoxScore(
+  matchId: number,
+  teamIds: number[]
+): Promise<TeamBoxScore[]> {
+  const eventStats = await db.execute(sql`
+    SELECT
+      e.team_id,
+      ${metricSql("shots")}::int as shots,
+      ${metricSql("shots_on_target")}::int as shots_on_target,
+      ${metricSql("goals")}::int as goals,
+      ${metricSql("xg")}::float as xg,
+      ${metricSql("passes")}::int as passes,
+      ${metricSql("passes_completed")}::int as passes_completed,
+      COUNT(*) FILTER (WHERE p.type_id = ${PASS_TYPE.CORNER})::int as corners,
+      (
+        COUNT(*) FILTER (WHERE p.type_id = ${PASS_TYPE.FREE_KICK}) +
+        COUNT(*) FILTER (WHERE s.type_id = ${SHOT_TYPE.FREE_KICK_SHOT})
+      )::int as free_kicks,
+      ${metricSql("fouls_committed")}::int as fouls,
+      ${metricSql("offsides")}::int as offsides,
+      ${metricSql("tackles")}::int as tackles,
+      ${metricSql("tackles_won")}::int as tackles_won,
+      ${metricSql("interceptions")}::int as interceptions
+    FROM events e
+    ${subtypeJoins(["s", "p", "du"])}
+    WHERE e.match_id = ${matchId}
+      AND e.period < ${PENALTY_SHOOTOUT_PERIOD}
+    GROUP BY e.team_id
+  `);
+
+  const possession = await db.execute(sql`
+    SELECT
+      possession_team_id as team_id,
+      COALESCE(SUM(duration), 0)::float as seconds
+    FROM events
+    WHERE match_id = ${matchId}
+      AND period < ${PENALTY_SHOOTOUT_PERIOD}
+    GROUP BY possession_team_id
+  `);
+
+  // Cards from lineups (covers cards shown outside foul events)
+  const cards = await db.execute(sql`
+    SELECT
+      pl.team_id,
+      COUNT(*) FILTER (WHERE pc.card_type = ${CARD_TYPE.YELLOW_CARD})::int as yellow_cards,
+      COUNT(*) FILTER (
+        WHERE pc.card_type IN (${CARD_TYPE.RED_CARD}, ${CARD_TYPE.SECOND_YELLOW})
+      )::int as red_cards
+    FROM player_cards pc
+    INNER JOIN player_lineups pl
+      ON pc.match_id = pl.match_id AND pc.player_id = pl.player_id
+    WHERE pc.match_id = ${matchId}
+      AND pc.period < ${PENALTY_SHOOTOUT_PERIOD}
+    GROUP BY pl.team_id
+  `);
+
+  const byTeam = (rows: unknown[]) =>
+    new Map((rows as Record<string, number>[]).map((r) => [r.team_id, r]));
+
+  const eventsByTeam = byTeam(eventStats.rows);
+  const possessionByTeam = byTeam(possession.rows);
+  const cardsByTeam = byTeam(cards.rows);
+
+  const totalSeconds = teamIds.reduce(
+    (sum, id) => sum + (possessionByTeam.get(id)?.seconds ?? 0),
+    0
+  );
+
+  return teamIds.map((teamId) => {
+    const e = eventsByTeam.get(teamId) ?? {};
+    const c = cardsByTeam.get(teamId) ?? {};
+    const seconds = possessionByTeam.get(teamId)?.seconds ?? 0;
+    const passes = e.passes ?? 0;
+    const passesCompleted = e.passes_completed ?? 0;
+
+    return {
+      teamId,
+      possession:
+        totalSeconds > 0 ? round((seconds / totalSeconds) * 100, 1) : null,
+      shots: e.shots ?? 0,
+      shotsOnTarget: e.shots_on_target ?? 0,
+      goals: e.goals ?? 0,
+      xg: round(e.xg ?? 0),
+      passes,
+      passesCompleted,
+      passCompletion:
+        passes > 0 ? round((passesCompleted / passes) * 100, 1) : null,
+      corners: e.corners ?? 0,
+      freeKicks: e.free_kicks ?? 0,
+      fouls: e.fouls ?? 0,
+      yellowCards: c.yellow_cards ?? 0,
+      redCards: c.red_cards ?? 0,
+      offsides: e.offsides ?? 0,
+      tackles: e.tackles ?? 0,
+      tacklesWon: e.tackles_won ?? 0,
+      interceptions: e.interceptions ?? 0,
+    };
+  });
+}
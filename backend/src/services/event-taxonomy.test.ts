@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import {
+  eventTypeData,
+  playPatternData,
+  passHeightData,
+  passTypeData,
+  passOutcomeData,
+  shotOutcomeData,
+  shotTypeData,
+  duelTypeData,
+  duelOutcomeData,
+  dribbleOutcomeData,
+  goalkeeperTypeData,
+} from "../db/event-lookups.ts";
+import type { LookupRow } from "../db/event-lookups.ts";
+import {
+  EVENT_TYPE,
+  PLAY_PATTERN,
+  PASS_HEIGHT,
+  PASS_TYPE,
+  PASS_OUTCOME,
+  SHOT_OUTCOME,
+  SHOT_TYPE,
+  DUEL_TYPE,
+  DUEL_OUTCOME,
+  DRIBBLE_OUTCOME,
+  GOALKEEPER_TYPE,
+  SUBTYPE_TABLES,
+  EVENT_METRICS,
+} from "./event-taxonomy.ts";
+
+// Seeded names that can't become an identifier as-is
+const RENAMED: Record<string, string> = {
+  "50/50": "FIFTY_FIFTY",
+};
+
+function constantName(name: string) {
+  return (
+    RENAMED[name] ??
+    name
+      .toUpperCase()
+      .replace(/[^A-Z0-9]+/g, "_")
+      .replace(/^_|_$/g, "")
+  );
+}
+
+const TAXONOMY: [string, Record<string, number>, LookupRow[]][] = [
+  ["EVENT_TYPE", EVENT_TYPE, eventTypeData],
+  ["PLAY_PATTERN", PLAY_PATTERN, playPatternData],
+  ["PASS_HEIGHT", PASS_HEIGHT, passHeightData],
+  ["PASS_TYPE", PASS_TYPE, passTypeData],
+  ["PASS_OUTCOME", PASS_OUTCOME, passOutcomeData],
+  ["SHOT_OUTCOME", SHOT_OUTCOME, shotOutcomeData],
+  ["SHOT_TYPE", SHOT_TYPE, shotTypeData],
+  ["DUEL_TYPE", DUEL_TYPE, duelTypeData],
+  ["DUEL_OUTCOME", DUEL_OUTCOME, duelOutcomeData],
+  ["DRIBBLE_OUTCOME", DRIBBLE_OUTCOME, dribbleOutcomeData],
+  ["GOALKEEPER_TYPE", GOALKEEPER_TYPE, goalkeeperTypeData],
+];
+
+describe("event taxonomy", () => {
+  describe.each(TAXONOMY)("%s", (_, constants, rows) => {
+    it.each(Object.entries(constants))(
+      "%s matches the seeded row",
+      (key, id) => {
+        const row = rows.find((r) => r.id === id);
+        expect(row, `id ${id} is not seeded`).toBeDefined();
+        expect(constantName(row!.name)).toBe(key);
+      }
+    );
+  });
+
+  it("covers every seeded event type", () => {
+    const ids = Object.values(EVENT_TYPE) as number[];
+    for (const row of eventTypeData) {
+      expect(ids, row.name).toContain(row.id);
+    }
+  });
+
+  it("joins each subtype table on its own event type", () => {
+    const tableEventTypes: Record<string, string> = {
+      passes: "Pass",
+      shots: "Shot",
+      dribbles: "Dribble",
+      duels: "Duel",
+      clearances: "Clearance",
+      goalkeeper_events: "Goal Keeper",
+    };
+    for (const { table, typeId } of Object.values(SUBTYPE_TABLES)) {
+      const row = eventTypeData.find((r) => r.id === typeId);
+      expect(row?.name, table).toBe(tableEventTypes[table]);
+    }
+  });
+});
+
+describe("event metrics", () => {
+  const metrics = Object.entries(EVENT_METRICS);
+
+  it.each(metrics)("%s only filters on seeded event types", (_, metric) => {
+    const typeIds = [...metric.expression.matchAll(/e\.type_id = (\d+)/g)];
+    for (const [, id] of typeIds) {
+      expect(eventTypeData.map((r) => r.id)).toContain(Number(id));
+    }
+  });
+
+  it.each(metrics)("%s declares every subtype alias it uses", (_, metric) => {
+    const used = [...metric.expression.matchAll(/\b(\w+)\.\w+/g)]
+      .map(([, alias]) => alias)
+      .filter((alias) => alias !== "e");
+    for (const alias of used) {
+      expect(Object.keys(SUBTYPE_TABLES)).toContain(alias);
+      expect(metric.subtypes as string[]).toContain(alias);
+    }
+  });
+
+  it("counts pressures as Pressure events, not Error", () => {
+    expect(EVENT_METRICS.pressures.expression).toContain(
+      `e.type_id = ${EVENT_TYPE.PRESSURE}`
+    );
+    expect(EVENT_TYPE.PRESSURE).not.toBe(EVENT_TYPE.ERROR);
+  });
+});
@@ -0,0 +1,482 @@
+/**
+ * Event taxonomy and metric registry
+ *
+ * Typed IDs for the StatsBomb lookup tables seeded from
+ * src/db/event-lookups.ts. Keys are the seeded names in UPPER_SNAKE_CASE,
+ * so a constant always reads as the row it points at
+ * (event-taxonomy.test.ts checks every ID against the seed data).
+ *
+ * EVENT_METRICS defines the counting stats shared by routes, ETL jobs and
+ * the RAG prompt. Expressions are SQL aggregates over `events e` plus the
+ * subtype tables joined with subtypeJoins() under fixed aliases.
+ */
+
+import { sql } from "drizzle-orm";
+
+export const EVENT_TYPE = {
+  BALL_RECOVERY: 2,
+  DISPOSSESSED: 3,
+  DUEL: 4,
+  CAMERA_ON: 5,
+  BLOCK: 6,
+  OFFSIDE: 8,
+  CLEARANCE: 9,
+  INTERCEPTION: 10,
+  DRIBBLE: 14,
+  SHOT: 16,
+  PRESSURE: 17,
+  HALF_START: 18,
+  SUBSTITUTION: 19,
+  OWN_GOAL_AGAINST: 20,
+  FOUL_WON: 21,
+  FOUL_COMMITTED: 22,
+  GOAL_KEEPER: 23,
+  BAD_BEHAVIOUR: 24,
+  OWN_GOAL_FOR: 25,
+  PLAYER_ON: 26,
+  PLAYER_OFF: 27,
+  SHIELD: 28,
+  CAMERA_OFF: 29,
+  PASS: 30,
+  FIFTY_FIFTY: 33, // Seeded as "50/50"
+  HALF_END: 34,
+  STARTING_XI: 35,
+  TACTICAL_SHIFT: 36,
+  ERROR: 37,
+  MISCONTROL: 38,
+  DRIBBLED_PAST: 39,
+  INJURY_STOPPAGE: 40,
+  REFEREE_BALL_DROP: 41,
+  BALL_RECEIPT: 42,
+  CARRY: 43,
+} as const;
+
+export const PLAY_PATTERN = {
+  REGULAR_PLAY: 1,
+  FROM_CORNER: 2,
+  FROM_FREE_KICK: 3,
+  FROM_THROW_IN: 4,
+  OTHER: 5,
+  FROM_COUNTER: 6,
+  FROM_GOAL_KICK: 7,
+  FROM_KEEPER: 8,
+  FROM_KICK_OFF: 9,
+} as const;
+
+export const PASS_HEIGHT = {
+  GROUND_PASS: 1,
+  LOW_PASS: 2,
+  HIGH_PASS: 3,
+} as const;
+
+export const PASS_TYPE = {
+  CORNER: 61,
+  FREE_KICK: 62,
+  GOAL_KICK: 63,
+  INTERCEPTION: 64,
+  KICK_OFF: 65,
+  RECOVERY: 66,
+  THROW_IN: 67,
+} as const;
+
+// Completed passes have no outcome
+export const PASS_OUTCOME = {
+  INCOMPLETE: 9,
+  INJURY_CLEARANCE: 74,
+  OUT: 75,
+  PASS_OFFSIDE: 76,
+  UNKNOWN: 77,
+} as const;
+
+export const SHOT_OUTCOME = {
+  BLOCKED: 96,
+  GOAL: 97,
+  OFF_T: 98,
+  POST: 99,
+  SAVED: 100,
+  WAYWARD: 101,
+  SAVED_OFF_TARGET: 115,
+  SAVED_TO_POST: 116,
+} as const;
+
+export const SHOT_TYPE = {
+  CORNER_SHOT: 61,
+  FREE_KICK_SHOT: 62,
+  OPEN_PLAY: 87,
+  FREE_KICK: 88,
+  PENALTY: 90,
+} as const;
+
+export const DUEL_TYPE = {
+  AERIAL_LOST: 10,
+  TACKLE: 11,
+} as const;
+
+export const DUEL_OUTCOME = {
+  WON: 4,
+  LOST_IN_PLAY: 13,
+  LOST_OUT: 14,
+  SUCCESS_IN_PLAY: 16,
+  SUCCESS_OUT: 17,
+} as const;
+
+export const DRIBBLE_OUTCOME = {
+  COMPLETE: 8,
+  INCOMPLETE: 9,
+} as const;
+
+export const GOALKEEPER_TYPE = {
+  COLLECTED: 25,
+  GOAL_CONCEDED: 26,
+  KEEPER_SWEEPER: 27,
+  PENALTY_CONCEDED: 28,
+  PENALTY_SAVED: 29,
+  PUNCH: 30,
+  SAVE: 31,
+  SHOT_FACED: 32,
+  SHOT_SAVED: 33,
+  SMOTHER: 34,
+  PENALTY_SAVED_TO_POST: 109,
+  SAVED_TO_POST: 110,
+  SHOT_SAVED_OFF_TARGET: 113,
+  SHOT_SAVED_TO_POST: 114,
+} as const;
+
+// player_cards.card_type values (from lineups, not an event lookup)
+export const CARD_TYPE = {
+  YELLOW_CARD: "Yellow Card",
+  SECOND_YELLOW: "Second Yellow",
+  RED_CARD: "Red Card",
+} as const;
+
+export const SHOT_ON_TARGET_OUTCOME_IDS: readonly number[] = [
+  SHOT_OUTCOME.GOAL,
+  SHOT_OUTCOME.SAVED,
+  SHOT_OUTCOME.SAVED_TO_POST,
+];
+
+export const DUEL_WON_OUTCOME_IDS: readonly number[] = [
+  DUEL_OUTCOME.WON,
+  DUEL_OUTCOME.SUCCESS_IN_PLAY,
+  DUEL_OUTCOME.SUCCESS_OUT,
+];
+
+export const DUEL_LOST_OUTCOME_IDS: readonly number[] = [
+  DUEL_OUTCOME.LOST_IN_PLAY,
+  DUEL_OUTCOME.LOST_OUT,
+];
+
+// Saves of on-target shots (off-target saves don't count)
+export const GOALKEEPER_SAVE_TYPE_IDS: readonly number[] = [
+  GOALKEEPER_TYPE.SAVE,
+  GOALKEEPER_TYPE.SHOT_SAVED,
+  GOALKEEPER_TYPE.SHOT_SAVED_TO_POST,
+  GOALKEEPER_TYPE.SAVED_TO_POST,
+  GOALKEEPER_TYPE.PENALTY_SAVED,
+  GOALKEEPER_TYPE.PENALTY_SAVED_TO_POST,
+];
+
+export const GOALKEEPER_CONCEDED_TYPE_IDS: readonly number[] = [
+  GOALKEEPER_TYPE.GOAL_CONCEDED,
+  GOALKEEPER_TYPE.PENALTY_CONCEDED,
+];
+
+export const PENALTY_SHOOTOUT_PERIOD = 5;
+
+// Pitch geometry: StatsBomb yards on a 120x80 pitch, attacking towards x = 120
+export const LONG_PASS_LENGTH = 32;
+export const PENALTY_BOX = { minX: 102, minY: 18, maxY: 62 };
+
+/**
+ * Subtype tables by alias, each joined only for its own event type
+ */
+export const SUBTYPE_TABLES = {
+  p: { table: "passes", typeId: EVENT_TYPE.PASS },
+  s: { table: "shots", typeId: EVENT_TYPE.SHOT },
+  d: { table: "dribbles", typeId: EVENT_TYPE.DRIBBLE },
+  du: { table: "duels", typeId: EVENT_TYPE.DUEL },
+  c: { table: "clearances", typeId: EVENT_TYPE.CLEARANCE },
+  gk: { table: "goalkeeper_events", typeId: EVENT_TYPE.GOAL_KEEPER },
+} as const;
+
+export type SubtypeAlias = keyof typeof SUBTYPE_TABLES;
+
+export interface EventMetric {
+  label: string;
+  description: string;
+  // SQL aggregate over events e and the subtype aliases it lists
+  expression: string;
+  subtypes: SubtypeAlias[];
+}
+
+const ids = (values: readonly number[]) => values.join(", ");
+const count = (condition: string) => `COUNT(*) FILTER (WHERE ${condition})`;
+
+export const EVENT_METRICS = {
+  shots: {
+    label: "Shots",
+    description: "Shot events",
+    expression: count(`e.type_id = ${EVENT_TYPE.SHOT}`),
+    subtypes: [],
+  },
+  shots_on_target: {
+    label: "Shots on Target",
+    description: "Shots ending as Goal, Saved or Saved to Post",
+    expression: count(`s.outcome_id IN (${ids(SHOT_ON_TARGET_OUTCOME_IDS)})`),
+    subtypes: ["s"],
+  },
+  goals: {
+    label: "Goals",
+    description: "Shots with a Goal outcome (own goals excluded)",
+    expression: count(`s.outcome_id = ${SHOT_OUTCOME.GOAL}`),
+    subtypes: ["s"],
+  },
+  xg: {
+    label: "xG",
+    description: "Sum of StatsBomb shot xG",
+    expression: "COALESCE(SUM(s.shot_xg), 0)",
+    subtypes: ["s"],
+  },
+  passes: {
+    label: "Passes",
+    description: "Pass events",
+    expression: count(`e.type_id = ${EVENT_TYPE.PASS}`),
+    subtypes: [],
+  },
+  passes_completed: {
+    label: "Passes Completed",
+    description: "Passes without an outcome (completed passes have none)",
+    expression: count(
+      `e.type_id = ${EVENT_TYPE.PASS} AND p.outcome_id IS NULL`
+    ),
+    subtypes: ["p"],
+  },
+  assists: {
+    label: "Assists",
+    description: "Passes flagged as goal assists",
+    expression: count("p.goal_assist"),
+    subtypes: ["p"],
+  },
+  key_passes: {
+    label: "Key Passes",
+    description: "Passes leading to a shot (shot or goal assists)",
+    expression: count("p.shot_assist OR p.goal_assist"),
+    subtypes: ["p"],
+  },
+  crosses: {
+    label: "Crosses",
+    description: "Passes flagged as crosses",
+    expression: count("p.cross"),
+    subtypes: ["p"],
+  },
+  carries: {
+    label: "Carries",
+    description: "Carry events",
+    expression: count(`e.type_id = ${EVENT_TYPE.CARRY}`),
+    subtypes: [],
+  },
+  dribbles: {
+    label: "Dribbles",
+    description: "Dribble events",
+    expression: count(`e.type_id = ${EVENT_TYPE.DRIBBLE}`),
+    subtypes: [],
+  },
+  successful_dribbles: {
+    label: "Successful Dribbles",
+    description: "Dribbles with a Complete outcome",
+    expression: count(`d.outcome_id = ${DRIBBLE_OUTCOME.COMPLETE}`),
+    subtypes: ["d"],
+  },
+  failed_dribbles: {
+    label: "Failed Dribbles",
+    description: "Dribbles with an Incomplete outcome",
+    expression: count(`d.outcome_id = ${DRIBBLE_OUTCOME.INCOMPLETE}`),
+    subtypes: ["d"],
+  },
+  duels: {
+    label: "Duels",
+    description: "Duel events (tackles and lost aerials)",
+    expression: count(`e.type_id = ${EVENT_TYPE.DUEL}`),
+    subtypes: [],
+  },
+  duels_won: {
+    label: "Duels Won",
+    description: "Duels ending Won, Success In Play or Success Out",
+    expression: count(`du.outcome_id IN (${ids(DUEL_WON_OUTCOME_IDS)})`),
+    subtypes: ["du"],
+  },
+  duels_lost: {
+    label: "Duels Lost",
+    description: "Duels ending Lost In Play or Lost Out",
+    expression: count(`du.outcome_id IN (${ids(DUEL_LOST_OUTCOME_IDS)})`),
+    subtypes: ["du"],
+  },
+  tackles: {
+    label: "Tackles",
+    description: "Duels of type Tackle",
+    expression: count(`du.duel_type_id = ${DUEL_TYPE.TACKLE}`),
+    subtypes: ["du"],
+  },
+  tackles_won: {
+    label: "Tackles Won",
+    description: "Tackles with a won duel outcome",
+    expression: count(
+      `du.duel_type_id = ${DUEL_TYPE.TACKLE} AND du.outcome_id IN (${ids(
+        DUEL_WON_OUTCOME_IDS
+      )})`
+    ),
+    subtypes: ["du"],
+  },
+  interceptions: {
+    label: "Interceptions",
+    description: "Interception events",
+    expression: count(`e.type_id = ${EVENT_TYPE.INTERCEPTION}`),
+    subtypes: [],
+  },
+  blocks: {
+    label: "Blocks",
+    description: "Block events",
+    expression: count(`e.type_id = ${EVENT_TYPE.BLOCK}`),
+    subtypes: [],
+  },
+  clearances: {
+    label: "Clearances",
+    description: "Clearance events",
+    expression: count(`e.type_id = ${EVENT_TYPE.CLEARANCE}`),
+    subtypes: [],
+  },
+  pressures: {
+    label: "Pressures",
+    description: "Pressure events",
+    expression: count(`e.type_id = ${EVENT_TYPE.PRESSURE}`),
+    subtypes: [],
+  },
+  ball_recoveries: {
+    label: "Ball Recoveries",
+    description: "Ball Recovery events",
+    expression: count(`e.type_id = ${EVENT_TYPE.BALL_RECOVERY}`),
+    subtypes: [],
+  },
+  dispossessed: {
+    label: "Dispossessed",
+    description: "Times the player lost the ball to a tackle",
+    expression: count(`e.type_id = ${EVENT_TYPE.DISPOSSESSED}`),
+    subtypes: [],
+  },
+  fouls_committed: {
+    label: "Fouls Committed",
+    description: "Foul Committed events",
+    expression: count(`e.type_id = ${EVENT_TYPE.FOUL_COMMITTED}`),
+    subtypes: [],
+  },
+  fouls_won: {
+    label: "Fouls Won",
+    description: "Foul Won events",
+    expression: count(`e.type_id = ${EVENT_TYPE.FOUL_WON}`),
+    subtypes: [],
+  },
+  offsides: {
+    label: "Offsides",
+    description: "Offside events plus passes with a Pass Offside outcome",
+    expression: count(
+      `e.type_id = ${EVENT_TYPE.OFFSIDE} OR p.outcome_id = ${PASS_OUTCOME.PASS_OFFSIDE}`
+    ),
+    subtypes: ["p"],
+  },
+  saves: {
+    label: "Saves",
+    description: "Goalkeeper saves of on-target shots and penalties",
+    expression: count(`gk.gk_type_id IN (${ids(GOALKEEPER_SAVE_TYPE_IDS)})`),
+    subtypes: ["gk"],
+  },
+  goals_conceded: {
+    label: "Goals Conceded",
+    description: "Goalkeeper events of type Goal Conceded or Penalty Conceded",
+    expression: count(
+      `gk.gk_type_id IN (${ids(GOALKEEPER_CONCEDED_TYPE_IDS)})`
+    ),
+    subtypes: ["gk"],
+  },
+} satisfies Record<string, EventMetric>;
+
+export type EventMetricKey = keyof typeof EVENT_METRICS;
+
+/**
+ * A metric's aggregate expression as SQL
+ */
+export function metricSql(key: EventMetricKey) {
+  return sql.raw(EVENT_METRICS[key].expression);
+}
+
+/**
+ * Select-list columns `<expression> as <key>` for the given metrics
+ */
+export function metricColumns(keys: readonly EventMetricKey[]) {
+  return sql.raw(
+    keys
+      .map((key) => `${EVENT_METRICS[key].expression} as ${key}`)
+      .join(",\n      ")
+  );
+}
+
+/**
+ * LEFT JOINs for subtype aliases onto `events e`
+ */
+export function subtypeJoins(aliases: readonly SubtypeAlias[]) {
+  return sql.raw(
+    [...new Set(aliases)]
+      .map((alias) => {
+        const { table, typeId } = SUBTYPE_TABLES[alias];
+        return `LEFT JOIN ${table} ${alias} ON e.id = ${alias}.event_id AND e.type_id = ${typeId}`;
+      })
+      .join("\n    ")
+  );
+}
+
+/**
+ * Subtype joins needed by a set of metrics
+ */
+export function metricJoins(keys: readonly EventMetricKey[]) {
+  return subtypeJoins(
+    keys.flatMap((key) => EVENT_METRICS[key].subtypes as SubtypeAlias[])
+  );
+}
+
+/**
+ * Plain-text reference of IDs and metric definitions for the RAG prompt
+ */
+export function formatTaxonomyForAI() {
+  const lines: string[] = [];
+  const idList = (values: Record<string, number>) =>
+    Object.entries(values)
+      .map(([name, id]) => `${id} = ${name}`)
+      .join(", ");
+
+  lines.push("EVENT TAXONOMY (use these IDs, never guess them):");
+  lines.push(`- events.type_id: ${idList(EVENT_TYPE)}`);
+  lines.push(`- shots.outcome_id: ${idList(SHOT_OUTCOME)}`);
+  lines.push(`- duels.duel_type_id: ${idList(DUEL_TYPE)}`);
+  lines.push(`- duels.outcome_id: ${idList(DUEL_OUTCOME)}`);
+  lines.push(`- dribbles.outcome_id: ${idList(DRIBBLE_OUTCOME)}`);
+  lines.push(`- goalkeeper_events.gk_type_id: ${idList(GOALKEEPER_TYPE)}`);
+  lines.push(`- events.play_pattern_id: ${idList(PLAY_PATTERN)}`);
+  lines.push(
+    "- Completed passes have passes.outcome_id IS NULL; cards are in player_cards.card_type"
+  );
+  lines.push(
+    `- Penalty shootouts are events.period = ${PENALTY_SHOOTOUT_PERIOD}; exclude them from match stats`
+  );
+  lines.push("");
+
+  lines.push("METRIC DEFINITIONS (events e with the joins listed):");
+  for (const [key, alias] of Object.entries(SUBTYPE_TABLES)) {
+    lines.push(
+      `- join ${alias.table} ${key}: LEFT JOIN ${alias.table} ${key} ON e.id = ${key}.event_id AND e.type_id = ${alias.typeId}`
+    );
+  }
+  for (const [key, metric] of Object.entries(EVENT_METRICS)) {
+    lines.push(`- ${key} (${metric.description}): ${metric.expression}`);
+  }
+
+  return lines.join("\n");
+}
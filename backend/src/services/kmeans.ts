@@ -0,0 +1,171 @@
+/**
+ * K-means clustering
+ *
+ * Small dependency-free implementation for offline jobs (player roles).
+ * Seeded k-means++ initialisation with several restarts, so repeated runs
+ * over the same data give the same clusters.
+ */
+
+export interface KMeansResult {
+  centroids: number[][];
+  assignments: number[];
+  inertia: number; // Sum of squared distances to the assigned centroid
+}
+
+export interface KMeansOptions {
+  maxIterations?: number;
+  restarts?: number;
+  seed?: number;
+}
+
+/**
+ * Deterministic PRNG (mulberry32), returns floats in [0, 1)
+ */
+function random(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function squaredDistance(a: number[], b: number[]) {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += (a[i] - b[i]) ** 2;
+  }
+  return sum;
+}
+
+/**
+ * Z-score each column (a constant column becomes 0)
+ */
+export function standardizeColumns(points: number[][]) {
+  const dimensions = points[0]?.length ?? 0;
+  const means: number[] = [];
+  const stds: number[] = [];
+
+  for (let d = 0; d < dimensions; d++) {
+    const mean = points.reduce((sum, p) => sum + p[d], 0) / points.length;
+    const variance =
+      points.reduce((sum, p) => sum + (p[d] - mean) ** 2, 0) / points.length;
+    means.push(mean);
+    stds.push(Math.sqrt(variance));
+  }
+
+  return points.map((p) =>
+    p.map((value, d) => (stds[d] > 0 ? (value - means[d]) / stds[d] : 0))
+  );
+}
+
+function initCentroids(points: number[][], k: number, rand: () => number) {
+  const centroids = [points[Math.floor(rand() * points.length)]];
+
+  while (centroids.length < k) {
+    // Pick the next centroid with probability proportional to D(x)^2
+    const distances = points.map((p) =>
+      Math.min(...centroids.map((c) => squaredDistance(p, c)))
+    );
+    const total = distances.reduce((sum, d) => sum + d, 0);
+    if (total === 0) {
+      centroids.push(points[Math.floor(rand() * points.length)]);
+      continue;
+    }
+    let target = rand() * total;
+    let index = 0;
+    while (target > distances[index] && index < points.length - 1) {
+      target -= distances[index];
+      index++;
+    }
+    centroids.push(points[index]);
+  }
+
+  return centroids.map((c) => [...c]);
+}
+
+function nearest(point: number[], centroids: number[][]) {
+  let best = 0;
+  let bestDistance = Infinity;
+  centroids.forEach((centroid, i) => {
+    const distance = squaredDistance(point, centroid);
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  });
+  return { index: best, distance: bestDistance };
+}
+
+function runOnce(
+  points: number[][],
+  k: number,
+  maxIterations: number,
+  rand: () => number
+): KMeansResult {
+  let centroids = initCentroids(points, k, rand);
+  let assignments = new Array<number>(points.length).fill(-1);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = points.map((p) => nearest(p, centroids).index);
+    const changed = next.some((cluster, i) => cluster !== assignments[i]);
+    assignments = next;
+    if (!changed) break;
+
+    centroids = centroids.map((centroid, cluster) => {
+      const members = points.filter((_, i) => assignments[i] === cluster);
+      // Keep an empty cluster's centroid where it was
+      if (members.length === 0) return centroid;
+      return centroid.map(
+        (_, d) => members.reduce((sum, p) => sum + p[d], 0) / members.length
+      );
+    });
+  }
+
+  const inertia = points.reduce(
+    (sum, p, i) => sum + squaredDistance(p, centroids[assignments[i]]),
+    0
+  );
+
+  return { centroids, assignments, inertia };
+}
+
+/**
+ * Cluster points into k groups, keeping the restart with the lowest inertia
+ */
+export function kMeans(
+  points: number[][],
+  k: number,
+  { maxIterations = 100, restarts = 10, seed = 42 }: KMeansOptions = {}
+): KMeansResult {
+  if (points.length < k) {
+    throw new Error(`Need at least ${k} points, got ${points.length}`);
+  }
+
+  const rand = random(seed);
+  let best: KMeansResult | null = null;
+
+  for (let i = 0; i < restarts; i++) {
+    const result = runOnce(points, k, maxIterations, rand);
+    if (!best || result.inertia < best.inertia) best = result;
+  }
+
+  return best!;
+}
+
+/**
+ * Soft membership of a point in each cluster (fuzzy c-means weights, m = 2).
+ * Memberships sum to 1; a point on a centroid gets 1 for that cluster.
+ */
+export function memberships(point: number[], centroids: number[][]) {
+  const distances = centroids.map((c) => squaredDistance(point, c));
+  const onCentroid = distances.findIndex((d) => d === 0);
+  if (onCentroid >= 0) {
+    return distances.map((_, i) => (i === onCentroid ? 1 : 0));
+  }
+  const inverse = distances.map((d) => 1 / d);
+  const total = inverse.reduce((sum, v) => sum + v, 0);
+  return inverse.map((v) => v / total);
+}
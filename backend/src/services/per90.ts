@@ -0,0 +1,54 @@
+/**
+ * Per-90 normalization
+ *
+ * Counting stats are scaled to a 90-minute match using minutes from
+ * player_lineups.minutes_played. Rates (accuracy, success %) are already
+ * normalized and are never scaled.
+ */
+
+import { sql } from "drizzle-orm";
+import type { SQL, AnyColumn } from "drizzle-orm";
+
+export const MINUTES_PER_MATCH = 90;
+
+/**
+ * Scale a count to per-90. Returns null when there are no minutes or the
+ * player is below the minimum-minutes threshold.
+ */
+export function per90(
+  value: number | string | null | undefined,
+  minutes: number,
+  minMinutes = 0
+): number | null {
+  if (value === null || value === undefined) return null;
+  if (minutes <= 0 || minutes < minMinutes) return null;
+  return (
+    Math.round(((Number(value) * MINUTES_PER_MATCH) / minutes) * 100) / 100
+  );
+}
+
+/**
+ * Per-90 versions of the given count fields of a stats row
+ */
+export function per90Fields<K extends string>(
+  row: Partial<Record<K, unknown>> | undefined,
+  keys: readonly K[],
+  minutes: number,
+  minMinutes = 0
+): Record<K, number | null> {
+  return Object.fromEntries(
+    keys.map((key) => [
+      key,
+      per90(row?.[key] as number | string | null, minutes, minMinutes),
+    ])
+  ) as Record<K, number | null>;
+}
+
+/**
+ * SQL expression for a per-90 value (NULL when minutes is zero)
+ */
+export function per90Sql(value: AnyColumn | SQL, minutes: AnyColumn | SQL) {
+  return sql<number | null>`ROUND(
+    ${value}::decimal * ${MINUTES_PER_MATCH} / NULLIF(${minutes}, 0), 2
+  )::float`;
+}
@@ -0,0 +1,196 @@
+/**
+ * Per-90 player metrics for one competition-season
+ *
+ * Builds one row per player with enough minutes, holding the player's
+ * primary position group and a per-90 value for every metric in
+ * PLAYER_METRICS. Used for percentile ranks against positional peers.
+ *
+ * Primary position group = the position category the player appeared in
+ * for the most matches in that competition-season.
+ */
+
+import { sql } from "drizzle-orm";
+import { MINUTES_PER_MATCH } from "./per90.ts";
+import type { EventMetricKey } from "./event-taxonomy.ts";
+
+export interface PlayerMetric {
+  key: string;
+  label: string;
+  // SQL over the event_totals columns; counts are scaled per 90
+  expression: string;
+  per90: boolean;
+  // Lower is better (percentile is inverted)
+  inverted?: boolean;
+}
+
+export const PLAYER_METRICS: PlayerMetric[] = [
+  { key: "goals", label: "Goals", expression: "goals", per90: true },
+  { key: "xg", label: "xG", expression: "xg", per90: true },
+  { key: "shots", label: "Shots", expression: "shots", per90: true },
+  { key: "assists", label: "Assists", expression: "assists", per90: true },
+  {
+    key: "key_passes",
+    label: "Key Passes",
+    expression: "key_passes",
+    per90: true,
+  },
+  {
+    key: "passes_completed",
+    label: "Passes Completed",
+    expression: "passes_completed",
+    per90: true,
+  },
+  {
+    key: "pass_accuracy",
+    label: "Pass Accuracy %",
+    expression: "passes_completed * 100.0 / NULLIF(passes, 0)",
+    per90: false,
+  },
+  {
+    key: "successful_dribbles",
+    label: "Successful Dribbles",
+    expression: "successful_dribbles",
+    per90: true,
+  },
+  {
+    key: "tackles_won",
+    label: "Tackles Won",
+    expression: "tackles_won",
+    per90: true,
+  },
+  {
+    key: "interceptions",
+    label: "Interceptions",
+    expression: "interceptions",
+    per90: true,
+  },
+  {
+    key: "pressures",
+    label: "Pressures",
+    expression: "pressures",
+    per90: true,
+  },
+  {
+    key: "ball_recoveries",
+    label: "Ball Recoveries",
+    expression: "ball_recoveries",
+    per90: true,
+  },
+  {
+    key: "dispossessed",
+    label: "Dispossessed",
+    expression: "dispossessed",
+    per90: true,
+    inverted: true,
+  },
+];
+
+// event_totals columns the metric expressions are built from (summed from
+// the player_match_stats column of the same name)
+const EVENT_TOTALS: EventMetricKey[] = [
+  "goals",
+  "xg",
+  "shots",
+  "assists",
+  "key_passes",
+  "passes",
+  "passes_completed",
+  "successful_dribbles",
+  "tackles_won",
+  "interceptions",
+  "pressures",
+  "ball_recoveries",
+  "dispossessed",
+];
+
+const eventTotalColumns = sql.raw(
+  EVENT_TOTALS.map((key) => `SUM(pms.${key}) as ${key}`).join(",\n        ")
+);
+
+/**
+ * CTE chain ending in `player_metrics` (player_id, position_category,
+ * minutes, matches, <metric keys>) for the given competition-season.
+ * Prepend to a query with `WITH ${playerMetricsCte(...)} SELECT ...`.
+ */
+export function playerMetricsCte(
+  competitionId: number,
+  seasonId: number,
+  minMinutes: number
+) {
+  const playerMetricColumns = sql.raw(
+    PLAYER_METRICS.map((metric) => {
+      const expression = `COALESCE(${metric.expression}, 0)`;
+      return metric.per90
+        ? `ROUND((${expression})::decimal * ${MINUTES_PER_MATCH} / mn.minutes, 3)::float as ${metric.key}`
+        : `ROUND((${metric.expression})::decimal, 2)::float as ${metric.key}`;
+    }).join(",\n      ")
+  );
+
+  return sql`
+    season_matches AS (
+      SELECT match_id
+      FROM matches
+      WHERE competition_id = ${competitionId} AND season_id = ${seasonId}
+    ),
+    minutes AS (
+      SELECT
+        pl.player_id,
+        SUM(pl.minutes_played)::float as minutes,
+        COUNT(*) FILTER (WHERE pl.minutes_played > 0)::int as matches
+      FROM player_lineups pl
+      WHERE pl.match_id IN (SELECT match_id FROM season_matches)
+      GROUP BY pl.player_id
+      HAVING SUM(pl.minutes_played) >= ${minMinutes}
+        AND SUM(pl.minutes_played) > 0
+    ),
+    primary_position AS (
+      SELECT DISTINCT ON (pp.player_id)
+        pp.player_id,
+        pos.position_category
+      FROM player_positions pp
+      INNER JOIN positions pos ON pp.position_id = pos.id
+      WHERE pp.match_id IN (SELECT match_id FROM season_matches)
+      GROUP BY pp.player_id, pos.position_category
+      ORDER BY pp.player_id, COUNT(DISTINCT pp.match_id) DESC, pos.position_category
+    ),
+    event_totals AS (
+      SELECT
+        pms.player_id,
+        ${eventTotalColumns}
+      FROM player_match_stats pms
+      INNER JOIN matches m ON pms.match_id = m.match_id
+      WHERE m.competition_id = ${competitionId}
+        AND m.season_id = ${seasonId}
+        AND pms.player_id IN (SELECT player_id FROM minutes)
+      GROUP BY pms.player_id
+    ),
+    player_metrics AS (
+      SELECT
+        mn.player_id,
+        pp.position_category,
+        mn.minutes,
+        mn.matches,
+        ${playerMetricColumns}
+      FROM minutes mn
+      INNER JOIN primary_position pp ON mn.player_id = pp.player_id
+      LEFT JOIN event_totals et ON mn.player_id = et.player_id
+    )
+  `;
+}
+
+/**
+ * Percentile rank (0-100) of every metric against players in the same
+ * position group, as `<key>_percentile` columns over `player_metrics`.
+ * Missing values (e.g. pass accuracy without passes) rank lowest.
+ */
+export function metricPercentileColumns() {
+  return sql.raw(
+    PLAYER_METRICS.map(
+      (metric) =>
+        `ROUND((PERCENT_RANK() OVER (
+          PARTITION BY position_category
+          ORDER BY ${metric.key} ${metric.inverted ? "DESC" : "ASC"} NULLS FIRST
+        ) * 100)::numeric, 0)::int as ${metric.key}_percentile`
+    ).join(",\n      ")
+  );
+}
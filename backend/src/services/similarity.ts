@@ -0,0 +1,275 @@
+/**
+ * Similar-player finder
+ *
+ * Each player's career event profile becomes a vector of per-90 features.
+ * Features are standardized (z-scores over the candidate pool) so that
+ * high-volume actions like passes don't dominate, then candidates are
+ * ranked by cosine similarity to the target player.
+ */
+
+import { sql } from "drizzle-orm";
+import type { SQL } from "drizzle-orm";
+import { db } from "../db/index.ts";
+import { MINUTES_PER_MATCH } from "./per90.ts";
+import type { EventMetricKey } from "./event-taxonomy.ts";
+
+export const SIMILARITY_FEATURES = [
+  { key: "passes", label: "Passes" },
+  { key: "pass_accuracy", label: "Pass Accuracy %" },
+  { key: "key_passes", label: "Key Passes" },
+  { key: "carries", label: "Carries" },
+  { key: "successful_dribbles", label: "Successful Dribbles" },
+  { key: "pressures", label: "Pressures" },
+  { key: "duels", label: "Duels" },
+  { key: "tackles_won", label: "Tackles Won" },
+  { key: "interceptions", label: "Interceptions" },
+  { key: "ball_recoveries", label: "Ball Recoveries" },
+  { key: "shots", label: "Shots" },
+  { key: "xg", label: "xG" },
+] as const;
+
+// event_totals columns behind the features (pass accuracy is derived),
+// summed from the player_match_stats column of the same name
+const EVENT_TOTALS: EventMetricKey[] = [
+  "passes",
+  "passes_completed",
+  "key_passes",
+  "carries",
+  "successful_dribbles",
+  "pressures",
+  "duels",
+  "tackles_won",
+  "interceptions",
+  "ball_recoveries",
+  "shots",
+  "xg",
+];
+
+const eventTotalColumns = sql.raw(
+  EVENT_TOTALS.map((key) => `SUM(pms.${key}) as ${key}`).join(",\n        ")
+);
+
+export type SimilarityFeature = (typeof SIMILARITY_FEATURES)[number]["key"];
+
+export interface SimilarityOptions {
+  // Restrict candidates to one position group / gender (undefined = any)
+  positionCategory?: string;
+  gender?: string;
+  minMinutes: number;
+  limit: number;
+}
+
+export interface PlayerProfile {
+  playerId: number;
+  playerName: string;
+  positionCategory: string | null;
+  gender: string | null;
+  minutes: number;
+  features: Record<SimilarityFeature, number>;
+}
+
+export interface SimilarPlayer extends PlayerProfile {
+  similarity: number;
+}
+
+interface ProfileRow extends Record<string, unknown> {
+  player_id: number;
+  player_name: string;
+  position_category: string | null;
+  gender: string | null;
+  minutes: number;
+}
+
+/**
+ * Career per-90 profiles for the target player and every candidate with
+ * at least `minMinutes` (the target is always included)
+ */
+async function fetchProfiles(playerId: number, options: SimilarityOptions) {
+  const candidateFilters: SQL[] = [];
+  if (options.positionCategory) {
+    candidateFilters.push(
+      sql`pp.position_category = ${options.positionCategory}`
+    );
+  }
+  if (options.gender) {
+    candidateFilters.push(sql`lt.gender = ${options.gender}`);
+  }
+
+  const candidateFilter =
+    candidateFilters.length > 0
+      ? sql`(${sql.join(candidateFilters, sql` AND `)})`
+      : sql`true`;
+
+  const result = await db.execute(sql`
+    WITH lineup_totals AS (
+      SELECT
+        pl.player_id,
+        SUM(pl.minutes_played)::float as minutes,
+        MODE() WITHIN GROUP (ORDER BY t.team_gender) as gender
+      FROM player_lineups pl
+      INNER JOIN teams t ON pl.team_id = t.team_id
+      GROUP BY pl.player_id
+      HAVING SUM(pl.minutes_played) > 0
+        AND (
+          SUM(pl.minutes_played) >= ${options.minMinutes}
+          OR pl.player_id = ${playerId}
+        )
+    ),
+    primary_position AS (
+      SELECT DISTINCT ON (pp.player_id)
+        pp.player_id,
+        pos.position_category
+      FROM player_positions pp
+      INNER JOIN positions pos ON pp.position_id = pos.id
+      WHERE pp.player_id IN (SELECT player_id FROM lineup_totals)
+      GROUP BY pp.player_id, pos.position_category
+      ORDER BY pp.player_id, COUNT(DISTINCT pp.match_id) DESC, pos.position_category
+    ),
+    pool AS (
+      SELECT lt.player_id, lt.minutes, lt.gender, pp.position_category
+      FROM lineup_totals lt
+      LEFT JOIN primary_position pp ON lt.player_id = pp.player_id
+      WHERE lt.player_id = ${playerId} OR ${candidateFilter}
+    ),
+    event_totals AS (
+      SELECT
+        pms.player_id,
+        ${eventTotalColumns}
+      FROM player_match_stats pms
+      WHERE pms.player_id IN (SELECT player_id FROM pool)
+      GROUP BY pms.player_id
+    )
+    SELECT
+      pool.player_id,
+      pl.player_name,
+      pool.position_category,
+      pool.gender,
+      ROUND(pool.minutes)::int as minutes,
+      ${sql.raw(
+        SIMILARITY_FEATURES.map(({ key }) =>
+          key === "pass_accuracy"
+            ? `COALESCE(ROUND(et.passes_completed * 100.0 / NULLIF(et.passes, 0), 2), 0)::float as pass_accuracy`
+            : `ROUND(COALESCE(et.${key}, 0)::decimal * ${MINUTES_PER_MATCH} / pool.minutes, 3)::float as ${key}`
+        ).join(",\n      ")
+      )}
+    FROM pool
+    INNER JOIN players pl ON pool.player_id = pl.player_id
+    LEFT JOIN event_totals et ON pool.player_id = et.player_id
+  `);
+
+  return (result.rows as ProfileRow[]).map(
+    (row): PlayerProfile => ({
+      playerId: row.player_id,
+      playerName: row.player_name,
+      positionCategory: row.position_category,
+      gender: row.gender,
+      minutes: row.minutes,
+      features: Object.fromEntries(
+        SIMILARITY_FEATURES.map(({ key }) => [key, Number(row[key] ?? 0)])
+      ) as Record<SimilarityFeature, number>,
+    })
+  );
+}
+
+/**
+ * Z-score every feature over the pool (a constant feature becomes 0)
+ */
+function standardize(profiles: PlayerProfile[]) {
+  const stats = SIMILARITY_FEATURES.map(({ key }) => {
+    const values = profiles.map((p) => p.features[key]);
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance =
+      values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    return { key, mean, std: Math.sqrt(variance) };
+  });
+
+  return new Map(
+    profiles.map((p) => [
+      p.playerId,
+      stats.map(({ key, mean, std }) =>
+        std > 0 ? (p.features[key] - mean) / std : 0
+      ),
+    ])
+  );
+}
+
+function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Nearest neighbours of a player by cosine similarity of standardized
+ * per-90 profiles. Returns null when the player has no minutes.
+ */
+export async function findSimilarPlayers(
+  playerId: number,
+  options: SimilarityOptions
+): Promise<{
+  player: PlayerProfile;
+  similar: SimilarPlayer[];
+  candidates: number;
+} | null> {
+  const profiles = await fetchProfiles(playerId, options);
+  const player = profiles.find((p) => p.playerId === playerId);
+
+  if (!player) return null;
+
+  const vectors = standardize(profiles);
+  const target = vectors.get(playerId)!;
+
+  const similar = profiles
+    .filter((p) => p.playerId !== playerId)
+    .map((p) => ({
+      ...p,
+      similarity:
+        Math.round(cosineSimilarity(target, vectors.get(p.playerId)!) * 1000) /
+        1000,
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, options.limit);
+
+  return { player, similar, candidates: profiles.length - 1 };
+}
+
+/**
+ * Position group and gender of a player, used as the default filters
+ */
+export async function playerSimilarityDefaults(playerId: number) {
+  const result = await db.execute(sql`
+    SELECT
+      (
+        SELECT pos.position_category
+        FROM player_positions pp
+        INNER JOIN positions pos ON pp.position_id = pos.id
+        WHERE pp.player_id = ${playerId}
+        GROUP BY pos.position_category
+        ORDER BY COUNT(DISTINCT pp.match_id) DESC, pos.position_category
+        LIMIT 1
+      ) as position_category,
+      (
+        SELECT MODE() WITHIN GROUP (ORDER BY t.team_gender)
+        FROM player_lineups pl
+        INNER JOIN teams t ON pl.team_id = t.team_id
+        WHERE pl.player_id = ${playerId}
+      ) as gender
+  `);
+
+  const row = result.rows[0] as {
+    position_category: string | null;
+    gender: string | null;
+  };
+
+  return {
+    positionCategory: row?.position_category ?? undefined,
+    gender: row?.gender ?? undefined,
+  };
+}
@@ -0,0 +1,235 @@
+/**
+ * League table computation
+ *
+ * Builds standings from a list of played matches. Kept free of DB access so
+ * the route only has to fetch the results for one competition-season.
+ *
+ * Ordering: points → goal difference → goals for → head-to-head points →
+ * head-to-head goal difference → away goals → team name.
+ */
+
+export interface StandingsMatch {
+  matchId: number;
+  matchDate: string;
+  homeTeamId: number;
+  homeTeamName: string;
+  awayTeamId: number;
+  awayTeamName: string;
+  homeScore: number;
+  awayScore: number;
+  group: string | null;
+}
+
+export type FormResult = "W" | "D" | "L";
+
+export interface StandingsSplit {
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  points: number;
+}
+
+export interface StandingsRow extends StandingsSplit {
+  position: number;
+  teamId: number;
+  teamName: string;
+  group: string | null;
+  goalDifference: number;
+  home: StandingsSplit;
+  away: StandingsSplit;
+  form: FormResult[]; // Most recent first, max 5
+}
+
+export const POINTS_FOR_WIN = 3;
+export const POINTS_FOR_DRAW = 1;
+const FORM_LENGTH = 5;
+
+function emptySplit(): StandingsSplit {
+  return {
+    played: 0,
+    won: 0,
+    drawn: 0,
+    lost: 0,
+    goalsFor: 0,
+    goalsAgainst: 0,
+    points: 0,
+  };
+}
+
+function applyResult(
+  split: StandingsSplit,
+  goalsFor: number,
+  goalsAgainst: number
+): FormResult {
+  split.played++;
+  split.goalsFor += goalsFor;
+  split.goalsAgainst += goalsAgainst;
+
+  if (goalsFor > goalsAgainst) {
+    split.won++;
+    split.points += POINTS_FOR_WIN;
+    return "W";
+  }
+  if (goalsFor < goalsAgainst) {
+    split.lost++;
+    return "L";
+  }
+  split.drawn++;
+  split.points += POINTS_FOR_DRAW;
+  return "D";
+}
+
+/**
+ * Mini-league between tied teams: points and goal difference using only
+ * the matches they played against each other.
+ */
+function headToHead(
+  teamIds: Set<number>,
+  results: StandingsMatch[]
+): Map<number, { points: number; goalDifference: number }> {
+  const table = new Map<number, { points: number; goalDifference: number }>();
+  for (const id of teamIds) {
+    table.set(id, { points: 0, goalDifference: 0 });
+  }
+
+  for (const m of results) {
+    if (!teamIds.has(m.homeTeamId) || !teamIds.has(m.awayTeamId)) continue;
+
+    const home = table.get(m.homeTeamId)!;
+    const away = table.get(m.awayTeamId)!;
+    home.goalDifference += m.homeScore - m.awayScore;
+    away.goalDifference += m.awayScore - m.homeScore;
+
+    if (m.homeScore > m.awayScore) {
+      home.points += POINTS_FOR_WIN;
+    } else if (m.homeScore < m.awayScore) {
+      away.points += POINTS_FOR_WIN;
+    } else {
+      home.points += POINTS_FOR_DRAW;
+      away.points += POINTS_FOR_DRAW;
+    }
+  }
+
+  return table;
+}
+
+function compareBasic(a: StandingsRow, b: StandingsRow): number {
+  return (
+    b.points - a.points ||
+    b.goalDifference - a.goalDifference ||
+    b.goalsFor - a.goalsFor
+  );
+}
+
+/**
+ * Sort one group's rows, resolving ties on the basic criteria with a
+ * head-to-head mini-league between exactly the tied teams.
+ */
+function sortGroup(
+  rows: StandingsRow[],
+  results: StandingsMatch[]
+): StandingsRow[] {
+  const sorted = [...rows].sort(compareBasic);
+  const output: StandingsRow[] = [];
+
+  let i = 0;
+  while (i < sorted.length) {
+    let j = i + 1;
+    while (j < sorted.length && compareBasic(sorted[i], sorted[j]) === 0) {
+      j++;
+    }
+
+    const tied = sorted.slice(i, j);
+    if (tied.length > 1) {
+      const h2h = headToHead(new Set(tied.map((r) => r.teamId)), results);
+      tied.sort((a, b) => {
+        const ha = h2h.get(a.teamId)!;
+        const hb = h2h.get(b.teamId)!;
+        return (
+          hb.points - ha.points ||
+          hb.goalDifference - ha.goalDifference ||
+          b.away.goalsFor - a.away.goalsFor ||
+          a.teamName.localeCompare(b.teamName)
+        );
+      });
+    }
+
+    output.push(...tied);
+    i = j;
+  }
+
+  return output;
+}
+
+/**
+ * Compute standings for a set of matches. Teams are ranked within their
+ * group (tournament group stages) or in a single table when no group is set.
+ */
+export function computeStandings(results: StandingsMatch[]): StandingsRow[] {
+  const chronological = [...results].sort(
+    (a, b) => a.matchDate.localeCompare(b.matchDate) || a.matchId - b.matchId
+  );
+
+  const rowsByTeam = new Map<string, StandingsRow>();
+
+  const getRow = (teamId: number, teamName: string, group: string | null) => {
+    const key = `${group ?? ""}:${teamId}`;
+    let row = rowsByTeam.get(key);
+    if (!row) {
+      row = {
+        position: 0,
+        teamId,
+        teamName,
+        group,
+        ...emptySplit(),
+        goalDifference: 0,
+        home: emptySplit(),
+        away: emptySplit(),
+        form: [],
+      };
+      rowsByTeam.set(key, row);
+    }
+    return row;
+  };
+
+  for (const m of chronological) {
+    const home = getRow(m.homeTeamId, m.homeTeamName, m.group);
+    const away = getRow(m.awayTeamId, m.awayTeamName, m.group);
+
+    const homeResult = applyResult(home, m.homeScore, m.awayScore);
+    applyResult(home.home, m.homeScore, m.awayScore);
+    const awayResult = applyResult(away, m.awayScore, m.homeScore);
+    applyResult(away.away, m.awayScore, m.homeScore);
+
+    home.form.unshift(homeResult);
+    away.form.unshift(awayResult);
+  }
+
+  // Split into groups, sort each, then assign positions
+  const groups = new Map<string, StandingsRow[]>();
+  for (const row of rowsByTeam.values()) {
+    row.goalDifference = row.goalsFor - row.goalsAgainst;
+    row.form = row.form.slice(0, FORM_LENGTH);
+
+    const key = row.group ?? "";
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+  }
+
+  const standings: StandingsRow[] = [];
+  const groupKeys = [...groups.keys()].sort();
+
+  for (const key of groupKeys) {
+    const groupResults = chronological.filter((m) => (m.group ?? "") === key);
+    const sorted = sortGroup(groups.get(key)!, groupResults);
+    sorted.forEach((row, idx) => {
+      row.position = idx + 1;
+    });
+    standings.push(...sorted);
+  }
+
+  return standings;
+}
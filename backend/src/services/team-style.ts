@@ -0,0 +1,279 @@
+/**
+ * Team playing-style fingerprint
+ *
+ * Tactical indicators per competition-season, computed from events.
+ * StatsBomb coordinates are 120x80 with every team attacking towards
+ * x = 120, so zones are read from the acting team's perspective.
+ * Penalty shootouts (period 5) are excluded.
+ */
+
+import { db } from "../db/index.ts";
+import { sql } from "drizzle-orm";
+import {
+  DUEL_TYPE,
+  EVENT_TYPE,
+  LONG_PASS_LENGTH,
+  PASS_HEIGHT,
+  PENALTY_SHOOTOUT_PERIOD,
+  PLAY_PATTERN,
+  subtypeJoins,
+} from "./event-taxonomy.ts";
+
+export interface TeamStyle {
+  competitionId: number;
+  competitionName: string;
+  seasonId: number;
+  seasonName: string;
+  matches: number;
+  // Opponent passes in their own 60% per defensive action in that zone
+  ppda: number | null;
+  // Share of final-third passes made by the team, 0-100
+  fieldTilt: number | null;
+  possession: {
+    perMatch: number;
+    avgEvents: number | null;
+    avgSeconds: number | null;
+  };
+  // Net forward distance per open-play pass distance, -1 to 1
+  directness: number | null;
+  passing: {
+    passesPerMatch: number;
+    avgLength: number | null;
+    longShare: number | null;
+    groundShare: number | null;
+    lowShare: number | null;
+    highShare: number | null;
+  };
+  crossing: {
+    crossesPerMatch: number;
+    crossRate: number | null; // Crosses per 100 passes
+  };
+  pressing: {
+    pressuresPerMatch: number;
+    highPressShare: number | null; // Share of pressures in the final third
+  };
+  counterAttack: {
+    possessionShare: number | null;
+    shotShare: number | null;
+  };
+}
+
+interface StyleEventRow {
+  competition_id: number;
+  season_id: number;
+  competition_name: string;
+  season_name: string;
+  matches: number;
+  passes: number;
+  pass_length: number;
+  long_passes: number;
+  ground_passes: number;
+  low_passes: number;
+  high_passes: number;
+  crosses: number;
+  open_play_forward_distance: number;
+  open_play_pass_length: number;
+  final_third_passes: number;
+  opponent_final_third_passes: number;
+  opponent_build_up_passes: number;
+  high_defensive_actions: number;
+  pressures: number;
+  high_pressures: number;
+  shots: number;
+  counter_shots: number;
+}
+
+// Pitch zones (x, from the acting team's perspective)
+const FINAL_THIRD_X = 80;
+const PPDA_OPPONENT_MAX_X = 72; // Opponent's own 60%
+const PPDA_DEFENSIVE_MIN_X = 48; // Same zone, from the pressing team's side
+
+function round(value: number, decimals = 2) {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function ratio(numerator: number, denominator: number, scale = 1) {
+  return denominator > 0 ? round((numerator / denominator) * scale) : null;
+}
+
+/**
+ * Style indicators for a team, one entry per competition-season
+ * (most recent season first)
+ */
+export async function computeTeamStyle(
+  teamId: number,
+  filters: { competitionId?: number; seasonId?: number } = {}
+): Promise<TeamStyle[]> {
+  const teamMatches = sql`
+    SELECT m.match_id, m.competition_id, m.season_id
+    FROM matches m
+    WHERE (m.home_team_id = ${teamId} OR m.away_team_id = ${teamId})
+      ${
+        filters.competitionId
+          ? sql`AND m.competition_id = ${filters.competitionId}`
+          : sql``
+      }
+      ${filters.seasonId ? sql`AND m.season_id = ${filters.seasonId}` : sql``}
+  `;
+
+  const eventStats = await db.execute(sql`
+    WITH team_matches AS (${teamMatches})
+    SELECT
+      tm.competition_id,
+      tm.season_id,
+      c.competition_name,
+      se.season_name,
+      COUNT(DISTINCT e.match_id)::int as matches,
+      COUNT(*) FILTER (
+        WHERE e.team_id = ${teamId} AND e.type_id = ${EVENT_TYPE.PASS}
+      )::int as passes,
+      COALESCE(SUM(p.length) FILTER (WHERE e.team_id = ${teamId}), 0)::float as pass_length,
+      COUNT(*) FILTER (
+        WHERE e.team_id = ${teamId} AND p.length >= ${LONG_PASS_LENGTH}
+      )::int as long_passes,
+      COUNT(*) FILTER (
+        WHERE e.team_id = ${teamId} AND p.height_id = ${PASS_HEIGHT.GROUND_PASS}
+      )::int as ground_passes,
+      COUNT(*) FILTER (
+        WHERE e.team_id = ${teamId} AND p.height_id = ${PASS_HEIGHT.LOW_PASS}
+      )::int as low_passes,
+      COUNT(*) FILTER (
+        WHERE e.team_id = ${teamId} AND p.height_id = ${PASS_HEIGHT.HIGH_PASS}
+      )::int as high_passes,
+      COUNT(*) FILTER (WHERE e.team_id = ${teamId} AND p.cross)::int as crosses,
+      -- Open play = passes without a set-piece pass type
+      COALESCE(SUM(p.end_x - e.location_x) FILTER (
+        WHERE e.team_id = ${teamId} AND p.type_id IS NULL
+      ), 0)::float as open_play_forward_distance,
+      COALESCE(SUM(p.length) FILTER (
+        WHERE e.team_id = ${teamId} AND p.type_id IS NULL
+      ), 0)::float as open_play_pass_length,
+      COUNT(*) FILTER (
+        WHERE e.team_id = ${teamId} AND e.type_id = ${EVENT_TYPE.PASS}
+          AND e.location_x >= ${FINAL_THIRD_X}
+      )::int as final_third_passes,
+      COUNT(*) FILTER (
+        WHERE e.team_id <> ${teamId} AND e.type_id = ${EVENT_TYPE.PASS}
+          AND e.location_x >= ${FINAL_THIRD_X}
+      )::int as opponent_final_third_passes,
+      COUNT(*) FILTER (
+        WHERE e.team_id <> ${teamId} AND e.type_id = ${EVENT_TYPE.PASS}
+          AND e.location_x <= ${PPDA_OPPONENT_MAX_X}
+      )::int as opponent_build_up_passes,
+      COUNT(*) FILTER (
+        WHERE e.team_id = ${teamId}
+          AND e.location_x >= ${PPDA_DEFENSIVE_MIN_X}
+          AND (
+            e.type_id = ${EVENT_TYPE.INTERCEPTION}
+            OR e.type_id = ${EVENT_TYPE.FOUL_COMMITTED}
+            OR du.duel_type_id = ${DUEL_TYPE.TACKLE}
+          )
+      )::int as high_defensive_actions,
+      COUNT(*) FILTER (
+        WHERE e.team_id = ${teamId} AND e.type_id = ${EVENT_TYPE.PRESSURE}
+      )::int as pressures,
+      COUNT(*) FILTER (
+        WHERE e.team_id = ${teamId} AND e.type_id = ${EVENT_TYPE.PRESSURE}
+          AND e.location_x >= ${FINAL_THIRD_X}
+      )::int as high_pressures,
+      COUNT(*) FILTER (
+        WHERE e.team_id = ${teamId} AND e.type_id = ${EVENT_TYPE.SHOT}
+      )::int as shots,
+      COUNT(*) FILTER (
+        WHERE e.team_id = ${teamId} AND e.type_id = ${EVENT_TYPE.SHOT}
+          AND e.play_pattern_id = ${PLAY_PATTERN.FROM_COUNTER}
+      )::int as counter_shots
+    FROM events e
+    INNER JOIN team_matches tm ON e.match_id = tm.match_id
+    INNER JOIN competitions c ON tm.competition_id = c.competition_id
+    INNER JOIN seasons se
+      ON tm.competition_id = se.competition_id AND tm.season_id = se.season_id
+    ${subtypeJoins(["p", "du"])}
+    WHERE e.period < ${PENALTY_SHOOTOUT_PERIOD}
+    GROUP BY tm.competition_id, tm.season_id, c.competition_name, se.season_name
+    ORDER BY se.season_name DESC, c.competition_name
+  `);
+
+  // Possessions are numbered per match; the play pattern is shared by
+  // every event in a possession
+  const possessionStats = await db.execute(sql`
+    WITH team_matches AS (${teamMatches}),
+    team_possessions AS (
+      SELECT
+        tm.competition_id,
+        tm.season_id,
+        COUNT(*) as events,
+        COALESCE(SUM(e.duration), 0) as seconds,
+        BOOL_OR(e.play_pattern_id = ${PLAY_PATTERN.FROM_COUNTER}) as from_counter
+      FROM events e
+      INNER JOIN team_matches tm ON e.match_id = tm.match_id
+      WHERE e.possession_team_id = ${teamId}
+        AND e.period < ${PENALTY_SHOOTOUT_PERIOD}
+      GROUP BY tm.competition_id, tm.season_id, e.match_id, e.possession
+    )
+    SELECT
+      competition_id,
+      season_id,
+      COUNT(*)::int as possessions,
+      ROUND(AVG(events), 1)::float as avg_events,
+      ROUND(AVG(seconds), 1)::float as avg_seconds,
+      COUNT(*) FILTER (WHERE from_counter)::int as counter_possessions
+    FROM team_possessions
+    GROUP BY competition_id, season_id
+  `);
+
+  const possessionsBySeason = new Map(
+    (possessionStats.rows as Record<string, number>[]).map((r) => [
+      `${r.competition_id}-${r.season_id}`,
+      r,
+    ])
+  );
+
+  return (eventStats.rows as unknown as StyleEventRow[]).map((e) => {
+    const pos =
+      possessionsBySeason.get(`${e.competition_id}-${e.season_id}`) ?? {};
+    const matches = e.matches;
+    const possessions = pos.possessions ?? 0;
+
+    return {
+      competitionId: e.competition_id,
+      competitionName: e.competition_name,
+      seasonId: e.season_id,
+      seasonName: e.season_name,
+      matches,
+      ppda: ratio(e.opponent_build_up_passes, e.high_defensive_actions),
+      fieldTilt: ratio(
+        e.final_third_passes,
+        e.final_third_passes + e.opponent_final_third_passes,
+        100
+      ),
+      possession: {
+        perMatch: ratio(possessions, matches) ?? 0,
+        avgEvents: pos.avg_events ?? null,
+        avgSeconds: pos.avg_seconds ?? null,
+      },
+      directness: ratio(e.open_play_forward_distance, e.open_play_pass_length),
+      passing: {
+        passesPerMatch: ratio(e.passes, matches) ?? 0,
+        avgLength: ratio(e.pass_length, e.passes),
+        longShare: ratio(e.long_passes, e.passes, 100),
+        groundShare: ratio(e.ground_passes, e.passes, 100),
+        lowShare: ratio(e.low_passes, e.passes, 100),
+        highShare: ratio(e.high_passes, e.passes, 100),
+      },
+      crossing: {
+        crossesPerMatch: ratio(e.crosses, matches) ?? 0,
+        crossRate: ratio(e.crosses, e.passes, 100),
+      },
+      pressing: {
+        pressuresPerMatch: ratio(e.pressures, matches) ?? 0,
+        highPressShare: ratio(e.high_pressures, e.pressures, 100),
+      },
+      counterAttack: {
+        possessionShare: ratio(pos.counter_possessions ?? 0, possessions, 100),
+        shotShare: ratio(e.counter_shots, e.shots, 100),
+      },
+    };
+  });
+}
@@ -0,0 +1,187 @@
+import { useNavigate } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Spinner } from "@/components/ui/spinner";
+import { SearchIcon } from "lucide-react";
+
+interface SearchResult {
+  type: "player" | "team" | "competition" | "manager" | "referee" | "stadium";
+  id: number;
+  name: string;
+  subtitle: string | null;
+  score: number;
+}
+
+async function fetchSearch(q: string): Promise<SearchResult[]> {
+  const params = new URLSearchParams({ q, limit: "5" });
+  const res = await fetch(`/api/search?${params}`);
+  if (!res.ok) throw new Error("Failed to search");
+  const json = await res.json();
+  return json.data;
+}
+
+const TYPE_LABELS: Record<SearchResult["type"], string> = {
+  player: "Player",
+  team: "Team",
+  competition: "Competition",
+  manager: "Manager",
+  referee: "Referee",
+  stadium: "Stadium",
+};
+
+export default function CommandPalette() {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [inputValue, setInputValue] = useState("");
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // Open with Cmd/Ctrl+K
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // Debounce search input
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(inputValue.trim()), 200);
+    return () => clearTimeout(timer);
+  }, [inputValue]);
+
+  const { data: results = [], isFetching } = useQuery({
+    queryKey: ["search", query],
+    queryFn: () => fetchSearch(query),
+    enabled: query.length >= 2,
+    placeholderData: (previous) => previous,
+  });
+
+  const visibleResults = query.length >= 2 ? results : [];
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [results]);
+
+  const close = () => {
+    setOpen(false);
+    setInputValue("");
+    setQuery("");
+  };
+
+  const select = (result: SearchResult) => {
+    const id = result.id.toString();
+    switch (result.type) {
+      case "player":
+        navigate({ to: "/players/$playerId", params: { playerId: id } });
+        break;
+      case "team":
+        navigate({ to: "/teams/$teamId", params: { teamId: id } });
+        break;
+      case "manager":
+        navigate({ to: "/managers/$managerId", params: { managerId: id } });
+        break;
+      case "referee":
+        navigate({ to: "/referees/$refereeId", params: { refereeId: id } });
+        break;
+      case "stadium":
+        navigate({ to: "/stadiums/$stadiumId", params: { stadiumId: id } });
+        break;
+      default:
+        // Competitions have no page yet
+        return;
+    }
+    close();
+  };
+
+  const onInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, visibleResults.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === "Enter" && visibleResults[activeIndex]) {
+      e.preventDefault();
+      select(visibleResults[activeIndex]);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-2 rounded-md border border-border px-3 py-1.5 text-sm text-muted-foreground hover:bg-accent transition-colors"
+      >
+        <SearchIcon className="h-4 w-4" />
+        <span className="hidden lg:inline">Search...</span>
+        <kbd className="hidden lg:inline text-xs border border-border rounded px-1">
+          ⌘K
+        </kbd>
+      </button>
+
+      <Dialog open={open} onOpenChange={(isOpen) => !isOpen && close()}>
+        <DialogContent className="p-0 gap-0" showCloseButton={false}>
+          <DialogTitle className="sr-only">Search</DialogTitle>
+          <DialogDescription className="sr-only">
+            Search players, teams, competitions, managers, referees and stadiums
+          </DialogDescription>
+          <div className="flex items-center gap-2 border-b border-border px-3">
+            <SearchIcon className="h-4 w-4 text-muted-foreground" />
+            <Input
+              autoFocus
+              value={inputValue}
+              onChange={(e) => setInputValue(e.target.value)}
+              onKeyDown={onInputKeyDown}
+              placeholder="Search players, teams, managers..."
+              className="border-0 shadow-none focus-visible:ring-0"
+            />
+            {isFetching && <Spinner />}
+          </div>
+          <div className="max-h-96 overflow-y-auto p-2">
+            {visibleResults.length > 0 ? (
+              visibleResults.map((result, idx) => (
+                <button
+                  key={`${result.type}-${result.id}`}
+                  onClick={() => select(result)}
+                  onMouseEnter={() => setActiveIndex(idx)}
+                  className={`flex w-full items-center justify-between rounded px-3 py-2 text-left ${
+                    idx === activeIndex ? "bg-accent" : ""
+                  }`}
+                >
+                  <div>
+                    <div className="text-sm font-medium">{result.name}</div>
+                    {result.subtitle && (
+                      <div className="text-xs text-muted-foreground">
+                        {result.subtitle}
+                      </div>
+                    )}
+                  </div>
+                  <Badge variant="secondary">{TYPE_LABELS[result.type]}</Badge>
+                </button>
+              ))
+            ) : (
+              <div className="px-3 py-6 text-center text-sm text-muted-foreground">
+                {query.length >= 2 && !isFetching
+                  ? "No results found"
+                  : "Type at least 2 characters"}
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -4,6 +4,7 @@ import {
   useThemeTransition,
 } from "@/components/ui/shadcn-io/theme-toggle-button";
 import { useTheme } from "./theme-provider";
+import CommandPalette from "./CommandPalette";
 import { useState } from "react";
 
 export default function Header() {
@@ -60,6 +61,16 @@ export default function Header() {
             >
               Teams
             </Link>
+            <Link
+              to="/compare"
+              search={{ ids: "", per90: true }}
+              className="text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+              activeProps={{
+                className: "text-sm font-medium text-foreground",
+              }}
+            >
+              Compare
+            </Link>
             <Link
               to="/playground"
               className="text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
@@ -83,6 +94,9 @@ export default function Header() {
 
         {/* Right side controls */}
         <div className="flex items-center gap-2">
+          {/* Global Search (Cmd/Ctrl+K) */}
+          <CommandPalette />
+
           {/* Desktop Theme Toggle */}
           <div className="hidden md:block">
             <ThemeToggleButton
@@ -148,6 +162,17 @@ export default function Header() {
                   >
                     Teams
                   </Link>
+                  <Link
+                    to="/compare"
+                    search={{ ids: "", per90: true }}
+                    className="text-base font-medium text-muted-foreground hover:text-foreground transition-colors"
+                    activeProps={{
+                      className: "text-base font-medium text-foreground",
+                    }}
+                    onClick={() => setMobileMenuOpen(false)}
+                  >
+                    Compare
+                  </Link>
                   <Link
                     to="/playground"
                     className="text-base font-medium text-muted-foreground hover:text-foreground transition-colors"
@@ -13,9 +13,14 @@ import { Route as TeamsRouteImport } from './routes/teams'
 import { Route as RagRouteImport } from './routes/rag'
 import { Route as PlaygroundRouteImport } from './routes/playground'
 import { Route as PlayersRouteImport } from './routes/players'
+import { Route as CompareRouteImport } from './routes/compare'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as TeamsTeamIdRouteImport } from './routes/teams_.$teamId'
+import { Route as StadiumsStadiumIdRouteImport } from './routes/stadiums_.$stadiumId'
+import { Route as RefereesRefereeIdRouteImport } from './routes/referees_.$refereeId'
 import { Route as PlayersPlayerIdRouteImport } from './routes/players_.$playerId'
+import { Route as MatchesMatchIdRouteImport } from './routes/matches_.$matchId'
+import { Route as ManagersManagerIdRouteImport } from './routes/managers_.$managerId'
 
 const TeamsRoute = TeamsRouteImport.update({
   id: '/teams',
@@ -37,6 +42,11 @@ const PlayersRoute = PlayersRouteImport.update({
   path: '/players',
   getParentRoute: () => rootRouteImport,
 } as any)
+const CompareRoute = CompareRouteImport.update({
+  id: '/compare',
+  path: '/compare',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
@@ -47,77 +57,132 @@ const TeamsTeamIdRoute = TeamsTeamIdRouteImport.update({
   path: '/teams/$teamId',
   getParentRoute: () => rootRouteImport,
 } as any)
+const StadiumsStadiumIdRoute = StadiumsStadiumIdRouteImport.update({
+  id: '/stadiums_/$stadiumId',
+  path: '/stadiums/$stadiumId',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const RefereesRefereeIdRoute = RefereesRefereeIdRouteImport.update({
+  id: '/referees_/$refereeId',
+  path: '/referees/$refereeId',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const PlayersPlayerIdRoute = PlayersPlayerIdRouteImport.update({
   id: '/players_/$playerId',
   path: '/players/$playerId',
   getParentRoute: () => rootRouteImport,
 } as any)
+const MatchesMatchIdRoute = MatchesMatchIdRouteImport.update({
+  id: '/matches_/$matchId',
+  path: '/matches/$matchId',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ManagersManagerIdRoute = ManagersManagerIdRouteImport.update({
+  id: '/managers_/$managerId',
+  path: '/managers/$managerId',
+  getParentRoute: () => rootRouteImport,
+} as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/compare': typeof CompareRoute
   '/players': typeof PlayersRoute
   '/playground': typeof PlaygroundRoute
   '/rag': typeof RagRoute
   '/teams': typeof TeamsRoute
+  '/managers/$managerId': typeof ManagersManagerIdRoute
+  '/matches/$matchId': typeof MatchesMatchIdRoute
   '/players/$playerId': typeof PlayersPlayerIdRoute
+  '/referees/$refereeId': typeof RefereesRefereeIdRoute
+  '/stadiums/$stadiumId': typeof StadiumsStadiumIdRoute
   '/teams/$teamId': typeof TeamsTeamIdRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/compare': typeof CompareRoute
   '/players': typeof PlayersRoute
   '/playground': typeof PlaygroundRoute
   '/rag': typeof RagRoute
   '/teams': typeof TeamsRoute
+  '/managers/$managerId': typeof ManagersManagerIdRoute
+  '/matches/$matchId': typeof MatchesMatchIdRoute
   '/players/$playerId': typeof PlayersPlayerIdRoute
+  '/referees/$refereeId': typeof RefereesRefereeIdRoute
+  '/stadiums/$stadiumId': typeof StadiumsStadiumIdRoute
   '/teams/$teamId': typeof TeamsTeamIdRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/compare': typeof CompareRoute
   '/players': typeof PlayersRoute
   '/playground': typeof PlaygroundRoute
   '/rag': typeof RagRoute
   '/teams': typeof TeamsRoute
+  '/managers_/$managerId': typeof ManagersManagerIdRoute
+  '/matches_/$matchId': typeof MatchesMatchIdRoute
   '/players_/$playerId': typeof PlayersPlayerIdRoute
+  '/referees_/$refereeId': typeof RefereesRefereeIdRoute
+  '/stadiums_/$stadiumId': typeof StadiumsStadiumIdRoute
   '/teams_/$teamId': typeof TeamsTeamIdRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
+    | '/compare'
     | '/players'
     | '/playground'
     | '/rag'
     | '/teams'
+    | '/managers/$managerId'
+    | '/matches/$matchId'
     | '/players/$playerId'
+    | '/referees/$refereeId'
+    | '/stadiums/$stadiumId'
     | '/teams/$teamId'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
+    | '/compare'
     | '/players'
     | '/playground'
     | '/rag'
     | '/teams'
+    | '/managers/$managerId'
+    | '/matches/$matchId'
     | '/players/$playerId'
+    | '/referees/$refereeId'
+    | '/stadiums/$stadiumId'
     | '/teams/$teamId'
   id:
     | '__root__'
     | '/'
+    | '/compare'
     | '/players'
     | '/playground'
     | '/rag'
     | '/teams'
+    | '/managers_/$managerId'
+    | '/matches_/$matchId'
     | '/players_/$playerId'
+    | '/referees_/$refereeId'
+    | '/stadiums_/$stadiumId'
     | '/teams_/$teamId'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  CompareRoute: typeof CompareRoute
   PlayersRoute: typeof PlayersRoute
   PlaygroundRoute: typeof PlaygroundRoute
   RagRoute: typeof RagRoute
   TeamsRoute: typeof TeamsRoute
+  ManagersManagerIdRoute: typeof ManagersManagerIdRoute
+  MatchesMatchIdRoute: typeof MatchesMatchIdRoute
   PlayersPlayerIdRoute: typeof PlayersPlayerIdRoute
+  RefereesRefereeIdRoute: typeof RefereesRefereeIdRoute
+  StadiumsStadiumIdRoute: typeof StadiumsStadiumIdRoute
   TeamsTeamIdRoute: typeof TeamsTeamIdRoute
 }
 
@@ -151,6 +216,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof PlayersRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/compare': {
+      id: '/compare'
+      path: '/compare'
+      fullPath: '/compare'
+      preLoaderRoute: typeof CompareRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -165,6 +237,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof TeamsTeamIdRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/stadiums_/$stadiumId': {
+      id: '/stadiums_/$stadiumId'
+      path: '/stadiums/$stadiumId'
+      fullPath: '/stadiums/$stadiumId'
+      preLoaderRoute: typeof StadiumsStadiumIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/referees_/$refereeId': {
+      id: '/referees_/$refereeId'
+      path: '/referees/$refereeId'
+      fullPath: '/referees/$refereeId'
+      preLoaderRoute: typeof RefereesRefereeIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/players_/$playerId': {
       id: '/players_/$playerId'
       path: '/players/$playerId'
@@ -172,16 +258,35 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof PlayersPlayerIdRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/matches_/$matchId': {
+      id: '/matches_/$matchId'
+      path: '/matches/$matchId'
+      fullPath: '/matches/$matchId'
+      preLoaderRoute: typeof MatchesMatchIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/managers_/$managerId': {
+      id: '/managers_/$managerId'
+      path: '/managers/$managerId'
+      fullPath: '/managers/$managerId'
+      preLoaderRoute: typeof ManagersManagerIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  CompareRoute: CompareRoute,
   PlayersRoute: PlayersRoute,
   PlaygroundRoute: PlaygroundRoute,
   RagRoute: RagRoute,
   TeamsRoute: TeamsRoute,
+  ManagersManagerIdRoute: ManagersManagerIdRoute,
+  MatchesMatchIdRoute: MatchesMatchIdRoute,
   PlayersPlayerIdRoute: PlayersPlayerIdRoute,
+  RefereesRefereeIdRoute: RefereesRefereeIdRoute,
+  StadiumsStadiumIdRoute: StadiumsStadiumIdRoute,
   TeamsTeamIdRoute: TeamsTeamIdRoute,
 }
 export const routeTree = rootRouteImport
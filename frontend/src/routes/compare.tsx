@@ -0,0 +1,528 @@
+import { createFileRoute, useNavigate, Link } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { SearchIcon, XIcon } from "lucide-react";
+
+const MAX_PLAYERS = 5;
+
+// Overlay colors, one per compared player
+const PLAYER_COLORS = ["#2563eb", "#dc2626", "#16a34a", "#d97706", "#9333ea"];
+
+export const Route = createFileRoute("/compare")({
+  component: ComparePage,
+  validateSearch: (search: Record<string, unknown>) => {
+    return {
+      ids: (search?.ids as string) || "",
+      per90: search?.per90 !== false && search?.per90 !== "false",
+    };
+  },
+});
+
+type StatGroup =
+  | "passing"
+  | "shooting"
+  | "dribbling"
+  | "duels"
+  | "defensive"
+  | "goalkeeper";
+
+type StatValue = number | string | null;
+
+type ComparedPlayer = {
+  player: {
+    playerId: number;
+    playerName: string;
+    playerNickname: string | null;
+  };
+  minutesPlayed: number;
+  belowMinMinutes: boolean;
+  stats: Record<StatGroup, Record<string, StatValue>> & {
+    per90?: Record<StatGroup, Record<string, StatValue>>;
+  };
+};
+
+type SearchResult = {
+  id: number;
+  name: string;
+  subtitle: string | null;
+};
+
+const STAT_GROUPS: {
+  group: StatGroup;
+  title: string;
+  rows: { key: string; label: string }[];
+}[] = [
+  {
+    group: "passing",
+    title: "Passing",
+    rows: [
+      { key: "total_passes", label: "Total Passes" },
+      { key: "successful_passes", label: "Successful" },
+      { key: "failed_passes", label: "Failed" },
+      { key: "pass_accuracy", label: "Accuracy %" },
+      { key: "key_passes", label: "Key Passes" },
+    ],
+  },
+  {
+    group: "shooting",
+    title: "Shooting",
+    rows: [
+      { key: "total_shots", label: "Total Shots" },
+      { key: "goals", label: "Goals" },
+      { key: "shots_on_target", label: "On Target" },
+      { key: "shot_accuracy", label: "Accuracy %" },
+      { key: "avg_xg", label: "Avg xG" },
+    ],
+  },
+  {
+    group: "dribbling",
+    title: "Dribbling",
+    rows: [
+      { key: "total_dribbles", label: "Total Dribbles" },
+      { key: "successful_dribbles", label: "Successful" },
+      { key: "failed_dribbles", label: "Failed" },
+      { key: "dribble_success_rate", label: "Success Rate %" },
+    ],
+  },
+  {
+    group: "duels",
+    title: "Duels",
+    rows: [
+      { key: "total_duels", label: "Total Duels" },
+      { key: "duels_won", label: "Won" },
+      { key: "duels_lost", label: "Lost" },
+      { key: "duel_win_rate", label: "Win Rate %" },
+    ],
+  },
+  {
+    group: "defensive",
+    title: "Defensive Actions",
+    rows: [
+      { key: "interceptions", label: "Interceptions" },
+      { key: "blocks", label: "Blocks" },
+      { key: "clearances", label: "Clearances" },
+      { key: "pressure_events", label: "Pressures" },
+      { key: "dispossessions", label: "Dispossessed" },
+      { key: "fouls_won", label: "Fouls Won" },
+      { key: "fouls_committed", label: "Fouls Committed" },
+    ],
+  },
+  {
+    group: "goalkeeper",
+    title: "Goalkeeper",
+    rows: [
+      { key: "goalkeeper_actions", label: "Actions" },
+      { key: "saves", label: "Saves" },
+      { key: "goals_conceded", label: "Goals Conceded" },
+    ],
+  },
+];
+
+// Radar axes (counting stats, per 90 when enabled)
+const RADAR_AXES: { group: StatGroup; key: string; label: string }[] = [
+  { group: "passing", key: "successful_passes", label: "Passes" },
+  { group: "passing", key: "key_passes", label: "Key Passes" },
+  { group: "shooting", key: "total_shots", label: "Shots" },
+  { group: "shooting", key: "goals", label: "Goals" },
+  { group: "dribbling", key: "successful_dribbles", label: "Dribbles" },
+  { group: "duels", key: "duels_won", label: "Duels Won" },
+  { group: "defensive", key: "interceptions", label: "Interceptions" },
+  { group: "defensive", key: "pressure_events", label: "Pressures" },
+];
+
+async function fetchComparison(ids: string, per90: boolean) {
+  const params = new URLSearchParams({ ids, per90: String(per90) });
+  const res = await fetch(`/api/players/compare?${params}`);
+  if (!res.ok) throw new Error("Failed to compare players");
+  return res.json();
+}
+
+async function searchPlayers(q: string): Promise<SearchResult[]> {
+  const params = new URLSearchParams({ q, types: "player", limit: "8" });
+  const res = await fetch(`/api/search?${params}`);
+  if (!res.ok) throw new Error("Failed to search players");
+  const json = await res.json();
+  return json.data;
+}
+
+/**
+ * Value shown for a stat: the per-90 version when available, else the total
+ */
+function statValue(
+  player: ComparedPlayer,
+  group: StatGroup,
+  key: string,
+  per90: boolean
+): number | null {
+  const per90Group = player.stats.per90?.[group];
+  const value =
+    per90 && per90Group && key in per90Group
+      ? per90Group[key]
+      : player.stats[group]?.[key];
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function PlayerPicker({
+  disabled,
+  onSelect,
+}: {
+  disabled: boolean;
+  onSelect: (result: SearchResult) => void;
+}) {
+  const [inputValue, setInputValue] = useState("");
+  const [query, setQuery] = useState("");
+
+  // Debounce search input
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(inputValue.trim()), 200);
+    return () => clearTimeout(timer);
+  }, [inputValue]);
+
+  const { data: results = [] } = useQuery({
+    queryKey: ["search-players", query],
+    queryFn: () => searchPlayers(query),
+    enabled: query.length >= 2,
+  });
+
+  return (
+    <div className="relative w-full max-w-md">
+      <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      <Input
+        value={inputValue}
+        disabled={disabled}
+        onChange={(e) => setInputValue(e.target.value)}
+        placeholder={
+          disabled
+            ? `Up to ${MAX_PLAYERS} players`
+            : "Add a player to compare..."
+        }
+        className="pl-9"
+      />
+      {query.length >= 2 && results.length > 0 && (
+        <div className="absolute z-10 mt-1 w-full rounded-md border border-border bg-popover p-1 shadow-md">
+          {results.map((result) => (
+            <button
+              key={result.id}
+              onClick={() => {
+                onSelect(result);
+                setInputValue("");
+                setQuery("");
+              }}
+              className="flex w-full flex-col rounded px-3 py-2 text-left hover:bg-accent"
+            >
+              <span className="text-sm font-medium">{result.name}</span>
+              {result.subtitle && (
+                <span className="text-xs text-muted-foreground">
+                  {result.subtitle}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ComparisonRadar({
+  players,
+  per90,
+}: {
+  players: ComparedPlayer[];
+  per90: boolean;
+}) {
+  const size = 320;
+  const center = size / 2;
+  const radius = size / 2 - 50;
+
+  // Each axis is scaled to the best value among the compared players
+  const maxima = RADAR_AXES.map((axis) =>
+    Math.max(
+      ...players.map(
+        (player) => statValue(player, axis.group, axis.key, per90) ?? 0
+      )
+    )
+  );
+
+  const point = (axisIndex: number, fraction: number) => {
+    const angle = (Math.PI * 2 * axisIndex) / RADAR_AXES.length - Math.PI / 2;
+    return {
+      x: center + Math.cos(angle) * radius * fraction,
+      y: center + Math.sin(angle) * radius * fraction,
+    };
+  };
+
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className="w-full max-w-md mx-auto">
+      {[0.25, 0.5, 0.75, 1].map((ring) => (
+        <polygon
+          key={ring}
+          points={RADAR_AXES.map((_, i) => {
+            const { x, y } = point(i, ring);
+            return `${x},${y}`;
+          }).join(" ")}
+          className="fill-none stroke-border"
+        />
+      ))}
+      {RADAR_AXES.map((axis, i) => {
+        const end = point(i, 1);
+        const label = point(i, 1.18);
+        return (
+          <g key={axis.key}>
+            <line
+              x1={center}
+              y1={center}
+              x2={end.x}
+              y2={end.y}
+              className="stroke-border"
+            />
+            <text
+              x={label.x}
+              y={label.y}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              className="fill-muted-foreground text-[10px]"
+            >
+              {axis.label}
+            </text>
+          </g>
+        );
+      })}
+      {players.map((player, playerIndex) => (
+        <polygon
+          key={player.player.playerId}
+          points={RADAR_AXES.map((axis, i) => {
+            const value = statValue(player, axis.group, axis.key, per90) ?? 0;
+            const { x, y } = point(i, maxima[i] > 0 ? value / maxima[i] : 0);
+            return `${x},${y}`;
+          }).join(" ")}
+          fill={PLAYER_COLORS[playerIndex]}
+          fillOpacity={0.15}
+          stroke={PLAYER_COLORS[playerIndex]}
+          strokeWidth={2}
+        />
+      ))}
+    </svg>
+  );
+}
+
+function ComparePage() {
+  const navigate = useNavigate({ from: Route.fullPath });
+  const { ids = "", per90 = true } = Route.useSearch();
+  const [names, setNames] = useState<Record<number, string>>({});
+
+  const selectedIds = ids
+    .split(",")
+    .map(Number)
+    .filter((id) => Number.isInteger(id) && id > 0);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["player-compare", selectedIds.join(","), per90],
+    queryFn: () => fetchComparison(selectedIds.join(","), per90),
+    enabled: selectedIds.length >= 2,
+  });
+
+  const compared: ComparedPlayer[] = data?.data?.players || [];
+
+  const setIds = (next: number[]) => {
+    navigate({ search: (prev) => ({ ...prev, ids: next.join(",") }) });
+  };
+
+  const playerName = (id: number) =>
+    compared.find((p) => p.player.playerId === id)?.player.playerName ||
+    names[id] ||
+    `Player ${id}`;
+
+  return (
+    <div className="container mx-auto py-4 px-4 md:py-8 md:px-6">
+      <h1 className="text-2xl md:text-4xl font-bold text-foreground mb-6">
+        Compare Players
+      </h1>
+
+      {/* Player selection */}
+      <div className="flex flex-col gap-4 mb-8">
+        <div className="flex flex-wrap items-center gap-4">
+          <PlayerPicker
+            disabled={selectedIds.length >= MAX_PLAYERS}
+            onSelect={(result) => {
+              if (selectedIds.includes(result.id)) return;
+              setNames((prev) => ({ ...prev, [result.id]: result.name }));
+              setIds([...selectedIds, result.id]);
+            }}
+          />
+          <div className="flex items-center gap-2">
+            <Switch
+              id="per90"
+              checked={per90}
+              onCheckedChange={(checked) =>
+                navigate({ search: (prev) => ({ ...prev, per90: checked }) })
+              }
+            />
+            <Label htmlFor="per90">Per 90</Label>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {selectedIds.map((id, i) => (
+            <Badge
+              key={id}
+              variant="outline"
+              className="gap-2 py-1"
+              style={{ borderColor: PLAYER_COLORS[i] }}
+            >
+              <span
+                className="h-2 w-2 rounded-full"
+                style={{ backgroundColor: PLAYER_COLORS[i] }}
+              />
+              {playerName(id)}
+              <button
+                onClick={() => setIds(selectedIds.filter((s) => s !== id))}
+                aria-label="Remove player"
+              >
+                <XIcon className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      {selectedIds.length < 2 ? (
+        <div className="text-muted-foreground">
+          Select at least two players to compare
+        </div>
+      ) : error ? (
+        <div className="text-destructive">
+          Error comparing players: {(error as Error).message}
+        </div>
+      ) : isLoading ? (
+        <div className="grid gap-6 lg:grid-cols-2">
+          {[...Array(4)].map((_, i) => (
+            <Card key={i}>
+              <CardHeader>
+                <Skeleton className="h-6 w-32" />
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-full" />
+                <Skeleton className="h-4 w-full" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          {/* Radar */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Profile{per90 && " (per 90)"}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ComparisonRadar players={compared} per90={per90} />
+            </CardContent>
+          </Card>
+
+          {/* Minutes */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Minutes Played</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {compared.map((p, i) => (
+                <div
+                  key={p.player.playerId}
+                  className="flex justify-between items-center border-b border-border pb-2"
+                >
+                  <Link
+                    to="/players/$playerId"
+                    params={{ playerId: p.player.playerId.toString() }}
+                    className="text-sm hover:underline"
+                    style={{ color: PLAYER_COLORS[i] }}
+                  >
+                    {p.player.playerName}
+                  </Link>
+                  <span className="font-semibold">
+                    {Math.round(p.minutesPlayed).toLocaleString()}
+                    {p.belowMinMinutes && (
+                      <Badge variant="secondary" className="ml-2">
+                        Below minimum
+                      </Badge>
+                    )}
+                  </span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Stat tables */}
+          {STAT_GROUPS.map(({ group, title, rows }) => (
+            <Card key={group}>
+              <CardHeader>
+                <CardTitle>{title}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead />
+                      {compared.map((p, i) => (
+                        <TableHead
+                          key={p.player.playerId}
+                          className="text-right"
+                          style={{ color: PLAYER_COLORS[i] }}
+                        >
+                          {p.player.playerName}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => {
+                      const values = compared.map((p) =>
+                        statValue(p, group, row.key, per90)
+                      );
+                      const best = Math.max(
+                        ...values.map((v) => v ?? -Infinity)
+                      );
+                      return (
+                        <TableRow key={row.key}>
+                          <TableCell className="text-muted-foreground">
+                            {row.label}
+                          </TableCell>
+                          {values.map((value, i) => (
+                            <TableCell
+                              key={compared[i].player.playerId}
+                              className={`text-right ${
+                                value !== null && value === best && best > 0
+                                  ? "font-semibold"
+                                  : ""
+                              }`}
+                            >
+                              {value ?? "-"}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
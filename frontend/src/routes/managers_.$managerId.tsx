@@ -0,0 +1,289 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeftIcon } from "lucide-react";
+
+export const Route = createFileRoute("/managers_/$managerId")({
+  component: ManagerDetailPage,
+});
+
+async function fetchManager(managerId: string) {
+  const res = await fetch(`/api/managers/${managerId}`);
+  if (!res.ok) throw new Error("Failed to fetch manager");
+  return res.json();
+}
+
+function resultOf(goalsFor: number, goalsAgainst: number) {
+  if (goalsFor > goalsAgainst) return "W";
+  if (goalsFor < goalsAgainst) return "L";
+  return "D";
+}
+
+function ManagerDetailPage() {
+  const { managerId } = Route.useParams();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["manager", managerId],
+    queryFn: () => fetchManager(managerId),
+  });
+
+  const managerData = data?.data;
+
+  if (error) {
+    return (
+      <div className="container mx-auto py-8 px-6">
+        <div className="text-destructive">
+          Error loading manager: {(error as Error).message}
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-8 px-6">
+        <div className="flex items-center gap-4 mb-8">
+          <Skeleton className="h-10 w-10" />
+          <Skeleton className="h-10 w-64" />
+        </div>
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+          {[...Array(4)].map((_, i) => (
+            <Card key={i}>
+              <CardHeader>
+                <Skeleton className="h-6 w-32" />
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Skeleton className="h-4 w-full" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (!managerData) {
+    return (
+      <div className="container mx-auto py-8 px-6">
+        <div className="text-muted-foreground">Manager not found</div>
+      </div>
+    );
+  }
+
+  const { manager, career, seasonRecords, tenures, recentMatches } =
+    managerData;
+
+  return (
+    <div className="container mx-auto py-4 px-4 md:py-8 md:px-6">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-8">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => window.history.back()}
+          className="hover:bg-accent"
+        >
+          <ArrowLeftIcon className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-2xl md:text-4xl font-bold text-foreground">
+            {manager.managerName}
+          </h1>
+          <p className="text-base md:text-lg text-muted-foreground mt-1">
+            {manager.managerNickname && `"${manager.managerNickname}" • `}
+            {manager.country?.name || "Unknown"}
+            {manager.dateOfBirth && ` • Born ${manager.dateOfBirth}`}
+          </p>
+        </div>
+      </div>
+
+      {/* Career Overview */}
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4 mb-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">Matches</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold">{career.matches}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">Record (W-D-L)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold">
+              <span className="text-green-600">{career.wins}</span>-
+              {career.draws}-
+              <span className="text-red-600">{career.losses}</span>
+            </div>
+            <div className="text-xs text-muted-foreground mt-1">
+              {career.win_rate || 0}% win rate
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">Goals per Game</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold">
+              {career.goals_per_game || "0.00"}
+            </div>
+            <div className="text-xs text-muted-foreground mt-1">
+              {career.goals_for} scored
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">Conceded per Game</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-red-600">
+              {career.conceded_per_game || "0.00"}
+            </div>
+            <div className="text-xs text-muted-foreground mt-1">
+              {career.goals_against} conceded
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Tenures */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Tenures</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {tenures.length > 0 ? (
+              <div className="space-y-2">
+                {tenures.map((tenure: any) => (
+                  <Link
+                    key={`${tenure.team_id}-${tenure.start_date}`}
+                    to="/teams/$teamId"
+                    params={{ teamId: tenure.team_id.toString() }}
+                    className="flex justify-between items-center p-2 rounded hover:bg-accent transition-colors"
+                  >
+                    <div>
+                      <div className="font-medium">{tenure.team_name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {tenure.start_date} → {tenure.end_date}
+                      </div>
+                    </div>
+                    <Badge variant="secondary">{tenure.matches} matches</Badge>
+                  </Link>
+                ))}
+              </div>
+            ) : (
+              <div className="text-sm text-muted-foreground">
+                No tenure data
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Recent Matches */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Matches</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {recentMatches.length > 0 ? (
+              <div className="space-y-2">
+                {recentMatches.map((match: any) => (
+                  <div
+                    key={match.match_id}
+                    className="flex justify-between items-center border-b border-border pb-2 last:border-0"
+                  >
+                    <div>
+                      <div className="text-sm font-medium">
+                        {match.is_home_team ? "vs" : "@"} {match.opponent_name}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {match.match_date} • {match.competition_name}
+                      </div>
+                    </div>
+                    <Badge variant="secondary">
+                      {resultOf(match.goals_for, match.goals_against)}{" "}
+                      {match.goals_for}-{match.goals_against}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-sm text-muted-foreground">No match data</div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Career by Season */}
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Career by Season</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {seasonRecords.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Team</TableHead>
+                  <TableHead>Competition</TableHead>
+                  <TableHead>Season</TableHead>
+                  <TableHead className="text-right">P</TableHead>
+                  <TableHead className="text-right">W</TableHead>
+                  <TableHead className="text-right">D</TableHead>
+                  <TableHead className="text-right">L</TableHead>
+                  <TableHead className="text-right">GF</TableHead>
+                  <TableHead className="text-right">GA</TableHead>
+                  <TableHead className="text-right">GF/G</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {seasonRecords.map((row: any) => (
+                  <TableRow
+                    key={`${row.team_id}-${row.competition_id}-${row.season_id}`}
+                  >
+                    <TableCell className="font-medium">
+                      {row.team_name}
+                    </TableCell>
+                    <TableCell>{row.competition_name}</TableCell>
+                    <TableCell>{row.season_name}</TableCell>
+                    <TableCell className="text-right">{row.matches}</TableCell>
+                    <TableCell className="text-right">{row.wins}</TableCell>
+                    <TableCell className="text-right">{row.draws}</TableCell>
+                    <TableCell className="text-right">{row.losses}</TableCell>
+                    <TableCell className="text-right">
+                      {row.goals_for}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.goals_against}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.goals_per_game}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-sm text-muted-foreground">No career data</div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeftIcon } from "lucide-react";
+
+export const Route = createFileRoute("/matches_/$matchId")({
+  component: MatchDetailPage,
+});
+
+async function fetchMatch(matchId: string) {
+  const res = await fetch(`/api/matches/${matchId}`);
+  if (!res.ok) throw new Error("Failed to fetch match");
+  return res.json();
+}
+
+function MatchDetailPage() {
+  const { matchId } = Route.useParams();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["match", matchId],
+    queryFn: () => fetchMatch(matchId),
+  });
+
+  const match = data?.data;
+
+  if (error) {
+    return (
+      <div className="container mx-auto py-8 px-6">
+        <div className="text-destructive">
+          Error loading match: {(error as Error).message}
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-8 px-6">
+        <div className="flex items-center gap-4 mb-8">
+          <Skeleton className="h-10 w-10" />
+          <Skeleton className="h-10 w-64" />
+        </div>
+        <Card>
+          <CardContent className="py-8">
+            <Skeleton className="h-12 w-full" />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!match) {
+    return (
+      <div className="container mx-auto py-8 px-6">
+        <div className="text-muted-foreground">Match not found</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-4 px-4 md:py-8 md:px-6">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-8">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => window.history.back()}
+          className="hover:bg-accent"
+        >
+          <ArrowLeftIcon className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-2xl md:text-4xl font-bold text-foreground">
+            {match.homeTeam.name} vs {match.awayTeam.name}
+          </h1>
+          <p className="text-base md:text-lg text-muted-foreground mt-1">
+            {match.competition.name} • {match.season.name}
+            {match.stage?.name && ` • ${match.stage.name}`}
+          </p>
+        </div>
+      </div>
+
+      {/* Scoreline */}
+      <Card className="mb-6">
+        <CardContent className="py-8">
+          <div className="flex items-center justify-center gap-6 md:gap-12">
+            <Link
+              to="/teams/$teamId"
+              params={{ teamId: match.homeTeam.id.toString() }}
+              className="text-lg md:text-2xl font-semibold text-right flex-1 hover:underline"
+            >
+              {match.homeTeam.name}
+            </Link>
+            <div className="text-4xl md:text-5xl font-bold">
+              {match.homeScore} - {match.awayScore}
+            </div>
+            <Link
+              to="/teams/$teamId"
+              params={{ teamId: match.awayTeam.id.toString() }}
+              className="text-lg md:text-2xl font-semibold flex-1 hover:underline"
+            >
+              {match.awayTeam.name}
+            </Link>
+          </div>
+          <div className="text-center text-sm text-muted-foreground mt-4">
+            {match.matchDate}
+            {match.kickOff && ` • ${match.kickOff.slice(0, 5)}`}
+            {match.matchWeek && ` • Matchweek ${match.matchWeek}`}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        {/* Venue */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">Venue</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {match.stadium ? (
+              <Link
+                to="/stadiums/$stadiumId"
+                params={{ stadiumId: match.stadium.id.toString() }}
+                className="hover:underline"
+              >
+                <div className="font-medium">{match.stadium.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {match.stadium.country}
+                </div>
+              </Link>
+            ) : (
+              <div className="text-sm text-muted-foreground">Unknown</div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Referee */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">Referee</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {match.referee ? (
+              <Link
+                to="/referees/$refereeId"
+                params={{ refereeId: match.referee.id.toString() }}
+                className="hover:underline"
+              >
+                <div className="font-medium">{match.referee.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {match.referee.country}
+                </div>
+              </Link>
+            ) : (
+              <div className="text-sm text-muted-foreground">Unknown</div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Managers */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">Managers</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {[...match.managers.home, ...match.managers.away].map(
+              (manager: any) => (
+                <Link
+                  key={`${manager.teamId}-${manager.managerId}`}
+                  to="/managers/$managerId"
+                  params={{ managerId: manager.managerId.toString() }}
+                  className="block hover:underline"
+                >
+                  <div className="font-medium">{manager.managerName}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {manager.isHomeTeam
+                      ? match.homeTeam.name
+                      : match.awayTeam.name}
+                  </div>
+                </Link>
+              )
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
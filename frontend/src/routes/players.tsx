@@ -20,10 +20,13 @@ const ITEMS_PER_PAGE = 20;
 
 export const Route = createFileRoute("/players")({
   component: PlayersPage,
-  validateSearch: (search: Record<string, unknown>) => {
+  validateSearch: (
+    search: Record<string, unknown>
+  ): { page: number; search: string; role?: string } => {
     return {
       page: Number(search?.page ?? 1),
       search: (search?.search as string) || "",
+      role: (search?.role as string) || undefined,
     };
   },
 });
@@ -48,19 +51,34 @@ type PlayersResponse = {
   };
 };
 
+type PlayerRole = {
+  role: string;
+  positionCategory: string;
+  playerSeasons: number;
+};
+
 async function fetchPlayers(
   page: number,
-  search: string
+  search: string,
+  role?: string
 ): Promise<PlayersResponse> {
   const offset = (page - 1) * ITEMS_PER_PAGE;
   const searchParam = search ? `&search=${encodeURIComponent(search)}` : "";
+  const roleParam = role ? `&role=${encodeURIComponent(role)}` : "";
   const res = await fetch(
-    `/api/players?limit=${ITEMS_PER_PAGE}&offset=${offset}${searchParam}`
+    `/api/players?limit=${ITEMS_PER_PAGE}&offset=${offset}${searchParam}${roleParam}`
   );
   if (!res.ok) throw new Error("Failed to fetch players");
   return res.json();
 }
 
+async function fetchPlayerRoles(): Promise<PlayerRole[]> {
+  const res = await fetch("/api/players/roles");
+  if (!res.ok) throw new Error("Failed to fetch player roles");
+  const json = await res.json();
+  return json.data;
+}
+
 function PlayerSkeleton() {
   return (
     <Card>
@@ -77,12 +95,17 @@ function PlayerSkeleton() {
 
 function PlayersPage() {
   const navigate = useNavigate();
-  const { page = 1, search = "" } = Route.useSearch();
+  const { page = 1, search = "", role } = Route.useSearch();
   const [inputValue, setInputValue] = useState(search);
 
   const { data, isLoading, error } = useQuery({
-    queryKey: ["players", page, search],
-    queryFn: () => fetchPlayers(page, search),
+    queryKey: ["players", page, search, role],
+    queryFn: () => fetchPlayers(page, search, role),
+  });
+
+  const { data: roles = [] } = useQuery({
+    queryKey: ["player-roles"],
+    queryFn: fetchPlayerRoles,
   });
 
   // Sync input value with URL search param when navigating back
@@ -94,7 +117,10 @@ function PlayersPage() {
   useEffect(() => {
     const timer = setTimeout(() => {
       if (inputValue !== search) {
-        navigate({ to: "/players", search: { page: 1, search: inputValue } });
+        navigate({
+          to: "/players",
+          search: { page: 1, search: inputValue, role },
+        });
       }
     }, 500);
 
@@ -104,7 +130,7 @@ function PlayersPage() {
   const totalPages = data ? Math.ceil(data.meta.total / ITEMS_PER_PAGE) : 0;
 
   const handlePageChange = (newPage: number) => {
-    navigate({ to: "/players", search: { page: newPage, search } });
+    navigate({ to: "/players", search: { page: newPage, search, role } });
     window.scrollTo({ top: 0, behavior: "smooth" });
   };
 
@@ -167,6 +193,26 @@ function PlayersPage() {
             className="pl-10"
           />
         </div>
+
+        {roles.length > 0 && (
+          <select
+            value={role ?? ""}
+            onChange={(e) =>
+              navigate({
+                to: "/players",
+                search: { page: 1, search, role: e.target.value || undefined },
+              })
+            }
+            className="mt-3 rounded-md border border-border bg-background px-3 py-2 text-sm"
+          >
+            <option value="">All roles</option>
+            {roles.map((r) => (
+              <option key={r.role} value={r.role}>
+                {r.role} ({r.positionCategory})
+              </option>
+            ))}
+          </select>
+        )}
       </div>
 
       {error && (
@@ -1,5 +1,6 @@
-import { createFileRoute } from "@tanstack/react-router";
+import { createFileRoute, Link } from "@tanstack/react-router";
 import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -16,6 +17,226 @@ async function fetchPlayerComprehensive(playerId: string) {
   return res.json();
 }
 
+interface PercentileMetric {
+  key: string;
+  label: string;
+  per90: boolean;
+  inverted: boolean;
+  value: number | null;
+  percentile: number;
+}
+
+interface PlayerSeason {
+  competition_id: number;
+  competition_name: string;
+  season_id: number;
+  season_name: string;
+}
+
+async function fetchPlayerPercentiles(playerId: string, season: string) {
+  const [competitionId, seasonId] = season.split("-");
+  const params = new URLSearchParams(season ? { competitionId, seasonId } : {});
+  const res = await fetch(`/api/players/${playerId}/percentiles?${params}`);
+  if (!res.ok) throw new Error("Failed to fetch percentiles");
+  return res.json();
+}
+
+async function fetchPlayerSeasons(playerId: string) {
+  const res = await fetch(`/api/players/${playerId}/seasons`);
+  if (!res.ok) throw new Error("Failed to fetch seasons");
+  return res.json();
+}
+
+function percentileColor(percentile: number) {
+  if (percentile >= 80) return "bg-green-600";
+  if (percentile >= 60) return "bg-green-400";
+  if (percentile >= 40) return "bg-yellow-400";
+  if (percentile >= 20) return "bg-orange-400";
+  return "bg-red-500";
+}
+
+function PercentilesPanel({ playerId }: { playerId: string }) {
+  // "" = player's most recent competition-season
+  const [season, setSeason] = useState("");
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["player-percentiles", playerId, season],
+    queryFn: () => fetchPlayerPercentiles(playerId, season),
+  });
+
+  const { data: seasonsData } = useQuery({
+    queryKey: ["player-seasons", playerId],
+    queryFn: () => fetchPlayerSeasons(playerId),
+  });
+
+  const percentiles = data?.data;
+  const seasonsList: PlayerSeason[] = seasonsData?.data?.seasons || [];
+  const selected =
+    season ||
+    (percentiles
+      ? `${percentiles.competitionSeason.competitionId}-${percentiles.competitionSeason.seasonId}`
+      : "");
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Percentile Ranks</CardTitle>
+          {percentiles?.positionCategory && (
+            <p className="text-sm text-muted-foreground mt-1">
+              Per 90 vs {percentiles.peers} {percentiles.positionCategory}s
+              {" · "}
+              {percentiles.minutes?.toLocaleString()} minutes
+            </p>
+          )}
+        </div>
+        {seasonsList.length > 0 && (
+          <select
+            value={selected}
+            onChange={(e) => setSeason(e.target.value)}
+            className="rounded-md border border-border bg-background px-2 py-1 text-sm"
+          >
+            {seasonsList.map((s) => (
+              <option
+                key={`${s.competition_id}-${s.season_id}`}
+                value={`${s.competition_id}-${s.season_id}`}
+              >
+                {s.competition_name} {s.season_name}
+              </option>
+            ))}
+          </select>
+        )}
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-sm text-muted-foreground">
+            Percentiles not available
+          </div>
+        ) : isLoading ? (
+          <div className="space-y-3">
+            {[...Array(6)].map((_, i) => (
+              <Skeleton key={i} className="h-4 w-full" />
+            ))}
+          </div>
+        ) : !data?.meta?.eligible ? (
+          <div className="text-sm text-muted-foreground">
+            Fewer than {data?.meta?.minMinutes} minutes played in this
+            competition-season
+          </div>
+        ) : (
+          <div className="grid gap-x-8 gap-y-3 md:grid-cols-2">
+            {percentiles.metrics.map((metric: PercentileMetric) => (
+              <div key={metric.key}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-muted-foreground">
+                    {metric.label}
+                    {metric.per90 && " /90"}
+                  </span>
+                  <span>
+                    <span className="font-semibold">{metric.value ?? "-"}</span>
+                    <span className="text-muted-foreground ml-2">
+                      {metric.percentile}
+                    </span>
+                  </span>
+                </div>
+                <div className="h-2 rounded-full bg-muted">
+                  <div
+                    className={`h-2 rounded-full ${percentileColor(
+                      metric.percentile
+                    )}`}
+                    style={{ width: `${Math.max(metric.percentile, 2)}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface SimilarPlayer {
+  playerId: number;
+  playerName: string;
+  positionCategory: string | null;
+  minutes: number;
+  similarity: number;
+}
+
+async function fetchSimilarPlayers(playerId: string) {
+  const res = await fetch(`/api/players/${playerId}/similar?limit=8`);
+  if (!res.ok) throw new Error("Failed to fetch similar players");
+  return res.json();
+}
+
+function SimilarPlayersCard({ playerId }: { playerId: string }) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["player-similar", playerId],
+    queryFn: () => fetchSimilarPlayers(playerId),
+  });
+
+  const similar: SimilarPlayer[] = data?.data?.similar || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Similar Players</CardTitle>
+        {data?.meta && (
+          <p className="text-sm text-muted-foreground">
+            Per-90 profile
+            {data.meta.positionCategory && ` · ${data.meta.positionCategory}s`}
+            {` · ${data.meta.minMinutes}+ minutes`}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error ? (
+          <div className="text-sm text-muted-foreground">
+            Similar players not available
+          </div>
+        ) : isLoading ? (
+          [...Array(5)].map((_, i) => (
+            <Skeleton key={i} className="h-4 w-full" />
+          ))
+        ) : similar.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            No comparable players found
+          </div>
+        ) : (
+          similar.map((p) => (
+            <div
+              key={p.playerId}
+              className="flex justify-between items-center border-b border-border pb-2 last:border-0"
+            >
+              <Link
+                to="/players/$playerId"
+                params={{ playerId: p.playerId.toString() }}
+                className="text-sm hover:underline"
+              >
+                {p.playerName}
+              </Link>
+              <div className="flex items-center gap-2">
+                <Button variant="ghost" size="sm" asChild>
+                  <Link
+                    to="/compare"
+                    search={{ ids: `${playerId},${p.playerId}`, per90: true }}
+                  >
+                    Compare
+                  </Link>
+                </Button>
+                <Badge variant="secondary">
+                  {Math.round(p.similarity * 100)}%
+                </Badge>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function PlayerDetailPage() {
   const { playerId } = Route.useParams();
 
@@ -69,8 +290,14 @@ function PlayerDetailPage() {
     );
   }
 
-  const { player, positionsPlayed, teamsPlayedFor, competitionsPlayed, stats } =
-    playerData;
+  const {
+    player,
+    positionsPlayed,
+    teamsPlayedFor,
+    competitionsPlayed,
+    roles,
+    stats,
+  } = playerData;
 
   return (
     <div className="container mx-auto py-4 px-4 md:py-8 md:px-6">
@@ -93,7 +320,17 @@ function PlayerDetailPage() {
               "{player.playerNickname}"
             </p>
           )}
+          {roles.length > 0 && (
+            <Badge variant="secondary" className="mt-2">
+              {roles[0].role}
+            </Badge>
+          )}
         </div>
+        <Button variant="outline" size="sm" className="ml-auto" asChild>
+          <Link to="/compare" search={{ ids: playerId, per90: true }}>
+            Compare
+          </Link>
+        </Button>
       </div>
 
       {/* Career Overview */}
@@ -134,6 +371,9 @@ function PlayerDetailPage() {
         </Card>
       </div>
 
+      {/* Percentile Ranks */}
+      <PercentilesPanel playerId={playerId} />
+
       {/* Main Stats Grid */}
       <div className="grid gap-6 lg:grid-cols-2 xl:grid-cols-3">
         {/* Positions */}
@@ -167,6 +407,35 @@ function PlayerDetailPage() {
           </CardContent>
         </Card>
 
+        {/* Roles */}
+        {roles.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Roles by Season</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {roles.map((r: any) => (
+                  <div
+                    key={`${r.competitionId}-${r.seasonId}`}
+                    className="flex justify-between items-center border-b border-border pb-2 last:border-0"
+                  >
+                    <div>
+                      <div className="font-medium">{r.role}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {r.competitionName} {r.seasonName}
+                      </div>
+                    </div>
+                    <Badge variant="outline">
+                      {Math.round(r.roleConfidence * 100)}% fit
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Teams */}
         <Card>
           <CardHeader>
@@ -451,6 +720,9 @@ function PlayerDetailPage() {
           </CardContent>
         </Card>
 
+        {/* Similar Players */}
+        <SimilarPlayersCard playerId={playerId} />
+
         {/* Goalkeeper Stats */}
         {stats.goalkeeper.goalkeeper_actions > 0 && (
           <Card>
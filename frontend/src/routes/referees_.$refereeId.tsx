@@ -0,0 +1,327 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeftIcon } from "lucide-react";
+
+export const Route = createFileRoute("/referees_/$refereeId")({
+  component: RefereeDetailPage,
+});
+
+async function fetchReferee(refereeId: string) {
+  const res = await fetch(`/api/referees/${refereeId}`);
+  if (!res.ok) throw new Error("Failed to fetch referee");
+  return res.json();
+}
+
+function formatRate(value: number | null) {
+  return value === null ? "—" : value.toFixed(2);
+}
+
+function formatShare(value: number | null) {
+  return value === null ? "—" : `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Referee value against the competition average, coloured by direction
+ */
+function Comparison({
+  label,
+  value,
+  average,
+  format = formatRate,
+}: {
+  label: string;
+  value: number | null;
+  average: number | null;
+  format?: (value: number | null) => string;
+}) {
+  const diff = value !== null && average !== null ? value - average : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">{label}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="text-3xl font-bold">{format(value)}</div>
+        <div className="text-xs text-muted-foreground mt-1">
+          Avg {format(average)}
+          {diff !== null && diff !== 0 && (
+            <span
+              className={diff > 0 ? "text-red-600 ml-2" : "text-green-600 ml-2"}
+            >
+              {diff > 0 ? "▲" : "▼"} {Math.abs(diff).toFixed(2)}
+            </span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function RefereeDetailPage() {
+  const { refereeId } = Route.useParams();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["referee", refereeId],
+    queryFn: () => fetchReferee(refereeId),
+  });
+
+  const refereeData = data?.data;
+
+  if (error) {
+    return (
+      <div className="container mx-auto py-8 px-6">
+        <div className="text-destructive">
+          Error loading referee: {(error as Error).message}
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-8 px-6">
+        <div className="flex items-center gap-4 mb-8">
+          <Skeleton className="h-10 w-10" />
+          <Skeleton className="h-10 w-64" />
+        </div>
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+          {[...Array(4)].map((_, i) => (
+            <Card key={i}>
+              <CardHeader>
+                <Skeleton className="h-6 w-32" />
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Skeleton className="h-4 w-full" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (!refereeData) {
+    return (
+      <div className="container mx-auto py-8 px-6">
+        <div className="text-muted-foreground">Referee not found</div>
+      </div>
+    );
+  }
+
+  const { referee, summary, byCompetition, recentMatches } = refereeData;
+  const ref = summary.referee;
+  const avg = summary.competitionAverage;
+
+  return (
+    <div className="container mx-auto py-4 px-4 md:py-8 md:px-6">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-8">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => window.history.back()}
+          className="hover:bg-accent"
+        >
+          <ArrowLeftIcon className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-2xl md:text-4xl font-bold text-foreground">
+            {referee.refereeName}
+          </h1>
+          <p className="text-base md:text-lg text-muted-foreground mt-1">
+            {referee.country?.name || "Unknown"} • {ref.matches} matches
+          </p>
+        </div>
+      </div>
+
+      {/* Disciplinary Overview */}
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4 mb-6">
+        <Comparison
+          label="Cards per Match"
+          value={ref.cardsPerMatch}
+          average={avg.cardsPerMatch}
+        />
+        <Comparison
+          label="Fouls per Match"
+          value={ref.foulsPerMatch}
+          average={avg.foulsPerMatch}
+        />
+        <Comparison
+          label="Penalties per Match"
+          value={ref.penaltiesPerMatch}
+          average={avg.penaltiesPerMatch}
+        />
+        <Comparison
+          label="Away Card Share"
+          value={ref.awayCardShare}
+          average={avg.awayCardShare}
+          format={formatShare}
+        />
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Home vs Away */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Home vs Away</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <span className="text-sm text-muted-foreground">
+                  Home cards per match
+                </span>
+                <span className="font-semibold">
+                  {formatRate(ref.homeCardsPerMatch)}{" "}
+                  <span className="text-xs text-muted-foreground">
+                    (avg {formatRate(avg.homeCardsPerMatch)})
+                  </span>
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-sm text-muted-foreground">
+                  Away cards per match
+                </span>
+                <span className="font-semibold">
+                  {formatRate(ref.awayCardsPerMatch)}{" "}
+                  <span className="text-xs text-muted-foreground">
+                    (avg {formatRate(avg.awayCardsPerMatch)})
+                  </span>
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-sm text-muted-foreground">
+                  Penalties to home side
+                </span>
+                <span className="font-semibold">{ref.homePenalties}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-sm text-muted-foreground">
+                  Penalties to away side
+                </span>
+                <span className="font-semibold">{ref.awayPenalties}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-sm text-muted-foreground">
+                  Fouls per card
+                </span>
+                <span className="font-semibold">
+                  {formatRate(ref.foulsPerCard)}{" "}
+                  <span className="text-xs text-muted-foreground">
+                    (avg {formatRate(avg.foulsPerCard)})
+                  </span>
+                </span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Recent Matches */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Matches</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {recentMatches.length > 0 ? (
+              <div className="space-y-2">
+                {recentMatches.map((match: any) => (
+                  <div
+                    key={match.match_id}
+                    className="flex justify-between items-center border-b border-border pb-2 last:border-0"
+                  >
+                    <div>
+                      <div className="text-sm font-medium">
+                        {match.home_team_name} {match.home_score}-
+                        {match.away_score} {match.away_team_name}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {match.match_date} • {match.competition_name}
+                      </div>
+                    </div>
+                    <div className="flex gap-1">
+                      <Badge className="bg-yellow-500 text-black">
+                        {match.yellow_cards}
+                      </Badge>
+                      <Badge variant="destructive">{match.red_cards}</Badge>
+                      {match.penalties > 0 && (
+                        <Badge variant="secondary">{match.penalties} pen</Badge>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-sm text-muted-foreground">No match data</div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* By Competition */}
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>By Competition</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Competition</TableHead>
+                <TableHead className="text-right">Matches</TableHead>
+                <TableHead className="text-right">Cards/M</TableHead>
+                <TableHead className="text-right">Avg</TableHead>
+                <TableHead className="text-right">Fouls/M</TableHead>
+                <TableHead className="text-right">Avg</TableHead>
+                <TableHead className="text-right">Pens/M</TableHead>
+                <TableHead className="text-right">Avg</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {byCompetition.map((row: any) => (
+                <TableRow key={row.competitionId}>
+                  <TableCell className="font-medium">
+                    {row.competitionName}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {row.referee.matches}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatRate(row.referee.cardsPerMatch)}
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {formatRate(row.competitionAverage.cardsPerMatch)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatRate(row.referee.foulsPerMatch)}
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {formatRate(row.competitionAverage.foulsPerMatch)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatRate(row.referee.penaltiesPerMatch)}
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {formatRate(row.competitionAverage.penaltiesPerMatch)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
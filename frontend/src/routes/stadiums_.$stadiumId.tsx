@@ -0,0 +1,273 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeftIcon } from "lucide-react";
+
+export const Route = createFileRoute("/stadiums_/$stadiumId")({
+  component: StadiumDetailPage,
+});
+
+async function fetchStadium(stadiumId: string) {
+  const res = await fetch(`/api/stadiums/${stadiumId}`);
+  if (!res.ok) throw new Error("Failed to fetch stadium");
+  return res.json();
+}
+
+function StadiumDetailPage() {
+  const { stadiumId } = Route.useParams();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["stadium", stadiumId],
+    queryFn: () => fetchStadium(stadiumId),
+  });
+
+  const stadiumData = data?.data;
+
+  if (error) {
+    return (
+      <div className="container mx-auto py-8 px-6">
+        <div className="text-destructive">
+          Error loading stadium: {(error as Error).message}
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-8 px-6">
+        <div className="flex items-center gap-4 mb-8">
+          <Skeleton className="h-10 w-10" />
+          <Skeleton className="h-10 w-64" />
+        </div>
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+          {[...Array(4)].map((_, i) => (
+            <Card key={i}>
+              <CardHeader>
+                <Skeleton className="h-6 w-32" />
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Skeleton className="h-4 w-full" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (!stadiumData) {
+    return (
+      <div className="container mx-auto py-8 px-6">
+        <div className="text-muted-foreground">Stadium not found</div>
+      </div>
+    );
+  }
+
+  const {
+    stadium,
+    summary,
+    historicalNames,
+    tenants,
+    competitions,
+    recentMatches,
+  } = stadiumData;
+
+  const formerNames = historicalNames.filter(
+    (h: any) => h.name !== stadium.stadiumName
+  );
+
+  return (
+    <div className="container mx-auto py-4 px-4 md:py-8 md:px-6">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-8">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => window.history.back()}
+          className="hover:bg-accent"
+        >
+          <ArrowLeftIcon className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-2xl md:text-4xl font-bold text-foreground">
+            {stadium.stadiumName}
+          </h1>
+          <p className="text-base md:text-lg text-muted-foreground mt-1">
+            {stadium.country?.name || "Unknown"}
+            {formerNames.length > 0 &&
+              ` • Formerly ${formerNames.map((h: any) => h.name).join(", ")}`}
+          </p>
+        </div>
+      </div>
+
+      {/* Overview */}
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4 mb-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">Matches Hosted</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold">{summary.matches}</div>
+            {summary.first_match && (
+              <div className="text-xs text-muted-foreground mt-1">
+                {summary.first_match} → {summary.last_match}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">Home Win Rate</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-green-600">
+              {summary.home_win_rate || 0}%
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">Results (H-D-A)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold">
+              {summary.home_wins}-{summary.draws}-{summary.away_wins}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">Goals per Match</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold">
+              {summary.avg_goals || "0.00"}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Tenants */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Home Teams</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {tenants.length > 0 ? (
+              <div className="space-y-2">
+                {tenants.map((team: any) => (
+                  <Link
+                    key={team.team_id}
+                    to="/teams/$teamId"
+                    params={{ teamId: team.team_id.toString() }}
+                    className="flex justify-between items-center p-2 rounded hover:bg-accent transition-colors"
+                  >
+                    <div>
+                      <div className="font-medium">{team.team_name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {team.wins}W {team.draws}D {team.losses}L
+                      </div>
+                    </div>
+                    <Badge variant="secondary">
+                      {team.home_matches} matches
+                    </Badge>
+                  </Link>
+                ))}
+              </div>
+            ) : (
+              <div className="text-sm text-muted-foreground">No home teams</div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Competitions */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Competitions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {competitions.map((comp: any) => (
+                <div
+                  key={`${comp.competition_id}-${comp.season_id}`}
+                  className="flex justify-between items-center border-b border-border pb-2 last:border-0"
+                >
+                  <div>
+                    <div className="font-medium">{comp.competition_name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {comp.season_name}
+                    </div>
+                  </div>
+                  <Badge variant="secondary">{comp.matches} matches</Badge>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Historical Names */}
+        {historicalNames.length > 1 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Name History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {historicalNames.map((h: any) => (
+                  <div
+                    key={h.name}
+                    className="flex justify-between items-center border-b border-border pb-2 last:border-0"
+                  >
+                    <div>
+                      <div className="font-medium">{h.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {h.first_seen} → {h.last_seen}
+                      </div>
+                    </div>
+                    <Badge variant="secondary">{h.matches} matches</Badge>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Recent Matches */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Matches</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {recentMatches.map((match: any) => (
+                <Link
+                  key={match.match_id}
+                  to="/matches/$matchId"
+                  params={{ matchId: match.match_id.toString() }}
+                  className="flex justify-between items-center p-2 rounded hover:bg-accent transition-colors"
+                >
+                  <div>
+                    <div className="text-sm font-medium">
+                      {match.home_team_name} vs {match.away_team_name}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {match.match_date} • {match.competition_name}
+                    </div>
+                  </div>
+                  <Badge variant="secondary">
+                    {match.home_score}-{match.away_score}
+                  </Badge>
+                </Link>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,18 @@
 import { createFileRoute, Link } from "@tanstack/react-router";
 import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { ArrowLeftIcon } from "lucide-react";
 
 export const Route = createFileRoute("/teams_/$teamId")({
@@ -16,8 +25,351 @@ async function fetchTeamComprehensive(teamId: string) {
   return res.json();
 }
 
+// Competition-season as "competitionId-seasonId" ("" = API default)
+function seasonParams(season: string) {
+  const [competitionId, seasonId] = season.split("-");
+  return new URLSearchParams(season ? { competitionId, seasonId } : {});
+}
+
+async function fetchTeamStyle(teamId: string, season: string) {
+  const res = await fetch(`/api/teams/${teamId}/style?${seasonParams(season)}`);
+  if (!res.ok) throw new Error("Failed to fetch team style");
+  return res.json();
+}
+
+function formatStat(value: number | null | undefined, suffix = "") {
+  return value === null || value === undefined ? "-" : `${value}${suffix}`;
+}
+
+function PlayingStyleCard({
+  teamId,
+  season,
+}: {
+  teamId: string;
+  season: string;
+}) {
+  const { data, isLoading } = useQuery({
+    queryKey: ["team-style", teamId, season],
+    queryFn: () => fetchTeamStyle(teamId, season),
+  });
+
+  // Most recent competition-season first
+  const style = data?.data?.seasons?.[0];
+
+  const rows: [string, string][] = style
+    ? [
+        ["PPDA", formatStat(style.ppda)],
+        ["Field Tilt", formatStat(style.fieldTilt, "%")],
+        [
+          "Possession Length",
+          `${formatStat(style.possession.avgEvents)} events · ${formatStat(
+            style.possession.avgSeconds,
+            "s"
+          )}`,
+        ],
+        ["Directness", formatStat(style.directness)],
+        ["Avg Pass Length", formatStat(style.passing.avgLength, " yd")],
+        ["High Passes", formatStat(style.passing.highShare, "%")],
+        ["Crosses / Match", formatStat(style.crossing.crossesPerMatch)],
+        [
+          "Counter-Attack Possessions",
+          formatStat(style.counterAttack.possessionShare, "%"),
+        ],
+      ]
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Playing Style</CardTitle>
+        {style && (
+          <p className="text-sm text-muted-foreground">
+            {style.competitionName} {style.seasonName} · {style.matches} matches
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          [...Array(6)].map((_, i) => (
+            <Skeleton key={i} className="h-4 w-full" />
+          ))
+        ) : rows.length > 0 ? (
+          rows.map(([label, value]) => (
+            <div
+              key={label}
+              className="flex justify-between items-center border-b border-border pb-2 last:border-0"
+            >
+              <span className="text-sm text-muted-foreground">{label}</span>
+              <span className="font-semibold">{value}</span>
+            </div>
+          ))
+        ) : (
+          <div className="text-sm text-muted-foreground">No event data</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface Fixture {
+  match_id: number;
+  match_date: string;
+  competition_stage: string | null;
+  match_week: number | null;
+  venue: "home" | "away";
+  opponent_id: number;
+  opponent_name: string;
+  goals_for: number;
+  goals_against: number;
+  xg_for: number;
+  xg_against: number;
+  result: "W" | "D" | "L";
+  cumulative_points: number;
+  cumulative_xg_difference: number;
+}
+
+interface TeamSeason {
+  competitionId: number;
+  competitionName: string;
+  seasonId: number;
+  seasonName: string;
+  matches: number;
+}
+
+async function fetchTeamFixtures(teamId: string, season: string) {
+  const res = await fetch(
+    `/api/teams/${teamId}/fixtures?${seasonParams(season)}`
+  );
+  if (!res.ok) throw new Error("Failed to fetch fixtures");
+  return res.json();
+}
+
+const RESULT_COLORS: Record<Fixture["result"], string> = {
+  W: "bg-green-600 text-white",
+  D: "bg-muted-foreground text-white",
+  L: "bg-red-600 text-white",
+};
+
+/**
+ * Simple SVG line chart over match number (zero line when values cross 0)
+ */
+function TimelineChart({
+  values,
+  color,
+  label,
+}: {
+  values: number[];
+  color: string;
+  label: string;
+}) {
+  const width = 600;
+  const height = 160;
+  const padding = 24;
+
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const range = max - min || 1;
+
+  const x = (i: number) =>
+    padding + (i * (width - padding * 2)) / Math.max(values.length - 1, 1);
+  const y = (value: number) =>
+    height - padding - ((value - min) / range) * (height - padding * 2);
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="text-muted-foreground">{label}</span>
+        <span className="font-semibold">{values[values.length - 1] ?? 0}</span>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full">
+        <line
+          x1={padding}
+          x2={width - padding}
+          y1={y(0)}
+          y2={y(0)}
+          className="stroke-border"
+          strokeDasharray="4 4"
+        />
+        <polyline
+          points={values.map((v, i) => `${x(i)},${y(v)}`).join(" ")}
+          fill="none"
+          stroke={color}
+          strokeWidth={2}
+        />
+        {values.map((v, i) => (
+          <circle key={i} cx={x(i)} cy={y(v)} r={3} fill={color} />
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+function SeasonSection({
+  teamId,
+  season,
+  onSeasonChange,
+}: {
+  teamId: string;
+  season: string;
+  onSeasonChange: (season: string) => void;
+}) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["team-fixtures", teamId, season],
+    queryFn: () => fetchTeamFixtures(teamId, season),
+  });
+
+  const fixturesData = data?.data;
+  const fixtures: Fixture[] = fixturesData?.fixtures || [];
+  const seasonsList: TeamSeason[] = fixturesData?.seasons || [];
+  const selected =
+    season ||
+    (data?.meta?.competitionId
+      ? `${data.meta.competitionId}-${data.meta.seasonId}`
+      : "");
+
+  if (error) {
+    return (
+      <div className="text-destructive mb-6">
+        Error loading fixtures: {(error as Error).message}
+      </div>
+    );
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle>Season</CardTitle>
+        {seasonsList.length > 0 && (
+          <select
+            value={selected}
+            onChange={(e) => onSeasonChange(e.target.value)}
+            className="rounded-md border border-border bg-background px-2 py-1 text-sm"
+          >
+            {seasonsList.map((s) => (
+              <option
+                key={`${s.competitionId}-${s.seasonId}`}
+                value={`${s.competitionId}-${s.seasonId}`}
+              >
+                {s.competitionName} {s.seasonName} ({s.matches})
+              </option>
+            ))}
+          </select>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-6 w-48" />
+            <Skeleton className="h-32 w-full" />
+          </div>
+        ) : fixtures.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No fixtures</div>
+        ) : (
+          <>
+            {/* Record and Form Guide */}
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="text-sm">
+                <span className="font-semibold">
+                  {fixturesData.record.won}W {fixturesData.record.drawn}D{" "}
+                  {fixturesData.record.lost}L
+                </span>
+                <span className="text-muted-foreground">
+                  {" "}
+                  · {fixturesData.record.points} pts · Goals{" "}
+                  {fixturesData.record.goalsFor}-
+                  {fixturesData.record.goalsAgainst} · xG{" "}
+                  {fixturesData.record.xgFor}-{fixturesData.record.xgAgainst}
+                </span>
+              </div>
+              <div className="flex items-center gap-1">
+                <span className="text-xs text-muted-foreground mr-2">Form</span>
+                {fixturesData.form.map(
+                  (result: Fixture["result"], i: number) => (
+                    <span
+                      key={i}
+                      className={`flex h-6 w-6 items-center justify-center rounded text-xs font-semibold ${RESULT_COLORS[result]}`}
+                    >
+                      {result}
+                    </span>
+                  )
+                )}
+              </div>
+            </div>
+
+            {/* Results Timeline */}
+            <div className="grid gap-6 md:grid-cols-2">
+              <TimelineChart
+                label="Cumulative Points"
+                values={fixtures.map((f) => f.cumulative_points)}
+                color="#2563eb"
+              />
+              <TimelineChart
+                label="Cumulative xG Difference"
+                values={fixtures.map((f) => f.cumulative_xg_difference)}
+                color="#16a34a"
+              />
+            </div>
+
+            {/* Fixtures */}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Opponent</TableHead>
+                  <TableHead>Venue</TableHead>
+                  <TableHead className="text-center">Score</TableHead>
+                  <TableHead className="text-right">xG</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {fixtures.map((f) => (
+                  <TableRow key={f.match_id}>
+                    <TableCell className="text-muted-foreground">
+                      {f.match_date}
+                    </TableCell>
+                    <TableCell>
+                      <Link
+                        to="/teams/$teamId"
+                        params={{ teamId: f.opponent_id.toString() }}
+                        className="hover:underline"
+                      >
+                        {f.opponent_name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{f.venue === "home" ? "H" : "A"}</TableCell>
+                    <TableCell className="text-center">
+                      <Link
+                        to="/matches/$matchId"
+                        params={{ matchId: f.match_id.toString() }}
+                        className="inline-flex items-center gap-2 hover:underline"
+                      >
+                        <span
+                          className={`flex h-5 w-5 items-center justify-center rounded text-xs font-semibold ${
+                            RESULT_COLORS[f.result]
+                          }`}
+                        >
+                          {f.result}
+                        </span>
+                        {f.goals_for}-{f.goals_against}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {f.xg_for.toFixed(2)}-{f.xg_against.toFixed(2)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function TeamDetailPage() {
   const { teamId } = Route.useParams();
+  const [season, setSeason] = useState("");
 
   const { data, isLoading, error } = useQuery({
     queryKey: ["team-comprehensive", teamId],
@@ -157,6 +509,13 @@ function TeamDetailPage() {
         </Card>
       </div>
 
+      {/* Season Fixtures */}
+      <SeasonSection
+        teamId={teamId}
+        season={season}
+        onSeasonChange={setSeason}
+      />
+
       {/* Main Stats Grid */}
       <div className="grid gap-6 lg:grid-cols-2 xl:grid-cols-3">
         {/* Record */}
@@ -205,7 +564,11 @@ function TeamDetailPage() {
             <div className="flex justify-between items-center">
               <span className="text-muted-foreground">Difference</span>
               <span
-                className={`font-semibold ${matchStats.goals_scored - matchStats.goals_conceded >= 0 ? "text-green-600" : "text-red-600"}`}
+                className={`font-semibold ${
+                  matchStats.goals_scored - matchStats.goals_conceded >= 0
+                    ? "text-green-600"
+                    : "text-red-600"
+                }`}
               >
                 {matchStats.goals_scored - matchStats.goals_conceded >= 0
                   ? "+"
@@ -274,6 +637,9 @@ function TeamDetailPage() {
           </CardContent>
         </Card>
 
+        {/* Playing Style */}
+        <PlayingStyleCard teamId={teamId} season={season} />
+
         {/* Competitions */}
         <Card>
           <CardHeader>